@@ -13,6 +13,8 @@ import QuizAttempt from "./pages/QuizAttempt";
 import SharedQuiz from "./pages/SharedQuiz";
 import NotFound from "./pages/NotFound";
 import QuizHistory from "./pages/QuizHistory";
+import QuestionBank from "./pages/QuestionBank";
+import Rosters from "./pages/Rosters";
 
 const queryClient = new QueryClient();
 
@@ -30,6 +32,14 @@ const App = () => (
               path="/dashboard"
               element={<RequireAuth><Dashboard /></RequireAuth>}
             />
+            <Route
+              path="/bank"
+              element={<RequireAuth><QuestionBank /></RequireAuth>}
+            />
+            <Route
+              path="/rosters"
+              element={<RequireAuth><Rosters /></RequireAuth>}
+            />
             <Route
               path="/quiz/create"
               element={<RequireAuth><QuizCreate /></RequireAuth>}
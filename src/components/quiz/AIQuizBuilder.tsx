@@ -10,13 +10,12 @@ import { Sparkles, Loader2 } from "lucide-react";
 import ManualQuizBuilder from "./ManualQuizBuilder";
 import { Card, CardContent } from "@/components/ui/card";
 import { Switch } from "@/components/ui/switch";
-
-
-interface GeneratedQuestion {
-  question_text: string;
-  options: string[];
-  correct_option_index: number;
-}
+import {
+  DIFFICULTY_LEVELS,
+  GeneratedQuestion,
+  QUESTION_FORMATS,
+  attachWarnings,
+} from "@/lib/quiz";
 
 export default function AIQuizBuilder() {
   const [topic, setTopic] = useState("");
@@ -53,9 +52,28 @@ export default function AIQuizBuilder() {
       if (error) throw error;
 
       if (data?.title && data?.questions) {
+        const { questions, general } = attachWarnings<GeneratedQuestion>(
+          data.questions,
+          data.warnings
+        );
+        const flagged = questions.filter((q) => q.warnings.length).length;
+
         setGeneratedTitle(data.title);
-        setGeneratedQuestions(data.questions);
-        toast({ title: "Quiz generated! Review and save below." });
+        setGeneratedQuestions(questions);
+
+        if (flagged || general.length) {
+          toast({
+            title: "Quiz generated with warnings",
+            description: [
+              ...general,
+              flagged ? `${flagged} highlighted question(s) need a look before saving.` : "",
+            ]
+              .filter(Boolean)
+              .join(" "),
+          });
+        } else {
+          toast({ title: "Quiz generated! Review and save below." });
+        }
       } else {
         throw new Error("Invalid response from AI");
       }
@@ -132,7 +150,7 @@ export default function AIQuizBuilder() {
   </Label>
 
           <div className="grid grid-cols-3 gap-2">
-            {["MCQ", "Assertion-Reason", "Mixed"].map((type) => (
+            {QUESTION_FORMATS.map((type) => (
               <button
                 key={type}
                 type="button"
@@ -162,7 +180,7 @@ export default function AIQuizBuilder() {
           </Label>
 
           <div className="grid grid-cols-3 gap-2">
-            {["Easy", "Medium", "Competitive"].map((level) => (
+            {DIFFICULTY_LEVELS.map((level) => (
               <button
                 key={level}
                 type="button"
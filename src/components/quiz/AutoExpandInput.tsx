@@ -0,0 +1,44 @@
+import { useEffect, useRef } from "react";
+
+/* ---------------- AUTO EXPAND INPUT ---------------- */
+
+export default function AutoExpandInput({
+  value,
+  onChange,
+  placeholder,
+  className = "",
+  onClick,
+}: {
+  value: string;
+  onChange: (e: React.ChangeEvent<HTMLTextAreaElement>) => void;
+  placeholder?: string;
+  className?: string;
+  onClick?: (e: React.MouseEvent<HTMLTextAreaElement>) => void;
+}) {
+  const ref = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    if (ref.current) {
+      ref.current.style.height = "auto";
+      ref.current.style.height = ref.current.scrollHeight + "px";
+    }
+  }, [value]);
+
+  return (
+    <textarea
+      ref={ref}
+      value={value}
+      onChange={onChange}
+      onClick={onClick}
+      placeholder={placeholder}
+      rows={1}
+      className={`
+        w-full resize-none overflow-hidden
+        bg-transparent
+        focus:outline-none
+        leading-relaxed
+        ${className}
+      `}
+    />
+  );
+}
@@ -0,0 +1,80 @@
+import { Input } from "@/components/ui/input";
+import { Search } from "lucide-react";
+import { BankFilter, DIFFICULTIES } from "@/lib/quiz";
+
+/* ---------------- QUESTION BANK FILTERS ----------------
+   Search box, difficulty and tag chips (bank page + "Add from bank" picker) */
+
+export default function BankFilterBar({
+  filter,
+  onChange,
+  tags,
+}: {
+  filter: BankFilter;
+  onChange: (next: BankFilter) => void;
+  tags: string[];
+}) {
+  const chip = (active: boolean) =>
+    `rounded-lg border px-3 py-1 text-xs font-medium transition-all ${
+      active
+        ? "bg-primary text-primary-foreground border-primary"
+        : "bg-muted hover:bg-muted/70 text-muted-foreground"
+    }`;
+
+  const toggleTag = (tag: string) =>
+    onChange({
+      ...filter,
+      tags: filter.tags.includes(tag)
+        ? filter.tags.filter((t) => t !== tag)
+        : [...filter.tags, tag],
+    });
+
+  return (
+    <div className="space-y-3">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+        <Input
+          value={filter.search}
+          onChange={(e) => onChange({ ...filter, search: e.target.value })}
+          placeholder="Search questions, options or tags..."
+          className="pl-9"
+        />
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          type="button"
+          onClick={() => onChange({ ...filter, difficulty: null })}
+          className={chip(filter.difficulty === null)}
+        >
+          Any difficulty
+        </button>
+        {DIFFICULTIES.map((d) => (
+          <button
+            key={d.id}
+            type="button"
+            onClick={() => onChange({ ...filter, difficulty: d.id })}
+            className={chip(filter.difficulty === d.id)}
+          >
+            {d.label}
+          </button>
+        ))}
+      </div>
+
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {tags.map((tag) => (
+            <button
+              key={tag}
+              type="button"
+              onClick={() => toggleTag(tag)}
+              className={chip(filter.tags.includes(tag))}
+            >
+              #{tag}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
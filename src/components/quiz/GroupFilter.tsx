@@ -0,0 +1,36 @@
+import { GroupOption } from "@/lib/roster";
+
+/* ---------------- GROUP FILTER ----------------
+   "All groups" plus one chip per roster group. Renders nothing when the
+   quiz has no groups, so callers can drop it in unconditionally. */
+
+export default function GroupFilter({
+  groups,
+  value,
+  onChange,
+}: {
+  groups: GroupOption[];
+  value: string | null;
+  onChange: (groupId: string | null) => void;
+}) {
+  if (groups.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {[null, ...groups].map((g) => (
+        <button
+          key={g?.id ?? "all"}
+          type="button"
+          onClick={() => onChange(g?.id ?? null)}
+          className={`rounded-lg border px-3 py-1 text-xs font-medium transition-all ${
+            value === (g?.id ?? null)
+              ? "bg-primary text-primary-foreground border-primary"
+              : "bg-muted hover:bg-muted/70 text-muted-foreground"
+          }`}
+        >
+          {g ? g.name : "All groups"}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,374 @@
+import { Fragment, useMemo, useState } from "react";
+import { Bar, BarChart, CartesianGrid, Cell, ReferenceLine, XAxis, YAxis } from "recharts";
+import { AlertTriangle, ArrowDown, ArrowUp, Check, ChevronDown } from "lucide-react";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { QuizVersion, optionLabel } from "@/lib/quiz";
+import {
+  AnalysisAttempt,
+  AnalysisQuestion,
+  ItemStats,
+  analyseItems,
+  discriminationLabel,
+} from "@/lib/itemAnalysis";
+
+type SortKey =
+  | "position"
+  | "difficulty"
+  | "discrimination"
+  | "avgSeconds"
+  | "responses";
+
+const chartConfig = {
+  percent: { label: "% correct", color: "hsl(var(--primary))" },
+  discrimination: { label: "Discrimination", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const percent = (value: number | null) =>
+  value === null ? "–" : `${Math.round(value * 100)}%`;
+
+const isFlagged = (item: ItemStats) => item.options.some((o) => o.flagged);
+
+/* ---------------- ITEM ANALYSIS TAB ----------------
+   Per-question statistics for one published version (or every attempt
+   against the current questions). */
+
+export default function ItemAnalysis({
+  questions,
+  attempts,
+  versions,
+}: {
+  questions: AnalysisQuestion[];
+  attempts: (AnalysisAttempt & { version_id?: string | null })[];
+  versions: QuizVersion[];
+}) {
+  // Only versions someone actually took, newest first
+  const takenVersions = useMemo(
+    () =>
+      versions
+        .filter((v) => attempts.some((a) => a.version_id === v.id))
+        .sort((a, b) => b.version_number - a.version_number),
+    [versions, attempts]
+  );
+
+  const [versionId, setVersionId] = useState<string | null>(null);
+  const [sortKey, setSortKey] = useState<SortKey>("position");
+  const [ascending, setAscending] = useState(true);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const version = takenVersions.find((v) => v.id === versionId);
+
+  const items = useMemo(
+    () =>
+      version
+        ? analyseItems(
+            version.questions as AnalysisQuestion[],
+            attempts.filter((a) => a.version_id === version.id)
+          )
+        : analyseItems(questions, attempts),
+    [version, questions, attempts]
+  );
+
+  const sorted = useMemo(() => {
+    const value = (item: ItemStats) =>
+      sortKey === "position" ? item.position : item[sortKey] ?? -Infinity;
+
+    return [...items].sort((a, b) =>
+      ascending ? value(a) - value(b) : value(b) - value(a)
+    );
+  }, [items, sortKey, ascending]);
+
+  const chartData = items.map((item) => ({
+    name: `Q${item.position + 1}`,
+    percent: item.difficulty === null ? 0 : Math.round(item.difficulty * 100),
+    discrimination:
+      item.discrimination === null
+        ? 0
+        : Number(item.discrimination.toFixed(2)),
+  }));
+
+  const flagged = items.filter(isFlagged);
+
+  const sortBy = (key: SortKey) => {
+    if (key === sortKey) setAscending(!ascending);
+    else {
+      setSortKey(key);
+      setAscending(key === "position");
+    }
+  };
+
+  const SortHead = ({ label, column }: { label: string; column: SortKey }) => (
+    <TableHead>
+      <button
+        type="button"
+        onClick={() => sortBy(column)}
+        className="inline-flex items-center gap-1 hover:text-foreground"
+      >
+        {label}
+        {sortKey === column &&
+          (ascending ? (
+            <ArrowUp className="h-3 w-3" />
+          ) : (
+            <ArrowDown className="h-3 w-3" />
+          ))}
+      </button>
+    </TableHead>
+  );
+
+  if (attempts.length === 0) {
+    return (
+      <p className="py-16 text-center text-muted-foreground">
+        Item statistics appear once participants have submitted attempts.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* VERSION PICKER */}
+      {takenVersions.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {[null, ...takenVersions].map((v) => (
+            <button
+              key={v?.id ?? "all"}
+              type="button"
+              onClick={() => setVersionId(v?.id ?? null)}
+              className={`rounded-lg border px-3 py-1 text-xs font-medium transition-all ${
+                versionId === (v?.id ?? null)
+                  ? "bg-primary text-primary-foreground border-primary"
+                  : "bg-muted hover:bg-muted/70 text-muted-foreground"
+              }`}
+            >
+              {v ? `v${v.version_number}` : "Current questions"}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* CHARTS */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <div className="rounded-2xl border bg-card p-5 space-y-2">
+          <p className="font-semibold">Percent correct</p>
+          <p className="text-xs text-muted-foreground">
+            Difficulty index. Very high or very low values tell you little.
+          </p>
+          <ChartContainer config={chartConfig} className="h-56 w-full">
+            <BarChart data={chartData}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="name" tickLine={false} axisLine={false} />
+              <YAxis domain={[0, 100]} tickLine={false} axisLine={false} width={32} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Bar dataKey="percent" fill="var(--color-percent)" radius={4} />
+            </BarChart>
+          </ChartContainer>
+        </div>
+
+        <div className="rounded-2xl border bg-card p-5 space-y-2">
+          <p className="font-semibold">Discrimination</p>
+          <p className="text-xs text-muted-foreground">
+            Point-biserial with the rest of the score. Aim for 0.2 or more.
+          </p>
+          <ChartContainer config={chartConfig} className="h-56 w-full">
+            <BarChart data={chartData}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="name" tickLine={false} axisLine={false} />
+              <YAxis domain={[-1, 1]} tickLine={false} axisLine={false} width={32} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ReferenceLine y={0.2} strokeDasharray="4 4" />
+              <Bar dataKey="discrimination" radius={4}>
+                {chartData.map((d) => (
+                  <Cell
+                    key={d.name}
+                    fill={
+                      d.discrimination < 0.2
+                        ? "hsl(var(--destructive))"
+                        : "var(--color-discrimination)"
+                    }
+                  />
+                ))}
+              </Bar>
+            </BarChart>
+          </ChartContainer>
+        </div>
+      </div>
+
+      {/* FLAGS */}
+      {flagged.length > 0 && (
+        <div className="rounded-2xl border border-yellow-500/40 bg-yellow-500/5 p-5 space-y-2">
+          <p className="flex items-center gap-2 font-semibold text-yellow-700">
+            <AlertTriangle className="h-4 w-4" />
+            High scorers chose a wrong option
+          </p>
+          <p className="text-xs text-muted-foreground">
+            A wrong option drew more of the top 27% than the bottom 27%. Check
+            the answer key and wording.
+          </p>
+          <ul className="text-sm space-y-1">
+            {flagged.map((item) => (
+              <li key={item.question.id}>
+                <span className="font-medium">Q{item.position + 1}</span>{" "}
+                {item.question.question_text} —{" "}
+                {item.options
+                  .filter((o) => o.flagged)
+                  .map((o) => optionLabel(o.index))
+                  .join(", ")}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* TABLE */}
+      <div className="rounded-2xl border bg-card">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <SortHead label="#" column="position" />
+              <TableHead>Question</TableHead>
+              <SortHead label="% correct" column="difficulty" />
+              <SortHead label="Discrimination" column="discrimination" />
+              <SortHead label="Avg time" column="avgSeconds" />
+              <SortHead label="Responses" column="responses" />
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+
+          <TableBody>
+            {sorted.map((item) => {
+              const isExpanded = expanded === item.question.id;
+
+              return (
+                <Fragment key={item.question.id}>
+                  <TableRow
+                    className="cursor-pointer"
+                    onClick={() =>
+                      setExpanded(isExpanded ? null : item.question.id)
+                    }
+                  >
+                    <TableCell className="font-medium">
+                      Q{item.position + 1}
+                    </TableCell>
+                    <TableCell className="max-w-xs">
+                      <p className="line-clamp-2">{item.question.question_text}</p>
+                    </TableCell>
+                    <TableCell>{percent(item.difficulty)}</TableCell>
+                    <TableCell>
+                      {item.discrimination === null
+                        ? "–"
+                        : item.discrimination.toFixed(2)}{" "}
+                      <span
+                        className={`text-xs ${
+                          (item.discrimination ?? 0) < 0.2
+                            ? "text-red-600"
+                            : "text-muted-foreground"
+                        }`}
+                      >
+                        {discriminationLabel(item.discrimination)}
+                      </span>
+                    </TableCell>
+                    <TableCell>
+                      {item.avgSeconds === null
+                        ? "–"
+                        : `${Math.round(item.avgSeconds)}s`}
+                      {item.fastAnswers > 0 && (
+                        <span className="block text-xs text-yellow-600">
+                          {item.fastAnswers} very fast
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {item.responses}
+                      {item.unanswered > 0 && (
+                        <span className="text-xs text-muted-foreground">
+                          {" "}
+                          ({item.unanswered} blank)
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <span className="inline-flex items-center gap-2">
+                        {isFlagged(item) && (
+                          <AlertTriangle className="h-4 w-4 text-yellow-600" />
+                        )}
+                        <ChevronDown
+                          className={`h-4 w-4 transition-transform ${
+                            isExpanded ? "rotate-180" : ""
+                          }`}
+                        />
+                      </span>
+                    </TableCell>
+                  </TableRow>
+
+                  {isExpanded && (
+                    <TableRow>
+                      <TableCell colSpan={7} className="bg-muted/20">
+                        {item.options.length === 0 ? (
+                          <p className="text-xs text-muted-foreground">
+                            Free-response question — no options to analyse.
+                          </p>
+                        ) : (
+                          <div className="space-y-2">
+                            <div className="grid grid-cols-[2rem_1fr_4rem_4rem_4rem] gap-2 text-xs font-semibold text-muted-foreground">
+                              <span />
+                              <span>Option</span>
+                              <span>Picked</span>
+                              <span>Top</span>
+                              <span>Bottom</span>
+                            </div>
+
+                            {item.options.map((o) => (
+                              <div
+                                key={o.index}
+                                className={`grid grid-cols-[2rem_1fr_4rem_4rem_4rem] gap-2 items-center text-sm ${
+                                  o.flagged ? "text-red-600" : ""
+                                }`}
+                              >
+                                <span className="font-semibold">
+                                  {optionLabel(o.index)}
+                                </span>
+                                <span className="flex items-center gap-2 min-w-0">
+                                  <span className="truncate">
+                                    {item.question.options[o.index]}
+                                  </span>
+                                  {o.correct && (
+                                    <Check className="h-4 w-4 shrink-0 text-green-600" />
+                                  )}
+                                </span>
+                                <span>
+                                  {o.picked}{" "}
+                                  <span className="text-xs text-muted-foreground">
+                                    {percent(
+                                      item.responses ? o.picked / item.responses : null
+                                    )}
+                                  </span>
+                                </span>
+                                <span>{percent(o.upperRate)}</span>
+                                <span>{percent(o.lowerRate)}</span>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </Fragment>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
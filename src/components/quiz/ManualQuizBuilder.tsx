@@ -1,18 +1,67 @@
-import { useState, useEffect, useRef } from "react";
+import { useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { useAuth } from "@/lib/auth";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
-import { Plus, Trash2, Save, GripVertical } from "lucide-react";
-
-interface Question {
-  question_text: string;
-  options: string[];
-  correct_option_index: number;
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Plus,
+  Trash2,
+  Save,
+  GripVertical,
+  Library,
+  BookmarkPlus,
+  Link2,
+  Unlink,
+  AlertTriangle,
+  Sparkles,
+  Loader2,
+} from "lucide-react";
+import AutoExpandInput from "@/components/quiz/AutoExpandInput";
+import QuestionEditor from "@/components/quiz/QuestionEditor";
+import QuestionBankPicker from "@/components/quiz/QuestionBankPicker";
+import {
+  GeneratedQuestion,
+  QuestionDraft,
+  attachWarnings,
+  blankQuestion,
+  formatAnswerKey,
+  hasOptions,
+  normalizeQuestion,
+  questionColumns,
+  validateQuestion,
+} from "@/lib/quiz";
+
+interface Question extends QuestionDraft {
+  // Existing questions keep their id so attempt answers stay attached
+  id?: string;
+  // Set when inserted from the bank as a link (edited in the bank, not here)
+  bank_question_id?: string | null;
+  // Groups questions for per-section random pool quotas
+  section?: string | null;
+  // Problems flagged by the AI generator, shown until the question is edited
+  warnings?: string[];
 }
 
+// generate-quiz modes that rewrite one question; they need answer options
+const QUESTION_ACTIONS = [
+  { mode: "regenerate", label: "Regenerate" },
+  { mode: "harder", label: "Make harder" },
+  { mode: "easier", label: "Make easier" },
+  { mode: "distractors", label: "Better distractors" },
+] as const;
+
+type QuestionAction = (typeof QUESTION_ACTIONS)[number]["mode"] | "explain";
+
 interface ManualQuizBuilderProps {
   initialTitle?: string;
   initialQuestions?: Question[];
@@ -20,49 +69,6 @@ interface ManualQuizBuilderProps {
   isEditing?: boolean;
 }
 
-/* ---------------- AUTO EXPAND INPUT ---------------- */
-
-function AutoExpandInput({
-  value,
-  onChange,
-  placeholder,
-  className = "",
-  onClick,
-}: {
-  value: string;
-  onChange: (e: React.ChangeEvent<HTMLTextAreaElement>) => void;
-  placeholder?: string;
-  className?: string;
-  onClick?: (e: any) => void;
-}) {
-  const ref = useRef<HTMLTextAreaElement>(null);
-
-  useEffect(() => {
-    if (ref.current) {
-      ref.current.style.height = "auto";
-      ref.current.style.height = ref.current.scrollHeight + "px";
-    }
-  }, [value]);
-
-  return (
-    <textarea
-      ref={ref}
-      value={value}
-      onChange={onChange}
-      onClick={onClick}
-      placeholder={placeholder}
-      rows={1}
-      className={`
-        w-full resize-none overflow-hidden
-        bg-transparent
-        focus:outline-none
-        leading-relaxed
-        ${className}
-      `}
-    />
-  );
-}
-
 /* ---------------- MAIN COMPONENT ---------------- */
 
 export default function ManualQuizBuilder({
@@ -73,22 +79,19 @@ export default function ManualQuizBuilder({
 }: ManualQuizBuilderProps) {
   const [title, setTitle] = useState(initialTitle);
   const [questions, setQuestions] = useState<Question[]>(
-    initialQuestions || [
-      { question_text: "", options: ["", "", "", ""], correct_option_index: 0 },
-    ]
+    (initialQuestions || [blankQuestion()]).map(normalizeQuestion)
   );
   const [saving, setSaving] = useState(false);
+  const [bankOpen, setBankOpen] = useState(false);
+  // Question index (or "more") waiting on generate-quiz
+  const [aiBusy, setAiBusy] = useState<number | "more" | null>(null);
+  const [moreCount, setMoreCount] = useState(3);
   const { user } = useAuth();
   const { toast } = useToast();
   const navigate = useNavigate();
 
-  const optionLabels = ["A", "B", "C", "D"];
-
   const addQuestion = () => {
-    setQuestions((prev) => [
-      ...prev,
-      { question_text: "", options: ["", "", "", ""], correct_option_index: 0 },
-    ]);
+    setQuestions((prev) => [...prev, blankQuestion()]);
   };
 
   const removeQuestion = (index: number) => {
@@ -96,28 +99,159 @@ export default function ManualQuizBuilder({
     setQuestions((prev) => prev.filter((_, i) => i !== index));
   };
 
-  const updateQuestion = (index: number, field: string, value: string) => {
-    setQuestions((prev) =>
-      prev.map((q, i) => (i === index ? { ...q, [field]: value } : q))
-    );
+  const replaceQuestion = (index: number, next: Question) => {
+    setQuestions((prev) => prev.map((q, i) => (i === index ? next : q)));
+  };
+
+  // A lone untouched blank question is replaced rather than kept
+  const insertQuestions = (picked: Question[]) => {
+    setQuestions((prev) => {
+      const untouched =
+        prev.length === 1 &&
+        !prev[0].question_text.trim() &&
+        !prev[0].bank_question_id;
+
+      return untouched ? picked : [...prev, ...picked];
+    });
+  };
+
+  const saveToBank = async (q: Question) => {
+    const problem = validateQuestion(q, "This question");
+    if (problem) {
+      toast({ title: problem, variant: "destructive" });
+      return;
+    }
+
+    const { error } = await supabase
+      .from("question_bank")
+      .insert({ ...questionColumns(q), user_id: user!.id });
+
+    if (error) {
+      toast({
+        title: "Could not save to bank",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({ title: "Saved to question bank" });
   };
 
-  const updateOption = (qIndex: number, oIndex: number, value: string) => {
-    setQuestions((prev) =>
-      prev.map((q, i) =>
-        i === qIndex
-          ? { ...q, options: q.options.map((o, j) => (j === oIndex ? value : o)) }
-          : q
-      )
-    );
+  /* ---------------- AI ACTIONS ---------------- */
+
+  // Texts the model must not repeat
+  const existingTexts = (except?: number) =>
+    questions
+      .filter((q, i) => i !== except && q.question_text.trim())
+      .map((q) => q.question_text.trim());
+
+  const invokeGenerate = async (body: Record<string, unknown>) => {
+    const { data, error } = await supabase.functions.invoke("generate-quiz", { body });
+    if (error) throw error;
+    return data;
   };
 
-  const setCorrectOption = (qIndex: number, oIndex: number) => {
-    setQuestions((prev) =>
-      prev.map((q, i) =>
-        i === qIndex ? { ...q, correct_option_index: oIndex } : q
-      )
-    );
+  const aiFailed = (err: unknown) =>
+    toast({
+      title: "AI request failed",
+      description: err instanceof Error ? err.message : String(err),
+      variant: "destructive",
+    });
+
+  const runQuestionAction = async (qIndex: number, mode: QuestionAction) => {
+    const q = questions[qIndex];
+    setAiBusy(qIndex);
+
+    try {
+      if (mode === "explain") {
+        const data = await invokeGenerate({
+          mode,
+          question: { question_text: q.question_text, options: questionColumns(q).options },
+          answer: formatAnswerKey(q),
+        });
+        if (!data?.explanation) throw new Error("Invalid response from AI");
+
+        replaceQuestion(qIndex, { ...q, explanation: data.explanation });
+      } else {
+        const data = await invokeGenerate({
+          mode,
+          question: questionColumns(q),
+          quizTitle: title,
+          existing: existingTexts(qIndex),
+        });
+        if (!data?.questions?.length) throw new Error("Invalid response from AI");
+
+        const { questions: [next], general } = attachWarnings<GeneratedQuestion>(
+          data.questions.slice(0, 1),
+          data.warnings
+        );
+
+        replaceQuestion(qIndex, {
+          ...normalizeQuestion(next),
+          // A regenerated question is a new one; edits keep attempt answers
+          id: mode === "regenerate" ? undefined : q.id,
+          section: q.section,
+        });
+
+        if (next.warnings.length || general.length) {
+          toast({
+            title: `Question ${qIndex + 1} needs a look`,
+            description: [...general, ...next.warnings].join("; "),
+          });
+        }
+      }
+    } catch (err) {
+      aiFailed(err);
+    }
+
+    setAiBusy(null);
+  };
+
+  const addMoreQuestions = async () => {
+    const existing = existingTexts();
+    if (!title.trim() && !existing.length) {
+      toast({
+        title: "Add a title or a question first",
+        description: "New questions follow the quiz's topic.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setAiBusy("more");
+
+    try {
+      const data = await invokeGenerate({
+        mode: "more",
+        count: moreCount,
+        quizTitle: title,
+        existing,
+      });
+      if (!data?.questions) throw new Error("Invalid response from AI");
+
+      const { questions: added, general } = attachWarnings<GeneratedQuestion>(
+        data.questions,
+        data.warnings
+      );
+      const flagged = added.filter((q) => q.warnings.length).length;
+
+      insertQuestions(added.map(normalizeQuestion));
+
+      toast({
+        title: `Added ${added.length} question(s)`,
+        description: [
+          ...general,
+          flagged ? `${flagged} highlighted question(s) need a look before saving.` : "",
+        ]
+          .filter(Boolean)
+          .join(" "),
+      });
+    } catch (err) {
+      aiFailed(err);
+    }
+
+    setAiBusy(null);
   };
 
   const handleSave = async () => {
@@ -127,16 +261,9 @@ export default function ManualQuizBuilder({
     }
 
     for (let i = 0; i < questions.length; i++) {
-      const q = questions[i];
-      if (!q.question_text.trim()) {
-        toast({ title: `Question ${i + 1} is empty`, variant: "destructive" });
-        return;
-      }
-      if (q.options.some((o) => !o.trim())) {
-        toast({
-          title: `All options in Q${i + 1} must be filled`,
-          variant: "destructive",
-        });
+      const problem = validateQuestion(questions[i], `Question ${i + 1}`);
+      if (problem) {
+        toast({ title: problem, variant: "destructive" });
         return;
       }
     }
@@ -144,34 +271,21 @@ export default function ManualQuizBuilder({
     setSaving(true);
 
     try {
-      let targetQuizId = quizId;
-
-      if (isEditing && quizId) {
-        await supabase.from("quizzes").update({ title }).eq("id", quizId);
-        await supabase.from("questions").delete().eq("quiz_id", quizId);
-      } else {
-        const { data, error } = await supabase
-          .from("quizzes")
-          .insert({ title, user_id: user!.id })
-          .select("id")
-          .single();
-        if (error) throw error;
-        targetQuizId = data.id;
-      }
-
-      const questionRows = questions.map((q, i) => ({
-        quiz_id: targetQuizId!,
-        question_text: q.question_text,
-        options: q.options,
-        correct_option_index: q.correct_option_index,
-        order_num: i,
+      // Upserted by id in one transaction (order comes from array position)
+      const questionRows = questions.map((q) => ({
+        id: q.id ?? null,
+        ...questionColumns(q),
+        bank_question_id: q.bank_question_id ?? null,
+        section: q.section?.trim() || null,
       }));
 
-      const { error: qError } = await supabase
-        .from("questions")
-        .insert(questionRows);
+      const { error } = await supabase.rpc("save_quiz", {
+        _quiz_id: isEditing && quizId ? quizId : null,
+        _title: title,
+        _questions: questionRows,
+      });
 
-      if (qError) throw qError;
+      if (error) throw error;
 
       toast({ title: isEditing ? "Quiz updated!" : "Quiz created!" });
       navigate("/dashboard");
@@ -186,18 +300,6 @@ export default function ManualQuizBuilder({
     setSaving(false);
   };
 
-  function formatAssertionReason(text: string) {
-  if (!text.includes("Assertion:") || !text.includes("Reason:")) {
-    return text; // Normal MCQ — leave untouched
-  }
-
-  return text.replace(
-    /\s*Reason:\s*/i,
-    "\nReason: "
-  );
-}
-  
-
   return (
     <div className="space-y-8 animate-fade-in max-w-5xl mx-auto ">
 
@@ -224,7 +326,9 @@ export default function ManualQuizBuilder({
         {questions.map((q, qIndex) => (
           <div
             key={qIndex}
-            className="glass-card rounded-xl p-6 space-y-5 hover:shadow-lg transition"
+            className={`glass-card rounded-xl p-6 space-y-5 hover:shadow-lg transition ${
+              q.warnings?.length ? "ring-2 ring-yellow-500/50" : ""
+            }`}
           >
             <div className="flex items-center justify-between">
               <div className="flex items-center gap-2">
@@ -232,68 +336,149 @@ export default function ManualQuizBuilder({
                 <span className="font-semibold text-sm text-muted-foreground">
                   Question {qIndex + 1}
                 </span>
+                {q.bank_question_id && (
+                  <span className="flex items-center gap-1 rounded-full bg-primary/10 px-2 py-0.5 text-xs font-medium text-primary">
+                    <Link2 className="h-3 w-3" />
+                    Linked to bank
+                  </span>
+                )}
               </div>
 
-              {questions.length > 1 && (
-                <Button
-                  variant="ghost"
-                  size="icon"
-                  className="h-8 w-8 text-destructive"
-                  onClick={() => removeQuestion(qIndex)}
-                >
-                  <Trash2 className="h-4 w-4" />
-                </Button>
-              )}
+              <div className="flex items-center gap-1">
+                {!q.bank_question_id && (
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        title="AI actions"
+                        disabled={aiBusy !== null || !q.question_text.trim()}
+                      >
+                        {aiBusy === qIndex ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <Sparkles className="h-4 w-4" />
+                        )}
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      {hasOptions(q.question_type) && (
+                        <>
+                          {QUESTION_ACTIONS.map((action) => (
+                            <DropdownMenuItem
+                              key={action.mode}
+                              disabled={
+                                action.mode === "distractors" &&
+                                q.question_type === "true_false"
+                              }
+                              onSelect={() => runQuestionAction(qIndex, action.mode)}
+                            >
+                              {action.label}
+                            </DropdownMenuItem>
+                          ))}
+                          <DropdownMenuSeparator />
+                        </>
+                      )}
+                      <DropdownMenuItem
+                        onSelect={() => runQuestionAction(qIndex, "explain")}
+                      >
+                        Write explanation
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                )}
+
+                {q.bank_question_id ? (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    title="Unlink and edit as a copy"
+                    onClick={() =>
+                      replaceQuestion(qIndex, { ...q, bank_question_id: null })
+                    }
+                  >
+                    <Unlink className="h-4 w-4" />
+                  </Button>
+                ) : (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    title="Save to question bank"
+                    onClick={() => saveToBank(q)}
+                  >
+                    <BookmarkPlus className="h-4 w-4" />
+                  </Button>
+                )}
+
+                {questions.length > 1 && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-destructive"
+                    onClick={() => removeQuestion(qIndex)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
             </div>
 
-            <div className="rounded-lg border bg-card px-4 py-3 focus-within:ring-2 focus-within:ring-primary/40 transition">
-              <AutoExpandInput
-                value={formatAssertionReason(q.question_text)}
+            {!!q.warnings?.length && (
+              <div className="flex gap-2 rounded-lg border border-yellow-500/40 bg-yellow-500/5 p-3 text-xs text-yellow-700">
+                <AlertTriangle className="h-4 w-4 shrink-0" />
+                <div className="space-y-1">
+                  <p className="font-semibold">Check this question before saving</p>
+                  <ul className="list-disc ml-4 space-y-0.5">
+                    {q.warnings.map((w, i) => (
+                      <li key={i}>{w}</li>
+                    ))}
+                  </ul>
+                </div>
+              </div>
+            )}
+
+            {q.bank_question_id ? (
+              /* Linked questions are edited in the bank */
+              <div className="space-y-2 rounded-lg border border-dashed px-4 py-3">
+                <p className="text-base leading-relaxed whitespace-pre-wrap">
+                  {q.question_text}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Answer:{" "}
+                  <span className="font-semibold text-foreground">
+                    {formatAnswerKey(q)}
+                  </span>
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Edit this question in the Question Bank, or unlink it to
+                  edit a copy here.
+                </p>
+              </div>
+            ) : (
+              <QuestionEditor
+                question={q}
+                onChange={(next) =>
+                  replaceQuestion(qIndex, { ...next, warnings: undefined })
+                }
+              />
+            )}
+
+            <div className="flex items-center gap-3">
+              <Label className="shrink-0 text-xs text-muted-foreground">
+                Section
+              </Label>
+              <Input
+                value={q.section ?? ""}
                 onChange={(e) =>
-                  updateQuestion(qIndex, "question_text", e.target.value)
+                  replaceQuestion(qIndex, { ...q, section: e.target.value })
                 }
-                placeholder="Enter your question..."
-                className="text-base"
+                placeholder="Optional, used for per-section random pools"
+                className="h-8 text-sm"
               />
             </div>
-
-            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
-              {q.options.map((opt, oIndex) => (
-                <div
-                  key={oIndex}
-                  onClick={() => setCorrectOption(qIndex, oIndex)}
-                  className={`flex items-start gap-3 rounded-lg border px-4 py-3 cursor-pointer transition-all ${
-                    q.correct_option_index === oIndex
-                      ? "border-accent bg-accent/10 ring-1 ring-accent"
-                      : "border-border hover:border-primary/30"
-                  }`}
-                >
-                  <span
-                    className={`flex h-7 w-7 shrink-0 items-center justify-center rounded-full text-xs font-bold ${
-                      q.correct_option_index === oIndex
-                        ? "bg-accent text-accent-foreground"
-                        : "bg-muted text-muted-foreground"
-                    }`}
-                  >
-                    {["A", "B", "C", "D"][oIndex]}
-                  </span>
-
-                  <AutoExpandInput
-                    value={opt}
-                    onChange={(e) =>
-                      updateOption(qIndex, oIndex, e.target.value)
-                    }
-                    onClick={(e) => e.stopPropagation()}
-                    placeholder={`Option ${["A", "B", "C", "D"][oIndex]}`}
-                    className="text-sm"
-                  />
-                </div>
-              ))}
-            </div>
-
-            <p className="text-xs text-muted-foreground">
-              Click an option to mark it as correct
-            </p>
           </div>
         ))}
       </div>
@@ -306,6 +491,40 @@ export default function ManualQuizBuilder({
           Add Question
         </Button>
 
+        <Button
+          variant="outline"
+          onClick={() => setBankOpen(true)}
+          className="flex-1"
+        >
+          <Library className="mr-2 h-4 w-4" />
+          Add from bank
+        </Button>
+
+        <div className="flex flex-1 gap-2">
+          <Input
+            type="number"
+            min={1}
+            max={20}
+            value={moreCount}
+            onChange={(e) => setMoreCount(Number(e.target.value))}
+            className="w-16"
+            title="Questions to add"
+          />
+          <Button
+            variant="outline"
+            onClick={addMoreQuestions}
+            disabled={aiBusy !== null}
+            className="flex-1"
+          >
+            {aiBusy === "more" ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Sparkles className="mr-2 h-4 w-4" />
+            )}
+            Add with AI
+          </Button>
+        </div>
+
         <Button
           onClick={handleSave}
           disabled={saving}
@@ -315,6 +534,12 @@ export default function ManualQuizBuilder({
           {saving ? "Saving..." : isEditing ? "Update Quiz" : "Save Quiz"}
         </Button>
       </div>
+
+      <QuestionBankPicker
+        open={bankOpen}
+        onClose={() => setBankOpen(false)}
+        onInsert={insertQuestions}
+      />
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,98 @@
+import { Fragment, type ReactNode } from "react";
+
+/* ---------------- MINIMAL MARKDOWN ----------------
+   Enough for question explanations: paragraphs, bullet / numbered lists,
+   **bold**, *italic*, `code` and [links](https://…).
+   Builds React elements only — no raw HTML is ever injected. */
+
+const INLINE = /(\*\*[^*]+\*\*|\*[^*]+\*|`[^`]+`|\[[^\]]+\]\([^)\s]+\))/g;
+
+function renderInline(text: string): ReactNode[] {
+  return text.split(INLINE).map((part, i) => {
+    if (part.startsWith("**") && part.endsWith("**") && part.length > 4) {
+      return <strong key={i}>{part.slice(2, -2)}</strong>;
+    }
+
+    if (part.startsWith("*") && part.endsWith("*") && part.length > 2) {
+      return <em key={i}>{part.slice(1, -1)}</em>;
+    }
+
+    if (part.startsWith("`") && part.endsWith("`") && part.length > 2) {
+      return (
+        <code key={i} className="rounded bg-muted px-1 py-0.5 text-[0.85em]">
+          {part.slice(1, -1)}
+        </code>
+      );
+    }
+
+    const link = part.match(/^\[([^\]]+)\]\(([^)\s]+)\)$/);
+    if (link) {
+      // Only plain web links; anything else (javascript:, data:) stays text
+      return /^https?:\/\//i.test(link[2]) ? (
+        <a
+          key={i}
+          href={link[2]}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-primary underline underline-offset-2"
+        >
+          {link[1]}
+        </a>
+      ) : (
+        <Fragment key={i}>{link[1]}</Fragment>
+      );
+    }
+
+    return <Fragment key={i}>{part}</Fragment>;
+  });
+}
+
+// Keeps single newlines inside a paragraph as line breaks
+function renderLines(lines: string[]) {
+  return lines.map((line, i) => (
+    <Fragment key={i}>
+      {i > 0 && <br />}
+      {renderInline(line)}
+    </Fragment>
+  ));
+}
+
+export default function Markdown({
+  children,
+  className = "",
+}: {
+  children: string;
+  className?: string;
+}) {
+  const blocks = children.trim().split(/\n\s*\n/);
+
+  return (
+    <div className={`space-y-2 text-sm leading-relaxed ${className}`}>
+      {blocks.map((block, i) => {
+        const lines = block.split("\n");
+
+        if (lines.every((l) => /^\s*[-*]\s+/.test(l))) {
+          return (
+            <ul key={i} className="list-disc space-y-1 pl-5">
+              {lines.map((l, j) => (
+                <li key={j}>{renderInline(l.replace(/^\s*[-*]\s+/, ""))}</li>
+              ))}
+            </ul>
+          );
+        }
+
+        if (lines.every((l) => /^\s*\d+[.)]\s+/.test(l))) {
+          return (
+            <ol key={i} className="list-decimal space-y-1 pl-5">
+              {lines.map((l, j) => (
+                <li key={j}>{renderInline(l.replace(/^\s*\d+[.)]\s+/, ""))}</li>
+              ))}
+            </ol>
+          );
+        }
+
+        return <p key={i}>{renderLines(lines)}</p>;
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,290 @@
+import { useRef, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { BookOpen, FileText, Loader2, Upload, X } from "lucide-react";
+import ManualQuizBuilder from "./ManualQuizBuilder";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  DIFFICULTY_LEVELS,
+  GeneratedQuestion,
+  MAX_MATERIAL_CHARS,
+  QUESTION_FORMATS,
+  attachWarnings,
+  withCitation,
+} from "@/lib/quiz";
+
+/* ---------------- FROM MY MATERIAL ----------------
+   Pasted text, uploaded notes (.txt / .md) or a PDF's text layer.
+   Long material is split into parts on the server and the questions are
+   spread across them; each one cites the passage it came from. */
+
+export default function MaterialQuizBuilder() {
+  const [material, setMaterial] = useState("");
+  // PDFs are read on the server (text layer only, no OCR)
+  const [pdf, setPdf] = useState<{ name: string; data: string } | null>(null);
+  const [numQuestions, setNumQuestions] = useState(10);
+  const [questionType, setQuestionType] = useState("MCQ");
+  const [difficulty, setDifficulty] = useState("Medium");
+  const [generating, setGenerating] = useState(false);
+  const [generatedTitle, setGeneratedTitle] = useState("");
+  const [generatedQuestions, setGeneratedQuestions] =
+    useState<GeneratedQuestion[] | null>(null);
+
+  const fileRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const tooLong = !pdf && material.length > MAX_MATERIAL_CHARS;
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    if (file.type === "application/pdf" || /\.pdf$/i.test(file.name)) {
+      const reader = new FileReader();
+      const data = await new Promise<string>((resolve, reject) => {
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = reject;
+        reader.readAsDataURL(file);
+      });
+
+      setPdf({ name: file.name, data });
+      return;
+    }
+
+    setPdf(null);
+    setMaterial(await file.text());
+  };
+
+  const generate = async () => {
+    if (!pdf && !material.trim()) {
+      toast({ title: "Paste some material or upload a file", variant: "destructive" });
+      return;
+    }
+
+    setGenerating(true);
+    try {
+      const { data, error } = await supabase.functions.invoke("generate-quiz", {
+        body: {
+          mode: "material",
+          material: pdf ? undefined : material,
+          fileData: pdf?.data,
+          fileName: pdf?.name,
+          numQuestions,
+          questionType,
+          difficulty,
+        },
+      });
+
+      if (error) throw error;
+
+      if (data?.title && data?.questions) {
+        const { questions, general } = attachWarnings<GeneratedQuestion>(
+          data.questions.map(withCitation),
+          data.warnings
+        );
+        const flagged = questions.filter((q) => q.warnings.length).length;
+
+        setGeneratedTitle(data.title);
+        setGeneratedQuestions(questions);
+
+        toast({
+          title: flagged || general.length
+            ? "Quiz generated with warnings"
+            : "Quiz generated! Review and save below.",
+          description: [
+            ...general,
+            flagged ? `${flagged} highlighted question(s) need a look before saving.` : "",
+          ]
+            .filter(Boolean)
+            .join(" "),
+        });
+      } else {
+        throw new Error("Invalid response from AI");
+      }
+    } catch (err) {
+      toast({
+        title: "Error generating quiz",
+        description: err instanceof Error ? err.message : String(err),
+        variant: "destructive",
+      });
+    }
+    setGenerating(false);
+  };
+
+  if (generatedQuestions) {
+    return (
+      <ManualQuizBuilder
+        initialTitle={generatedTitle}
+        initialQuestions={generatedQuestions}
+      />
+    );
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto animate-fade-in">
+      <Card className="glass-card shadow-xl rounded-2xl">
+        <CardContent className="p-8 space-y-8">
+          {/* Header */}
+          <div className="text-center space-y-2">
+            <h2 className="font-display text-3xl font-bold">
+              Quiz From My Material
+            </h2>
+
+            <p className="text-muted-foreground text-sm">
+              Paste a chapter or upload your notes. Every question cites the
+              passage it was written from.
+            </p>
+          </div>
+
+          {/* Material */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="material" className="text-sm font-semibold ml-1">
+                Material
+              </Label>
+
+              <input
+                ref={fileRef}
+                type="file"
+                accept=".txt,.md,.pdf,text/plain,text/markdown,application/pdf"
+                className="hidden"
+                onChange={handleFile}
+              />
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                onClick={() => fileRef.current?.click()}
+                disabled={generating}
+              >
+                <Upload className="mr-1 h-3.5 w-3.5" />
+                Upload notes or PDF
+              </Button>
+            </div>
+
+            {pdf ? (
+              <div className="flex items-center justify-between rounded-xl border bg-muted/40 p-4">
+                <div className="flex items-center gap-3 min-w-0">
+                  <FileText className="h-5 w-5 shrink-0 text-primary" />
+                  <div className="min-w-0">
+                    <p className="truncate text-sm font-medium">{pdf.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      The PDF's text is used as-is. For scanned pages, use Document Import.
+                    </p>
+                  </div>
+                </div>
+
+                <Button size="icon" variant="ghost" onClick={() => setPdf(null)}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ) : (
+              <>
+                <Textarea
+                  id="material"
+                  value={material}
+                  onChange={(e) => setMaterial(e.target.value)}
+                  placeholder="Paste a chapter, article or lecture notes..."
+                  className="min-h-[240px] text-sm"
+                />
+                <p
+                  className={`text-xs ml-1 ${
+                    tooLong ? "text-destructive" : "text-muted-foreground"
+                  }`}
+                >
+                  {material.length.toLocaleString()} /{" "}
+                  {MAX_MATERIAL_CHARS.toLocaleString()} characters
+                </p>
+              </>
+            )}
+          </div>
+
+          {/* Questions Count */}
+          <div className="space-y-2">
+            <Label htmlFor="materialNumQ" className="text-sm font-semibold ml-1">
+              Number of Questions
+            </Label>
+
+            <Input
+              id="materialNumQ"
+              type="number"
+              min={1}
+              max={30}
+              value={numQuestions}
+              onChange={(e) => setNumQuestions(Number(e.target.value))}
+              className="h-11 text-sm"
+            />
+          </div>
+
+          {/* Question Type Selector */}
+          <div className="space-y-3">
+            <Label className="text-sm font-semibold ml-1">Question Format</Label>
+
+            <div className="grid grid-cols-3 gap-2">
+              {QUESTION_FORMATS.map((type) => (
+                <button
+                  key={type}
+                  type="button"
+                  onClick={() => setQuestionType(type)}
+                  className={`rounded-xl border px-3 py-2 text-sm font-medium transition-all ${
+                    questionType === type
+                      ? "bg-primary text-primary-foreground border-primary"
+                      : "bg-muted hover:bg-muted/70 text-muted-foreground"
+                  }`}
+                >
+                  {type}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Difficulty Selector */}
+          <div className="space-y-3">
+            <Label className="text-sm font-semibold ml-1">Difficulty Level</Label>
+
+            <div className="grid grid-cols-3 gap-2">
+              {DIFFICULTY_LEVELS.map((level) => (
+                <button
+                  key={level}
+                  type="button"
+                  onClick={() => setDifficulty(level)}
+                  className={`rounded-xl border px-3 py-2 text-sm font-medium transition-all ${
+                    difficulty === level
+                      ? "bg-primary text-primary-foreground border-primary"
+                      : "bg-muted hover:bg-muted/70 text-muted-foreground"
+                  }`}
+                >
+                  {level}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Generate Button */}
+          <Button
+            onClick={generate}
+            disabled={generating || tooLong}
+            className="w-full h-11 rounded-xl gradient-primary text-primary-foreground text-base font-semibold"
+          >
+            {generating ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Reading Material...
+              </>
+            ) : (
+              <>
+                <BookOpen className="mr-2 h-4 w-4" />
+                Generate From Material
+              </>
+            )}
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -6,12 +6,8 @@ import { FileText, Upload, Loader2, Plus, ArrowRight } from "lucide-react";
 import ManualQuizBuilder from "./ManualQuizBuilder";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-
-interface GeneratedQuestion {
-  question_text: string;
-  options: string[];
-  correct_option_index: number;
-}
+import { Switch } from "@/components/ui/switch";
+import { GeneratedQuestion, attachWarnings } from "@/lib/quiz";
 
 export default function OCRQuizBuilder() {
   const [processing, setProcessing] = useState(false);
@@ -23,6 +19,7 @@ export default function OCRQuizBuilder() {
 
   const [fileName, setFileName] = useState("");
   const [readyToEdit, setReadyToEdit] = useState(false);
+  const [rewriteEnabled, setRewriteEnabled] = useState(false);
 
   const fileRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
@@ -48,7 +45,7 @@ export default function OCRQuizBuilder() {
       });
 
       const { data, error } = await supabase.functions.invoke("generate-quiz", {
-        body: { mode: "ocr", fileData: base64, fileName: file.name },
+        body: { mode: "ocr", fileData: base64, fileName: file.name, rewriteEnabled },
       });
 
       if (error) throw error;
@@ -59,12 +56,24 @@ export default function OCRQuizBuilder() {
           setGeneratedTitle(data.title);
         }
 
+        const { questions, general } = attachWarnings<GeneratedQuestion>(
+          data.questions,
+          data.warnings
+        );
+        const flagged = questions.filter((q) => q.warnings.length).length;
+
         // Append new questions
-        setGeneratedQuestions((prev) => [...prev, ...data.questions]);
+        setGeneratedQuestions((prev) => [...prev, ...questions]);
 
         toast({
           title: "Questions added!",
-          description: `${data.questions.length} questions extracted from ${file.name}`,
+          description: [
+            `${questions.length} questions extracted from ${file.name}.`,
+            ...general,
+            flagged ? `${flagged} question(s) will be highlighted for review.` : "",
+          ]
+            .filter(Boolean)
+            .join(" "),
         });
       } else {
         throw new Error("Could not extract questions from document");
@@ -122,6 +131,24 @@ export default function OCRQuizBuilder() {
           onChange={handleFile}
         />
 
+        {/* Rewrite Toggle */}
+        <div className="flex items-center justify-between rounded-xl border p-4 bg-muted/40">
+          <div className="space-y-1">
+            <p className="text-sm font-semibold">
+              Plagiarism-Safe Rewrite
+            </p>
+            <p className="text-xs text-muted-foreground">
+              Rephrases extracted questions so they can't be searched up. Answers stay the same.
+            </p>
+          </div>
+
+          <Switch
+            checked={rewriteEnabled}
+            onCheckedChange={setRewriteEnabled}
+            disabled={processing}
+          />
+        </div>
+
         {/* Upload Dropzone */}
         <button
           onClick={() => fileRef.current?.click()}
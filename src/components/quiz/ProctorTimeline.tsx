@@ -0,0 +1,105 @@
+import {
+  Clipboard,
+  Eye,
+  EyeOff,
+  Maximize,
+  MousePointerClick,
+  TerminalSquare,
+  AppWindow,
+} from "lucide-react";
+import {
+  PROCTOR_EVENT_LABELS,
+  ProctorEvent,
+  ProctorEventType,
+  isSuspiciousEvent,
+} from "@/lib/proctoring";
+
+const ICONS: Record<ProctorEventType, typeof Eye> = {
+  tab_hidden: EyeOff,
+  tab_visible: Eye,
+  window_blur: AppWindow,
+  fullscreen_exit: Maximize,
+  copy_blocked: Clipboard,
+  paste_blocked: Clipboard,
+  right_click: MousePointerClick,
+  devtools_suspected: TerminalSquare,
+};
+
+const formatOffset = (ms: number) => {
+  const total = Math.max(Math.round(ms / 1000), 0);
+  return `+${Math.floor(total / 60)}:${(total % 60).toString().padStart(2, "0")}`;
+};
+
+/* ---------------- PROCTORING TIMELINE ----------------
+   Events in order, offset from the start of the attempt. Time away from
+   the tab is shown next to the return event. */
+
+export default function ProctorTimeline({
+  events,
+  startedAt,
+  dropped = 0,
+}: {
+  events: ProctorEvent[];
+  startedAt: number;
+  // Older events of over-represented types the server did not keep
+  dropped?: number;
+}) {
+  if (events.length === 0) {
+    return (
+      <p className="text-xs text-muted-foreground">
+        No proctoring events were recorded for this attempt.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {dropped > 0 && (
+        <p className="text-xs font-medium text-red-600">
+          {dropped} older event{dropped === 1 ? " was" : "s were"} not kept: one kind
+          of event was logged too many times.
+        </p>
+      )}
+      <ol className="relative space-y-3 border-l pl-5">
+        {events.map((e, i) => {
+          const Icon = ICONS[e.type];
+          const at = new Date(e.at).getTime();
+
+          // Pair "returned" with the latest "left" before it
+          const left =
+            e.type === "tab_visible"
+              ? events
+                  .slice(0, i)
+                  .reverse()
+                  .find((prev) => prev.type === "tab_hidden")
+              : undefined;
+
+          return (
+            <li key={i} className="relative text-sm">
+              <span
+                className={`absolute -left-[1.95rem] flex h-5 w-5 items-center justify-center rounded-full border bg-background ${
+                  isSuspiciousEvent(e.type) ? "text-red-600" : "text-muted-foreground"
+                }`}
+              >
+                <Icon className="h-3 w-3" />
+              </span>
+
+              <span className="font-mono text-xs text-muted-foreground">
+                {formatOffset(at - startedAt)}
+              </span>{" "}
+              <span className={isSuspiciousEvent(e.type) ? "font-medium" : ""}>
+                {PROCTOR_EVENT_LABELS[e.type]}
+              </span>
+              {left && (
+                <span className="text-xs text-muted-foreground">
+                  {" "}
+                  (away {Math.round((at - new Date(left.at).getTime()) / 1000)}s)
+                </span>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
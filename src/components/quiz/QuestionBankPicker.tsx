@@ -0,0 +1,195 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { Check, Copy, Link2, X } from "lucide-react";
+import BankFilterBar from "@/components/quiz/BankFilterBar";
+import {
+  BankFilter,
+  BankQuestion,
+  QuestionDraft,
+  bankTags,
+  filterBank,
+  normalizeQuestion,
+} from "@/lib/quiz";
+
+export interface PickedQuestion extends QuestionDraft {
+  bank_question_id?: string | null;
+}
+
+/* ---------------- ADD FROM BANK ----------------
+   Copies are independent; linked questions follow later bank edits. */
+
+export default function QuestionBankPicker({
+  open,
+  onClose,
+  onInsert,
+}: {
+  open: boolean;
+  onClose: () => void;
+  onInsert: (questions: PickedQuestion[]) => void;
+}) {
+  const { toast } = useToast();
+  const [bank, setBank] = useState<BankQuestion[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [filter, setFilter] = useState<BankFilter>({
+    search: "",
+    tags: [],
+    difficulty: null,
+  });
+
+  useEffect(() => {
+    if (!open) return;
+
+    const load = async () => {
+      setLoading(true);
+      setSelected([]);
+
+      const { data, error } = await supabase
+        .from("question_bank")
+        .select("*")
+        .order("updated_at", { ascending: false });
+
+      if (error) {
+        toast({
+          title: "Could not load question bank",
+          description: error.message,
+          variant: "destructive",
+        });
+      }
+
+      setBank((data as BankQuestion[]) || []);
+      setLoading(false);
+    };
+
+    load();
+  }, [open, toast]);
+
+  if (!open) return null;
+
+  const visible = filterBank(bank, filter);
+
+  const toggle = (id: string) =>
+    setSelected((prev) =>
+      prev.includes(id) ? prev.filter((s) => s !== id) : [...prev, id]
+    );
+
+  const insert = (asLink: boolean) => {
+    // Keep bank order rather than click order
+    const picked = bank
+      .filter((q) => selected.includes(q.id))
+      .map(({ id, tags: _tags, difficulty: _difficulty, updated_at: _updated, ...q }) => ({
+        ...normalizeQuestion(q),
+        bank_question_id: asLink ? id : null,
+      }));
+
+    onInsert(picked);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <div className="w-full max-w-2xl rounded-2xl bg-card shadow-2xl overflow-hidden animate-scale-in">
+        {/* HEADER */}
+        <div className="flex items-center justify-between px-6 py-4 border-b">
+          <div>
+            <h2 className="font-display text-xl font-bold">Add from bank</h2>
+            <p className="text-sm text-muted-foreground">
+              Insert copies, or links that stay in sync with the bank
+            </p>
+          </div>
+
+          <Button size="icon" variant="ghost" onClick={onClose}>
+            <X className="h-5 w-5" />
+          </Button>
+        </div>
+
+        {/* BODY */}
+        <div className="px-6 py-5 space-y-4 max-h-[65vh] overflow-y-auto">
+          <BankFilterBar
+            filter={filter}
+            onChange={setFilter}
+            tags={bankTags(bank)}
+          />
+
+          {loading ? (
+            <div className="flex justify-center py-10">
+              <div className="h-6 w-6 animate-spin rounded-full border-4 border-primary border-t-transparent" />
+            </div>
+          ) : visible.length === 0 ? (
+            <p className="py-10 text-center text-sm text-muted-foreground">
+              {bank.length === 0
+                ? "Your question bank is empty."
+                : "No questions match these filters."}
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {visible.map((q) => {
+                const isSelected = selected.includes(q.id);
+
+                return (
+                  <button
+                    key={q.id}
+                    type="button"
+                    onClick={() => toggle(q.id)}
+                    className={`flex w-full items-start gap-3 rounded-lg border px-4 py-3 text-left transition-all ${
+                      isSelected
+                        ? "border-primary bg-primary/5 ring-1 ring-primary"
+                        : "border-border hover:border-primary/30"
+                    }`}
+                  >
+                    <span
+                      className={`mt-0.5 flex h-5 w-5 shrink-0 items-center justify-center rounded-md border ${
+                        isSelected
+                          ? "bg-primary border-primary text-primary-foreground"
+                          : "border-muted-foreground/40"
+                      }`}
+                    >
+                      {isSelected && <Check className="h-3.5 w-3.5" />}
+                    </span>
+
+                    <div className="min-w-0 space-y-1">
+                      <p className="text-sm font-medium leading-relaxed line-clamp-2">
+                        {q.question_text}
+                      </p>
+                      <div className="flex flex-wrap gap-1.5 text-xs text-muted-foreground">
+                        {q.difficulty && (
+                          <span className="capitalize">{q.difficulty}</span>
+                        )}
+                        {q.tags.map((tag) => (
+                          <span key={tag}>#{tag}</span>
+                        ))}
+                      </div>
+                    </div>
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        {/* FOOTER */}
+        <div className="flex flex-col sm:flex-row gap-3 px-6 py-4 border-t bg-muted/30">
+          <Button
+            variant="outline"
+            className="flex-1"
+            disabled={!selected.length}
+            onClick={() => insert(false)}
+          >
+            <Copy className="mr-2 h-4 w-4" />
+            Insert {selected.length || ""} as copy
+          </Button>
+          <Button
+            className="flex-1 gradient-primary text-primary-foreground"
+            disabled={!selected.length}
+            onClick={() => insert(true)}
+          >
+            <Link2 className="mr-2 h-4 w-4" />
+            Insert {selected.length || ""} as link
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
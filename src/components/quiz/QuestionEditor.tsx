@@ -0,0 +1,435 @@
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Plus, X, ChevronUp, ChevronDown } from "lucide-react";
+import AutoExpandInput from "@/components/quiz/AutoExpandInput";
+import {
+  QuestionDraft,
+  QuestionType,
+  TRUE_FALSE_OPTIONS,
+  MIN_OPTIONS,
+  MAX_OPTIONS,
+  hasOptions,
+  optionLabel,
+} from "@/lib/quiz";
+
+const QUESTION_TYPES: { id: QuestionType; label: string }[] = [
+  { id: "single", label: "Single answer" },
+  { id: "multiple", label: "Select all that apply" },
+  { id: "true_false", label: "True / False" },
+  { id: "numeric", label: "Numeric" },
+  { id: "short_text", label: "Short text" },
+];
+
+/* ---------------- OPTION EDITS ---------------- */
+
+const updateOption = <T extends QuestionDraft>(q: T, oIndex: number, value: string): T => ({
+  ...q,
+  options: q.options.map((o, j) => (j === oIndex ? value : o)),
+});
+
+const addOption = <T extends QuestionDraft>(q: T): T =>
+  q.options.length < MAX_OPTIONS ? { ...q, options: [...q.options, ""] } : q;
+
+// Removing shifts later options up, so the answer key shifts with them
+const removeOption = <T extends QuestionDraft>(q: T, oIndex: number): T => {
+  if (q.options.length <= MIN_OPTIONS) return q;
+
+  const shift = (c: number) => (c > oIndex ? c - 1 : c);
+
+  return {
+    ...q,
+    options: q.options.filter((_, j) => j !== oIndex),
+    correct_option_index:
+      q.correct_option_index === oIndex ? 0 : shift(q.correct_option_index),
+    correct_option_indices: (q.correct_option_indices || [])
+      .filter((c) => c !== oIndex)
+      .map(shift),
+  };
+};
+
+// Swap with the neighbour above/below, keeping the answer key attached
+const moveOption = <T extends QuestionDraft>(q: T, oIndex: number, direction: -1 | 1): T => {
+  const target = oIndex + direction;
+  if (target < 0 || target >= q.options.length) return q;
+
+  const swap = (c: number) =>
+    c === oIndex ? target : c === target ? oIndex : c;
+
+  const options = [...q.options];
+  [options[oIndex], options[target]] = [options[target], options[oIndex]];
+
+  return {
+    ...q,
+    options,
+    correct_option_index: swap(q.correct_option_index),
+    correct_option_indices: (q.correct_option_indices || [])
+      .map(swap)
+      .sort((a, b) => a - b),
+  };
+};
+
+const setCorrectOption = <T extends QuestionDraft>(q: T, oIndex: number): T => {
+  // Multiple-select: clicking toggles the option in the answer set
+  if (q.question_type === "multiple") {
+    const current = q.correct_option_indices || [];
+    const next = current.includes(oIndex)
+      ? current.filter((c) => c !== oIndex)
+      : [...current, oIndex].sort((a, b) => a - b);
+
+    return { ...q, correct_option_indices: next };
+  }
+
+  return { ...q, correct_option_index: oIndex };
+};
+
+const setQuestionType = <T extends QuestionDraft>(q: T, type: QuestionType): T => {
+  if (q.question_type === type) return q;
+
+  const next: T = { ...q, question_type: type };
+
+  // True/False has fixed options; leaving it restores blank choices
+  if (type === "true_false") {
+    next.options = [...TRUE_FALSE_OPTIONS];
+    next.correct_option_index = 0;
+  } else if (q.question_type === "true_false" && hasOptions(type)) {
+    next.options = ["", "", "", ""];
+    next.correct_option_index = 0;
+  }
+
+  // Carry the current answer across so switching is not destructive
+  if (type === "multiple" && q.question_type === "single") {
+    next.correct_option_indices = [q.correct_option_index];
+  } else if (type === "single" && q.question_type === "multiple") {
+    next.correct_option_index = q.correct_option_indices?.[0] ?? 0;
+  }
+
+  return next;
+};
+
+const isCorrect = (q: QuestionDraft, oIndex: number) =>
+  q.question_type === "multiple"
+    ? (q.correct_option_indices || []).includes(oIndex)
+    : q.correct_option_index === oIndex;
+
+function formatAssertionReason(text: string) {
+  if (!text.includes("Assertion:") || !text.includes("Reason:")) {
+    return text; // Normal MCQ — leave untouched
+  }
+
+  return text.replace(
+    /\s*Reason:\s*/i,
+    "\nReason: "
+  );
+}
+
+/* ---------------- QUESTION EDITOR ----------------
+   Text, type, answer key and explanation for one question.
+   Used by the quiz builder and the question bank. */
+
+export default function QuestionEditor<T extends QuestionDraft>({
+  question: q,
+  onChange,
+}: {
+  question: T;
+  onChange: (next: T) => void;
+}) {
+  const patch = (p: Partial<QuestionDraft>) => onChange({ ...q, ...p });
+
+  return (
+    <>
+      <div className="rounded-lg border bg-card px-4 py-3 focus-within:ring-2 focus-within:ring-primary/40 transition">
+        <AutoExpandInput
+          value={formatAssertionReason(q.question_text)}
+          onChange={(e) => patch({ question_text: e.target.value })}
+          placeholder="Enter your question..."
+          className="text-base"
+        />
+      </div>
+
+      {/* Question type */}
+      <div className="flex flex-wrap gap-2">
+        {QUESTION_TYPES.map((type) => (
+          <button
+            key={type.id}
+            type="button"
+            onClick={() => onChange(setQuestionType(q, type.id))}
+            className={`rounded-lg border px-3 py-1 text-xs font-medium transition-all ${
+              q.question_type === type.id
+                ? "bg-primary text-primary-foreground border-primary"
+                : "bg-muted hover:bg-muted/70 text-muted-foreground"
+            }`}
+          >
+            {type.label}
+          </button>
+        ))}
+      </div>
+
+      {hasOptions(q.question_type) && (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {q.options.map((opt, oIndex) => (
+              <div
+                key={oIndex}
+                onClick={() => onChange(setCorrectOption(q, oIndex))}
+                className={`flex items-start gap-3 rounded-lg border px-4 py-3 cursor-pointer transition-all ${
+                  isCorrect(q, oIndex)
+                    ? "border-accent bg-accent/10 ring-1 ring-accent"
+                    : "border-border hover:border-primary/30"
+                }`}
+              >
+                <span
+                  className={`flex h-7 w-7 shrink-0 items-center justify-center text-xs font-bold ${
+                    q.question_type === "multiple" ? "rounded-md" : "rounded-full"
+                  } ${
+                    isCorrect(q, oIndex)
+                      ? "bg-accent text-accent-foreground"
+                      : "bg-muted text-muted-foreground"
+                  }`}
+                >
+                  {optionLabel(oIndex)}
+                </span>
+
+                {q.question_type === "true_false" ? (
+                  <span className="text-sm leading-relaxed">{opt}</span>
+                ) : (
+                  <>
+                    <AutoExpandInput
+                      value={opt}
+                      onChange={(e) =>
+                        onChange(updateOption(q, oIndex, e.target.value))
+                      }
+                      onClick={(e) => e.stopPropagation()}
+                      placeholder={`Option ${optionLabel(oIndex)}`}
+                      className="text-sm"
+                    />
+
+                    {/* Reorder / remove */}
+                    <div
+                      className="flex shrink-0 items-center"
+                      onClick={(e) => e.stopPropagation()}
+                    >
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6"
+                        disabled={oIndex === 0}
+                        onClick={() => onChange(moveOption(q, oIndex, -1))}
+                      >
+                        <ChevronUp className="h-3.5 w-3.5" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6"
+                        disabled={oIndex === q.options.length - 1}
+                        onClick={() => onChange(moveOption(q, oIndex, 1))}
+                      >
+                        <ChevronDown className="h-3.5 w-3.5" />
+                      </Button>
+                      {q.options.length > MIN_OPTIONS && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6 text-destructive"
+                          onClick={() => onChange(removeOption(q, oIndex))}
+                        >
+                          <X className="h-3.5 w-3.5" />
+                        </Button>
+                      )}
+                    </div>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <p className="text-xs text-muted-foreground">
+              {q.question_type === "multiple"
+                ? "Click options to mark every correct answer"
+                : "Click an option to mark it as correct"}
+            </p>
+
+            {q.question_type !== "true_false" &&
+              q.options.length < MAX_OPTIONS && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onChange(addOption(q))}
+                >
+                  <Plus className="mr-1 h-3.5 w-3.5" />
+                  Add option
+                </Button>
+              )}
+          </div>
+        </>
+      )}
+
+      {/* Numeric answer + tolerance */}
+      {q.question_type === "numeric" && (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">
+              Correct answer
+            </Label>
+            <Input
+              type="number"
+              step="any"
+              value={q.numeric_answer ?? ""}
+              onChange={(e) =>
+                patch({
+                  numeric_answer:
+                    e.target.value === "" ? null : Number(e.target.value),
+                })
+              }
+              placeholder="e.g. 9.81"
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">
+              Tolerance (±)
+            </Label>
+            <Input
+              type="number"
+              min={0}
+              step="any"
+              value={q.numeric_tolerance ?? 0}
+              onChange={(e) =>
+                patch({
+                  numeric_tolerance: Math.max(Number(e.target.value), 0),
+                })
+              }
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">
+              Tolerance type
+            </Label>
+            <div className="grid grid-cols-2 gap-2">
+              {(
+                [
+                  { id: "absolute", label: "Value" },
+                  { id: "percent", label: "%" },
+                ] as const
+              ).map((t) => (
+                <button
+                  key={t.id}
+                  type="button"
+                  onClick={() => patch({ numeric_tolerance_type: t.id })}
+                  className={`h-10 rounded-md border text-xs font-medium transition-all ${
+                    q.numeric_tolerance_type === t.id
+                      ? "bg-primary text-primary-foreground border-primary"
+                      : "bg-muted hover:bg-muted/70 text-muted-foreground"
+                  }`}
+                >
+                  {t.label}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Short text: accepted answers + matching */}
+      {q.question_type === "short_text" && (
+        <div className="space-y-3">
+          <Label className="text-xs text-muted-foreground">
+            Accepted answers
+          </Label>
+
+          {(q.accepted_answers || []).map((answer, aIndex) => (
+            <div key={aIndex} className="flex items-center gap-2">
+              <Input
+                value={answer}
+                onChange={(e) =>
+                  patch({
+                    accepted_answers: (q.accepted_answers || []).map((a, j) =>
+                      j === aIndex ? e.target.value : a
+                    ),
+                  })
+                }
+                placeholder={
+                  q.text_match_mode === "regex"
+                    ? "Pattern, e.g. photo ?synthesis"
+                    : "Accepted answer"
+                }
+              />
+
+              {(q.accepted_answers || []).length > 1 && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 shrink-0 text-destructive"
+                  onClick={() =>
+                    patch({
+                      accepted_answers: (q.accepted_answers || []).filter(
+                        (_, j) => j !== aIndex
+                      ),
+                    })
+                  }
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() =>
+                patch({ accepted_answers: [...(q.accepted_answers || []), ""] })
+              }
+            >
+              <Plus className="mr-1 h-3.5 w-3.5" />
+              Add accepted answer
+            </Button>
+
+            <div className="flex gap-2">
+              {(
+                [
+                  { id: "normalized", label: "Ignore case & spaces" },
+                  { id: "exact", label: "Exact" },
+                  { id: "regex", label: "Regex" },
+                ] as const
+              ).map((m) => (
+                <button
+                  key={m.id}
+                  type="button"
+                  onClick={() => patch({ text_match_mode: m.id })}
+                  className={`rounded-lg border px-3 py-1 text-xs font-medium transition-all ${
+                    q.text_match_mode === m.id
+                      ? "bg-primary text-primary-foreground border-primary"
+                      : "bg-muted hover:bg-muted/70 text-muted-foreground"
+                  }`}
+                >
+                  {m.label}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Explanation (markdown, shown in review once answers are revealed) */}
+      <div className="space-y-2">
+        <Label className="text-xs text-muted-foreground">
+          Explanation (optional, supports **bold**, *italic*, `code`, lists and
+          links)
+        </Label>
+        <div className="rounded-lg border border-input bg-background px-3 py-2">
+          <AutoExpandInput
+            value={q.explanation ?? ""}
+            onChange={(e) => patch({ explanation: e.target.value })}
+            placeholder="Why is this the right answer?"
+            className="text-sm"
+          />
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,213 @@
+import { useMemo, useState } from "react";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  Line,
+  LineChart,
+  ReferenceLine,
+  Scatter,
+  ScatterChart,
+  XAxis,
+  YAxis,
+  ZAxis,
+} from "recharts";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { Input } from "@/components/ui/input";
+import {
+  ScoredAttempt,
+  histogram,
+  retryTrend,
+  scorePercent,
+  summarise,
+} from "@/lib/scoreAnalytics";
+
+const chartConfig = {
+  count: { label: "Attempts", color: "hsl(var(--primary))" },
+  mean: { label: "Mean score %", color: "hsl(var(--primary))" },
+  score: { label: "Score %", color: "hsl(var(--primary))" },
+  minutes: { label: "Minutes" },
+} satisfies ChartConfig;
+
+/* ---------------- SCORE ANALYTICS TAB ---------------- */
+
+export default function ScoreAnalytics({
+  attempts,
+}: {
+  attempts: ScoredAttempt[];
+}) {
+  const [passMark, setPassMark] = useState(50);
+
+  const percents = useMemo(() => attempts.map(scorePercent), [attempts]);
+  const summary = summarise(percents);
+  const bins = histogram(percents);
+  const trend = retryTrend(attempts);
+
+  const timed = attempts
+    .filter((a) => a.time_taken_seconds)
+    .map((a) => ({
+      minutes: Number(((a.time_taken_seconds ?? 0) / 60).toFixed(1)),
+      score: Math.round(scorePercent(a)),
+      switched: (a.tab_switch_count ?? 0) > 0,
+    }));
+
+  const passed = percents.filter((p) => p >= passMark).length;
+  const switched = attempts.filter((a) => (a.tab_switch_count ?? 0) > 0).length;
+
+  if (!summary) {
+    return (
+      <p className="py-16 text-center text-muted-foreground">
+        Analytics appear once participants have submitted attempts.
+      </p>
+    );
+  }
+
+  const stats = [
+    { label: "Attempts", value: summary.count },
+    { label: "Mean", value: `${summary.mean.toFixed(1)}%` },
+    { label: "Median", value: `${summary.median.toFixed(1)}%` },
+    { label: "Std. deviation", value: summary.sd.toFixed(1) },
+    {
+      label: `Pass rate (≥ ${passMark}%)`,
+      value: `${Math.round((passed / summary.count) * 100)}%`,
+    },
+    { label: "With tab switches", value: switched },
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* SUMMARY */}
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-3">
+        {stats.map((s) => (
+          <div key={s.label} className="rounded-xl border bg-card p-4 text-center">
+            <p className="text-xl font-bold">{s.value}</p>
+            <p className="text-xs text-muted-foreground">{s.label}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-3 text-sm">
+        <label className="font-medium">Pass mark (%)</label>
+        <Input
+          type="number"
+          min={0}
+          max={100}
+          value={passMark}
+          className="w-24"
+          onChange={(e) =>
+            setPassMark(Math.min(Math.max(Number(e.target.value), 0), 100))
+          }
+        />
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        {/* HISTOGRAM */}
+        <div className="rounded-2xl border bg-card p-5 space-y-2">
+          <p className="font-semibold">Score distribution</p>
+          <ChartContainer config={chartConfig} className="h-56 w-full">
+            <BarChart data={bins}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="range" tickLine={false} axisLine={false} />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Bar dataKey="count" radius={4}>
+                {bins.map((b, i) => (
+                  <Cell
+                    key={b.range}
+                    fill={
+                      (i + 1) * 10 <= passMark
+                        ? "hsl(var(--muted-foreground))"
+                        : "var(--color-count)"
+                    }
+                  />
+                ))}
+              </Bar>
+            </BarChart>
+          </ChartContainer>
+        </div>
+
+        {/* TIME VS SCORE */}
+        <div className="rounded-2xl border bg-card p-5 space-y-2">
+          <p className="font-semibold">Time taken vs. score</p>
+          <p className="text-xs text-muted-foreground">
+            Red points switched tabs during the attempt.
+          </p>
+          <ChartContainer config={chartConfig} className="h-56 w-full">
+            <ScatterChart>
+              <CartesianGrid />
+              <XAxis
+                type="number"
+                dataKey="minutes"
+                name="Minutes"
+                unit="m"
+                tickLine={false}
+                axisLine={false}
+              />
+              <YAxis
+                type="number"
+                dataKey="score"
+                name="Score"
+                unit="%"
+                domain={[0, 100]}
+                tickLine={false}
+                axisLine={false}
+                width={40}
+              />
+              <ZAxis range={[40, 40]} />
+              <ReferenceLine y={passMark} strokeDasharray="4 4" />
+              <ChartTooltip content={<ChartTooltipContent hideLabel />} />
+              <Scatter data={timed}>
+                {timed.map((t, i) => (
+                  <Cell
+                    key={i}
+                    fill={
+                      t.switched
+                        ? "hsl(var(--destructive))"
+                        : "var(--color-score)"
+                    }
+                  />
+                ))}
+              </Scatter>
+            </ScatterChart>
+          </ChartContainer>
+        </div>
+      </div>
+
+      {/* RETRY TREND */}
+      <div className="rounded-2xl border bg-card p-5 space-y-2">
+        <p className="font-semibold">Retry trend</p>
+        <p className="text-xs text-muted-foreground">
+          Mean score by attempt number, for participants who attempted more
+          than once.
+        </p>
+
+        {trend.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            No participant has retried this quiz yet.
+          </p>
+        ) : (
+          <ChartContainer config={chartConfig} className="h-56 w-full">
+            <LineChart data={trend}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="attempt" tickLine={false} axisLine={false} />
+              <YAxis domain={[0, 100]} tickLine={false} axisLine={false} width={32} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Line
+                dataKey="mean"
+                stroke="var(--color-mean)"
+                strokeWidth={2}
+                dot
+              />
+            </LineChart>
+          </ChartContainer>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,382 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Check, Copy, KeyRound, Pencil, Plus, Save, Trash2, X } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import {
+  QuizStatus,
+  ShareLink,
+  ShareLinkState,
+  fromLocalInput,
+  shareLinkState,
+  shareUrl,
+  toLocalInput,
+} from "@/lib/quiz";
+
+const LINK_BADGES: Record<ShareLinkState, { label: string; className: string }> = {
+  active: { label: "Active", className: "bg-green-500/10 text-green-600" },
+  disabled: { label: "Disabled", className: "bg-muted text-muted-foreground" },
+  expired: { label: "Expired", className: "bg-red-500/10 text-red-600" },
+  used_up: { label: "Used up", className: "bg-yellow-500/10 text-yellow-700" },
+};
+
+// "main" edits the quiz's own link (access code only)
+interface LinkDraft {
+  id: string | "main" | null;
+  label: string;
+  accessCode: string;
+  expiresAt: string;
+  maxUses: string;
+}
+
+const blankDraft = (): LinkDraft => ({
+  id: null,
+  label: "",
+  accessCode: "",
+  expiresAt: "",
+  maxUses: "",
+});
+
+/* ---------------- SHARE LINKS MODAL ----------------
+   The quiz's original link plus any extra links, each of which can be
+   revoked on its own. */
+
+export default function ShareLinks({
+  quiz,
+  onClose,
+  onChanged,
+}: {
+  quiz: {
+    id: string;
+    title: string;
+    share_token: string | null;
+    status?: QuizStatus;
+    sharing_enabled?: boolean;
+    access_code?: string | null;
+  };
+  onClose: () => void;
+  onChanged: () => void;
+}) {
+  const { toast } = useToast();
+
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [mainCode, setMainCode] = useState(quiz.access_code ?? null);
+  const [draft, setDraft] = useState<LinkDraft | null>(null);
+  const [copied, setCopied] = useState<string | null>(null);
+
+  const loadLinks = async () => {
+    const { data } = await supabase
+      .from("quiz_share_links")
+      .select("*")
+      .eq("quiz_id", quiz.id)
+      .order("created_at");
+
+    setLinks(data || []);
+  };
+
+  useEffect(() => {
+    loadLinks();
+  }, [quiz.id]);
+
+  const copy = (key: string, token: string) => {
+    navigator.clipboard.writeText(shareUrl(token));
+    setCopied(key);
+
+    if (quiz.status === "draft") {
+      toast({
+        title: "Link copied, but this quiz is a draft",
+        description: "Participants cannot open it until you publish it in settings.",
+        variant: "destructive",
+      });
+    } else {
+      toast({ title: "Link copied!" });
+    }
+
+    setTimeout(() => setCopied(null), 2000);
+  };
+
+  const fail = (message: string) =>
+    toast({ title: "Error", description: message, variant: "destructive" });
+
+  const saveDraft = async () => {
+    if (!draft) return;
+
+    if (draft.id === "main") {
+      const code = draft.accessCode.trim() || null;
+      const { error } = await supabase
+        .from("quizzes")
+        .update({ access_code: code })
+        .eq("id", quiz.id);
+
+      if (error) return fail(error.message);
+
+      setMainCode(code);
+      setDraft(null);
+      onChanged();
+      return;
+    }
+
+    if (!draft.label.trim()) {
+      toast({ title: "Give the link a label", variant: "destructive" });
+      return;
+    }
+
+    const row = {
+      label: draft.label.trim(),
+      access_code: draft.accessCode.trim() || null,
+      expires_at: fromLocalInput(draft.expiresAt),
+      max_uses: draft.maxUses ? Math.max(Number(draft.maxUses), 1) : null,
+    };
+
+    const { error } = draft.id
+      ? await supabase.from("quiz_share_links").update(row).eq("id", draft.id)
+      : await supabase.from("quiz_share_links").insert({ ...row, quiz_id: quiz.id });
+
+    if (error) return fail(error.message);
+
+    toast({ title: draft.id ? "Link updated" : "Link created" });
+    setDraft(null);
+    loadLinks();
+  };
+
+  const setEnabled = async (link: ShareLink, enabled: boolean) => {
+    const { error } = await supabase
+      .from("quiz_share_links")
+      .update({ enabled })
+      .eq("id", link.id);
+
+    if (error) return fail(error.message);
+    setLinks((prev) => prev.map((l) => (l.id === link.id ? { ...l, enabled } : l)));
+  };
+
+  const deleteLink = async (id: string) => {
+    // Attempts keep their results; they just lose the link label
+    const { error } = await supabase.from("quiz_share_links").delete().eq("id", id);
+
+    if (error) return fail(error.message);
+    setLinks((prev) => prev.filter((l) => l.id !== id));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <div className="w-full max-w-2xl rounded-2xl bg-card shadow-2xl overflow-hidden animate-scale-in">
+        {/* HEADER */}
+        <div className="flex items-center justify-between px-6 py-4 border-b">
+          <div>
+            <h2 className="font-display text-xl font-bold">Share Links</h2>
+            <p className="text-sm text-muted-foreground">{quiz.title}</p>
+          </div>
+
+          <Button size="icon" variant="ghost" onClick={onClose}>
+            <X className="h-5 w-5" />
+          </Button>
+        </div>
+
+        {/* BODY */}
+        <div className="px-6 py-5 space-y-4 max-h-[70vh] overflow-y-auto">
+          {quiz.sharing_enabled === false && (
+            <p className="rounded-lg border border-yellow-500/40 bg-yellow-500/5 p-3 text-xs text-yellow-700">
+              The access link is switched off in settings, so none of these
+              links work right now.
+            </p>
+          )}
+
+          {/* MAIN LINK */}
+          {quiz.share_token && (
+            <LinkRow
+              label="Main link"
+              token={quiz.share_token}
+              accessCode={mainCode}
+              copied={copied === "main"}
+              onCopy={() => copy("main", quiz.share_token!)}
+              onEdit={() =>
+                setDraft({ ...blankDraft(), id: "main", accessCode: mainCode ?? "" })
+              }
+            />
+          )}
+
+          {/* EXTRA LINKS */}
+          {links.map((link) => {
+            const state = shareLinkState(link);
+
+            return (
+              <LinkRow
+                key={link.id}
+                label={link.label}
+                token={link.token}
+                accessCode={link.access_code}
+                copied={copied === link.id}
+                onCopy={() => copy(link.id, link.token)}
+                onEdit={() =>
+                  setDraft({
+                    id: link.id,
+                    label: link.label,
+                    accessCode: link.access_code ?? "",
+                    expiresAt: toLocalInput(link.expires_at),
+                    maxUses: link.max_uses === null ? "" : String(link.max_uses),
+                  })
+                }
+                onDelete={() => deleteLink(link.id)}
+              >
+                <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                  <span
+                    className={`rounded-full px-2 py-0.5 font-medium ${LINK_BADGES[state].className}`}
+                  >
+                    {LINK_BADGES[state].label}
+                  </span>
+                  <span>
+                    {link.use_count}
+                    {link.max_uses !== null && ` / ${link.max_uses}`} uses
+                  </span>
+                  {link.expires_at && (
+                    <span>
+                      · expires {format(new Date(link.expires_at), "MMM d, HH:mm")}
+                    </span>
+                  )}
+                  <span className="ml-auto flex items-center gap-2">
+                    Enabled
+                    <Switch
+                      checked={link.enabled}
+                      onCheckedChange={(on) => setEnabled(link, on)}
+                    />
+                  </span>
+                </div>
+              </LinkRow>
+            );
+          })}
+
+          {/* EDITOR */}
+          {draft ? (
+            <div className="rounded-xl border p-4 space-y-3">
+              <p className="text-sm font-medium">
+                {draft.id === "main"
+                  ? "Main link"
+                  : draft.id
+                    ? "Edit link"
+                    : "New link"}
+              </p>
+
+              {draft.id !== "main" && (
+                <Input
+                  value={draft.label}
+                  onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+                  placeholder="Label, e.g. Period 3"
+                />
+              )}
+
+              <Input
+                value={draft.accessCode}
+                onChange={(e) => setDraft({ ...draft, accessCode: e.target.value })}
+                placeholder="Access code (optional)"
+              />
+
+              {draft.id !== "main" && (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  <div className="space-y-1">
+                    <label className="text-xs text-muted-foreground ml-1">Expires at</label>
+                    <Input
+                      type="datetime-local"
+                      value={draft.expiresAt}
+                      onChange={(e) => setDraft({ ...draft, expiresAt: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <label className="text-xs text-muted-foreground ml-1">Max uses</label>
+                    <Input
+                      type="number"
+                      min={1}
+                      value={draft.maxUses}
+                      onChange={(e) => setDraft({ ...draft, maxUses: e.target.value })}
+                      placeholder="Unlimited"
+                    />
+                  </div>
+                </div>
+              )}
+
+              <div className="flex gap-2">
+                <Button
+                  className="flex-1 gradient-primary text-primary-foreground"
+                  onClick={saveDraft}
+                >
+                  <Save className="mr-2 h-4 w-4" />
+                  Save
+                </Button>
+                <Button variant="outline" onClick={() => setDraft(null)}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <Button variant="outline" className="w-full" onClick={() => setDraft(blankDraft())}>
+              <Plus className="mr-2 h-4 w-4" />
+              New Link
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function LinkRow({
+  label,
+  token,
+  accessCode,
+  copied,
+  onCopy,
+  onEdit,
+  onDelete,
+  children,
+}: {
+  label: string;
+  token: string;
+  accessCode: string | null;
+  copied: boolean;
+  onCopy: () => void;
+  onEdit: () => void;
+  onDelete?: () => void;
+  children?: React.ReactNode;
+}) {
+  return (
+    <div className="rounded-xl border p-4 space-y-2">
+      <div className="flex items-center justify-between gap-3">
+        <div className="min-w-0">
+          <p className="text-sm font-medium flex items-center gap-2">
+            {label}
+            {accessCode && (
+              <span className="inline-flex items-center gap-1 text-xs font-normal text-muted-foreground">
+                <KeyRound className="h-3 w-3" />
+                {accessCode}
+              </span>
+            )}
+          </p>
+          <p className="truncate text-xs text-muted-foreground">{shareUrl(token)}</p>
+        </div>
+
+        <div className="flex shrink-0 gap-1">
+          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onCopy}>
+            {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+          </Button>
+          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onEdit}>
+            <Pencil className="h-4 w-4" />
+          </Button>
+          {onDelete && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 text-destructive"
+              onClick={onDelete}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {children}
+    </div>
+  );
+}
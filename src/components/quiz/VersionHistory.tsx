@@ -0,0 +1,149 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { format } from "date-fns";
+import { ChevronDown, ChevronUp, GitCommitHorizontal } from "lucide-react";
+import { QuizVersion, diffVersions } from "@/lib/quiz";
+
+/* ---------------- VERSION HISTORY ----------------
+   Published versions of a quiz, newest first, each diffed against the
+   one before it. Versions are created by save_quiz and never change. */
+
+export default function VersionHistory({ quizId }: { quizId: string }) {
+  const [versions, setVersions] = useState<QuizVersion[]>([]);
+  const [attemptCounts, setAttemptCounts] = useState<Record<string, number>>({});
+  const [open, setOpen] = useState(false);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      const { data } = await supabase
+        .from("quiz_versions")
+        .select("id, version_number, title, questions, created_at")
+        .eq("quiz_id", quizId)
+        .order("version_number", { ascending: false });
+
+      const { data: attempts } = await supabase
+        .from("quiz_attempts")
+        .select("version_id")
+        .eq("quiz_id", quizId);
+
+      const counts: Record<string, number> = {};
+      (attempts || []).forEach((a) => {
+        if (a.version_id) counts[a.version_id] = (counts[a.version_id] || 0) + 1;
+      });
+
+      setVersions((data as QuizVersion[]) || []);
+      setAttemptCounts(counts);
+    };
+
+    load();
+  }, [quizId]);
+
+  if (versions.length === 0) return null;
+
+  const short = (text: string) =>
+    text.length > 80 ? `${text.slice(0, 80)}…` : text;
+
+  return (
+    <div className="glass-card rounded-xl p-5 mb-8 space-y-4">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="flex w-full items-center justify-between"
+      >
+        <div className="text-left">
+          <p className="font-semibold">
+            Version {versions[0].version_number}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            Saving changes publishes a new version. Past attempts stay pinned
+            to the version they were taken on.
+          </p>
+        </div>
+        {open ? (
+          <ChevronUp className="h-4 w-4 text-muted-foreground" />
+        ) : (
+          <ChevronDown className="h-4 w-4 text-muted-foreground" />
+        )}
+      </button>
+
+      {open && (
+        <div className="space-y-2">
+          {versions.map((v, i) => {
+            const diff = diffVersions(versions[i + 1] ?? null, v);
+            const isFirst = i === versions.length - 1;
+            const isExpanded = expanded === v.id;
+
+            const summary = isFirst
+              ? [`${v.questions.length} questions`]
+              : [
+                  diff.titleChanged && "title",
+                  diff.added.length && `+${diff.added.length} added`,
+                  diff.removed.length && `−${diff.removed.length} removed`,
+                  diff.changed.length && `${diff.changed.length} edited`,
+                  diff.reordered && "reordered",
+                ].filter(Boolean);
+
+            return (
+              <div key={v.id} className="rounded-lg border">
+                <button
+                  type="button"
+                  onClick={() => setExpanded(isExpanded ? null : v.id)}
+                  className="flex w-full items-center gap-3 px-4 py-3 text-left"
+                >
+                  <GitCommitHorizontal className="h-4 w-4 shrink-0 text-primary" />
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm font-medium">
+                      v{v.version_number}
+                      <span className="ml-2 text-xs font-normal text-muted-foreground">
+                        {format(new Date(v.created_at), "MMM d, yyyy HH:mm")}
+                      </span>
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {summary.join(" · ") || "No changes"}
+                    </p>
+                  </div>
+                  <span className="shrink-0 text-xs text-muted-foreground">
+                    {attemptCounts[v.id] || 0} attempts
+                  </span>
+                </button>
+
+                {isExpanded && !isFirst && (
+                  <div className="space-y-1 border-t px-4 py-3 text-xs">
+                    {diff.titleChanged && (
+                      <p>
+                        <span className="font-semibold">Title:</span>{" "}
+                        {versions[i + 1].title} → {v.title}
+                      </p>
+                    )}
+                    {diff.added.map((q) => (
+                      <p key={q.id} className="text-green-600">
+                        + {short(q.question_text)}
+                      </p>
+                    ))}
+                    {diff.removed.map((q) => (
+                      <p key={q.id} className="text-red-600">
+                        − {short(q.question_text)}
+                      </p>
+                    ))}
+                    {diff.changed.map(({ after, fields }) => (
+                      <p key={after.id} className="text-yellow-600">
+                        ~ {short(after.question_text)}{" "}
+                        <span className="text-muted-foreground">
+                          ({fields.join(", ")})
+                        </span>
+                      </p>
+                    ))}
+                    {diff.reordered && (
+                      <p className="text-muted-foreground">Questions reordered</p>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
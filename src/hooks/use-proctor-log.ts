@@ -0,0 +1,45 @@
+import * as React from "react";
+import { logProctorEvent } from "@/lib/proctoring";
+
+// Docked developer tools shrink the viewport well below the window size
+const DEVTOOLS_GAP_PX = 160;
+
+// Logs tab / focus / fullscreen / right-click / devtools events while an
+// attempt is in progress. Blocked copy & paste are logged by the blockers.
+export function useProctorLog(active: boolean) {
+  React.useEffect(() => {
+    if (!active) return;
+
+    const onVisibility = () =>
+      logProctorEvent(document.hidden ? "tab_hidden" : "tab_visible");
+    const onBlur = () => logProctorEvent("window_blur");
+    const onContextMenu = () => logProctorEvent("right_click");
+    const onFullscreen = () => {
+      if (!document.fullscreenElement) logProctorEvent("fullscreen_exit");
+    };
+
+    let devtoolsOpen = false;
+    const checkDevtools = () => {
+      const open =
+        window.outerWidth - window.innerWidth > DEVTOOLS_GAP_PX ||
+        window.outerHeight - window.innerHeight > DEVTOOLS_GAP_PX;
+
+      if (open && !devtoolsOpen) logProctorEvent("devtools_suspected");
+      devtoolsOpen = open;
+    };
+
+    document.addEventListener("visibilitychange", onVisibility);
+    window.addEventListener("blur", onBlur);
+    document.addEventListener("contextmenu", onContextMenu);
+    document.addEventListener("fullscreenchange", onFullscreen);
+    const interval = setInterval(checkDevtools, 2000);
+
+    return () => {
+      document.removeEventListener("visibilitychange", onVisibility);
+      window.removeEventListener("blur", onBlur);
+      document.removeEventListener("contextmenu", onContextMenu);
+      document.removeEventListener("fullscreenchange", onFullscreen);
+      clearInterval(interval);
+    };
+  }, [active]);
+}
@@ -0,0 +1,29 @@
+import * as React from "react";
+
+// question id → whole seconds spent with that question in view
+export type QuestionTimes = Record<string, number>;
+
+export const readQuestionTimes = (storageKey: string): QuestionTimes =>
+  JSON.parse(localStorage.getItem(storageKey) || "{}");
+
+// Counts a second for the question in view, kept in localStorage so a
+// refresh mid-attempt loses nothing. Hidden tabs do not count.
+export function useQuestionTimer(
+  storageKey: string,
+  questionId: string | undefined,
+  active: boolean,
+) {
+  React.useEffect(() => {
+    if (!active || !questionId) return;
+
+    const interval = setInterval(() => {
+      if (document.hidden) return;
+
+      const times = readQuestionTimes(storageKey);
+      times[questionId] = (times[questionId] || 0) + 1;
+      localStorage.setItem(storageKey, JSON.stringify(times));
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [storageKey, questionId, active]);
+}
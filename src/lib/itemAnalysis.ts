@@ -0,0 +1,188 @@
+import {
+  AnswerValue,
+  QuestionType,
+  hasOptions,
+  isCorrectOption,
+  isOptionSelected,
+} from "@/lib/quiz";
+
+/* ---------------- ITEM ANALYSIS ----------------
+   Classical test statistics per question, built from graded attempts.
+   Credits (0–1 per question) come from submit-attempt, so partial
+   credit and every question type are handled the same way. */
+
+export interface AnalysisQuestion {
+  id: string;
+  question_text: string;
+  question_type?: QuestionType;
+  options: string[];
+  correct_option_index: number;
+  correct_option_indices?: number[] | null;
+}
+
+export interface AnalysisAttempt {
+  answers?: Record<string, AnswerValue>;
+  question_credits?: Record<string, number>;
+  question_ids?: string[] | null;
+  question_times?: Record<string, number>;
+}
+
+export interface OptionStats {
+  index: number;
+  correct: boolean;
+  picked: number;
+  // Share of the top / bottom group that picked this option (0–1)
+  upperRate: number;
+  lowerRate: number;
+  // Wrong option that attracts more strong than weak participants
+  flagged: boolean;
+}
+
+export interface ItemStats {
+  question: AnalysisQuestion;
+  position: number;
+  responses: number;
+  unanswered: number;
+  // Mean credit (0–1): the classical difficulty index
+  difficulty: number | null;
+  // Point-biserial against the rest of the score (null when undefined)
+  discrimination: number | null;
+  // Mean seconds in view, over attempts that recorded timings
+  avgSeconds: number | null;
+  // Answered in under a quarter of that mean
+  fastAnswers: number;
+  options: OptionStats[];
+}
+
+// Kelley's classic 27% upper / lower groups
+const GROUP_FRACTION = 0.27;
+
+const FAST_FRACTION = 0.25;
+
+const mean = (xs: number[]) => xs.reduce((s, x) => s + x, 0) / xs.length;
+
+// Older attempts have no timings and are left out
+export const averageQuestionTimes = (attempts: AnalysisAttempt[]) => {
+  const seconds: Record<string, number[]> = {};
+
+  attempts.forEach((a) =>
+    Object.entries(a.question_times ?? {}).forEach(([id, s]) => {
+      (seconds[id] ||= []).push(s);
+    })
+  );
+
+  return Object.fromEntries(
+    Object.entries(seconds).map(([id, list]) => [id, mean(list)])
+  ) as Record<string, number>;
+};
+
+export const isFastAnswer = (seconds: number, average: number | undefined) =>
+  !!average && seconds < average * FAST_FRACTION;
+
+const correlation = (xs: number[], ys: number[]) => {
+  if (xs.length < 2) return null;
+
+  const mx = mean(xs);
+  const my = mean(ys);
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+
+  xs.forEach((x, i) => {
+    sxy += (x - mx) * (ys[i] - my);
+    sxx += (x - mx) ** 2;
+    syy += (ys[i] - my) ** 2;
+  });
+
+  // Everyone got the same credit (or the same rest score)
+  if (sxx === 0 || syy === 0) return null;
+
+  return sxy / Math.sqrt(sxx * syy);
+};
+
+const sawQuestion = (a: AnalysisAttempt, questionId: string) =>
+  !a.question_ids || a.question_ids.includes(questionId);
+
+const totalCredit = (a: AnalysisAttempt) =>
+  Object.values(a.question_credits ?? {}).reduce((s, c) => s + c, 0);
+
+export const analyseItems = (
+  questions: AnalysisQuestion[],
+  attempts: AnalysisAttempt[]
+): ItemStats[] => {
+  // Upper / lower groups are ranked on the whole attempt
+  const ranked = [...attempts].sort((a, b) => totalCredit(b) - totalCredit(a));
+  const groupSize = Math.max(Math.round(ranked.length * GROUP_FRACTION), 1);
+  const upper = ranked.slice(0, groupSize);
+  const lower = ranked.length > 1 ? ranked.slice(-groupSize) : [];
+  const averages = averageQuestionTimes(attempts);
+
+  return questions.map((question, position) => {
+    const taken = attempts.filter((a) => sawQuestion(a, question.id));
+    const credits = taken.map((a) => a.question_credits?.[question.id] ?? 0);
+    const rest = taken.map((a, i) => totalCredit(a) - credits[i]);
+
+    const key =
+      question.question_type === "multiple"
+        ? question.correct_option_indices ?? []
+        : question.correct_option_index;
+
+    const pickRate = (group: AnalysisAttempt[], index: number) => {
+      const seen = group.filter((a) => sawQuestion(a, question.id));
+      if (!seen.length) return 0;
+
+      return (
+        seen.filter((a) => isOptionSelected(a.answers?.[question.id], index))
+          .length / seen.length
+      );
+    };
+
+    const options: OptionStats[] = hasOptions(question.question_type)
+      ? question.options.map((_, index) => {
+          const correct = isCorrectOption(key, index);
+          const upperRate = pickRate(upper, index);
+          const lowerRate = pickRate(lower, index);
+
+          return {
+            index,
+            correct,
+            picked: taken.filter((a) =>
+              isOptionSelected(a.answers?.[question.id], index)
+            ).length,
+            upperRate,
+            lowerRate,
+            flagged: !correct && upperRate > 0 && upperRate > lowerRate,
+          };
+        })
+      : [];
+
+    return {
+      question,
+      position,
+      responses: taken.length,
+      unanswered: taken.filter((a) => a.answers?.[question.id] === undefined)
+        .length,
+      difficulty: taken.length ? mean(credits) : null,
+      discrimination: correlation(credits, rest),
+      avgSeconds: averages[question.id] ?? null,
+      fastAnswers: taken.filter((a) => {
+        const seconds = a.question_times?.[question.id];
+        return (
+          seconds !== undefined &&
+          a.answers?.[question.id] !== undefined &&
+          isFastAnswer(seconds, averages[question.id])
+        );
+      }).length,
+      options,
+    };
+  });
+};
+
+// Usual rules of thumb for point-biserial values
+export const discriminationLabel = (value: number | null) => {
+  if (value === null) return "n/a";
+  if (value < 0) return "Review";
+  if (value < 0.2) return "Poor";
+  if (value < 0.3) return "Fair";
+  return "Good";
+};
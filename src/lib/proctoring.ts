@@ -0,0 +1,44 @@
+/* ---------------- PROCTORING LOG ----------------
+   Timestamped events buffered in localStorage during a shared attempt and
+   sent with the submission (see _shared/proctoring.ts for the server side). */
+
+export type ProctorEventType =
+  | "tab_hidden"
+  | "tab_visible"
+  | "window_blur"
+  | "fullscreen_exit"
+  | "copy_blocked"
+  | "paste_blocked"
+  | "right_click"
+  | "devtools_suspected";
+
+export interface ProctorEvent {
+  type: ProctorEventType;
+  at: string;
+}
+
+export const PROCTOR_EVENT_LABELS: Record<ProctorEventType, string> = {
+  tab_hidden: "Left the tab",
+  tab_visible: "Returned to the tab",
+  window_blur: "Window lost focus",
+  fullscreen_exit: "Exited fullscreen",
+  copy_blocked: "Blocked copy",
+  paste_blocked: "Blocked paste",
+  right_click: "Right-click",
+  devtools_suspected: "Developer tools possibly opened",
+};
+
+// Returning to the tab is context, not a concern in itself
+export const isSuspiciousEvent = (type: ProctorEventType) =>
+  type !== "tab_visible";
+
+export const PROCTOR_STORAGE_KEY = "quiz_proctor_events";
+
+export const readProctorEvents = (): ProctorEvent[] =>
+  JSON.parse(localStorage.getItem(PROCTOR_STORAGE_KEY) || "[]");
+
+export const logProctorEvent = (type: ProctorEventType) => {
+  const events = readProctorEvents();
+  events.push({ type, at: new Date().toISOString() });
+  localStorage.setItem(PROCTOR_STORAGE_KEY, JSON.stringify(events));
+};
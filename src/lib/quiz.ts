@@ -0,0 +1,476 @@
+import { format } from "date-fns";
+
+export type QuestionType =
+  | "single"
+  | "multiple"
+  | "true_false"
+  | "numeric"
+  | "short_text";
+
+export type MultiSelectScoring = "all_or_nothing" | "partial" | "partial_penalty";
+
+export type ToleranceType = "absolute" | "percent";
+
+export type TextMatchMode = "exact" | "normalized" | "regex";
+
+// Option types → option index (or indices), numeric / short text → typed string
+export type AnswerValue = number | number[] | string;
+
+export const TRUE_FALSE_OPTIONS = ["True", "False"];
+
+export const MIN_OPTIONS = 2;
+export const MAX_OPTIONS = 10;
+
+// A, B, … Z, AA, AB, … (spreadsheet-style, so any option count gets a label)
+export const optionLabel = (index: number): string => {
+  let label = "";
+  let n = index;
+
+  do {
+    label = String.fromCharCode(65 + (n % 26)) + label;
+    n = Math.floor(n / 26) - 1;
+  } while (n >= 0);
+
+  return label;
+};
+
+// Types answered by picking from `options`
+export const hasOptions = (type: QuestionType | undefined) =>
+  type !== "numeric" && type !== "short_text";
+
+export const isOptionSelected = (
+  answer: AnswerValue | undefined,
+  optionIndex: number,
+) =>
+  Array.isArray(answer) ? answer.includes(optionIndex) : answer === optionIndex;
+
+// Answer keys share the same shape as answers
+export const isCorrectOption = isOptionSelected;
+
+// Checkbox toggle for "select all that apply" (kept sorted for stable storage)
+export const toggleOption = (
+  answer: AnswerValue | undefined,
+  optionIndex: number,
+): number[] => {
+  const current = Array.isArray(answer) ? answer : [];
+
+  return current.includes(optionIndex)
+    ? current.filter((i) => i !== optionIndex)
+    : [...current, optionIndex].sort((a, b) => a - b);
+};
+
+export const isAnswered = (answer: AnswerValue | undefined) =>
+  answer !== undefined &&
+  answer !== null &&
+  (!Array.isArray(answer) || answer.length > 0) &&
+  (typeof answer !== "string" || answer.trim() !== "");
+
+interface FormattableQuestion {
+  question_type?: QuestionType;
+  options: string[];
+  correct_option_index: number;
+  correct_option_indices?: number[];
+  numeric_answer?: number | null;
+  numeric_tolerance?: number | null;
+  numeric_tolerance_type?: ToleranceType;
+  accepted_answers?: string[];
+}
+
+// Human-readable participant answer (history review, CSV)
+export const formatAnswer = (
+  question: FormattableQuestion,
+  answer: AnswerValue | undefined,
+) => {
+  if (!isAnswered(answer)) return "—";
+
+  if (typeof answer === "string") return answer;
+
+  const indices = Array.isArray(answer) ? answer : [answer];
+  return indices.map((i) => question.options[i] ?? `Option ${i + 1}`).join(", ");
+};
+
+export const formatAnswerKey = (question: FormattableQuestion) => {
+  switch (question.question_type) {
+    case "multiple":
+      return formatAnswer(question, question.correct_option_indices || []);
+
+    case "numeric": {
+      const tolerance = Number(question.numeric_tolerance ?? 0);
+      const unit = question.numeric_tolerance_type === "percent" ? "%" : "";
+
+      return tolerance > 0
+        ? `${question.numeric_answer} (± ${tolerance}${unit})`
+        : String(question.numeric_answer ?? "");
+    }
+
+    case "short_text":
+      return (question.accepted_answers || []).join(" / ");
+
+    default:
+      return formatAnswer(question, question.correct_option_index);
+  }
+};
+
+/* ---------------- EDITABLE QUESTIONS (builder + question bank) ---------------- */
+
+export interface QuestionDraft {
+  question_text: string;
+  question_type?: QuestionType;
+  options: string[];
+  correct_option_index: number;
+  correct_option_indices?: number[];
+  numeric_answer?: number | null;
+  numeric_tolerance?: number;
+  numeric_tolerance_type?: ToleranceType;
+  accepted_answers?: string[];
+  text_match_mode?: TextMatchMode;
+  explanation?: string | null;
+}
+
+export const blankQuestion = (): QuestionDraft => ({
+  question_text: "",
+  question_type: "single",
+  options: ["", "", "", ""],
+  correct_option_index: 0,
+  correct_option_indices: [],
+  numeric_answer: null,
+  numeric_tolerance: 0,
+  numeric_tolerance_type: "absolute",
+  accepted_answers: [""],
+  text_match_mode: "normalized",
+  explanation: "",
+});
+
+// Fill editor defaults (AI / OCR output has no type → treat as single-answer)
+export const normalizeQuestion = <T extends Partial<QuestionDraft>>(q: T) => ({
+  ...blankQuestion(),
+  ...q,
+  question_type: q.question_type ?? "single",
+  correct_option_indices: q.correct_option_indices ?? [],
+  numeric_answer:
+    q.numeric_answer === null || q.numeric_answer === undefined
+      ? null
+      : Number(q.numeric_answer),
+  numeric_tolerance: Number(q.numeric_tolerance ?? 0),
+  accepted_answers: q.accepted_answers?.length ? q.accepted_answers : [""],
+  explanation: q.explanation ?? "",
+});
+
+// First problem that blocks saving, or null when the question is complete
+export const validateQuestion = (q: QuestionDraft, label: string) => {
+  if (!q.question_text.trim()) return `${label} is empty`;
+
+  if (hasOptions(q.question_type) && q.options.length < MIN_OPTIONS) {
+    return `${label} needs at least ${MIN_OPTIONS} options`;
+  }
+  if (hasOptions(q.question_type) && q.options.some((o) => !o.trim())) {
+    return `All options in ${label} must be filled`;
+  }
+  if (
+    q.question_type === "multiple" &&
+    !(q.correct_option_indices || []).length
+  ) {
+    return `Mark at least one correct option in ${label}`;
+  }
+  if (
+    q.question_type === "numeric" &&
+    (q.numeric_answer === null ||
+      q.numeric_answer === undefined ||
+      !Number.isFinite(q.numeric_answer))
+  ) {
+    return `Enter the correct number for ${label}`;
+  }
+  if (
+    q.question_type === "short_text" &&
+    !(q.accepted_answers || []).some((a) => a.trim())
+  ) {
+    return `Add at least one accepted answer in ${label}`;
+  }
+
+  return null;
+};
+
+// Content columns shared by `questions` and `question_bank` rows
+export const questionColumns = (q: QuestionDraft) => ({
+  question_text: q.question_text,
+  question_type: q.question_type ?? "single",
+  options: hasOptions(q.question_type) ? q.options : [],
+  correct_option_index:
+    q.question_type === "multiple"
+      ? q.correct_option_indices![0]
+      : q.correct_option_index,
+  correct_option_indices:
+    q.question_type === "multiple" ? q.correct_option_indices : [],
+  numeric_answer: q.question_type === "numeric" ? q.numeric_answer : null,
+  numeric_tolerance: q.numeric_tolerance ?? 0,
+  numeric_tolerance_type: q.numeric_tolerance_type ?? "absolute",
+  accepted_answers:
+    q.question_type === "short_text"
+      ? (q.accepted_answers || []).map((a) => a.trim()).filter(Boolean)
+      : [],
+  text_match_mode: q.text_match_mode ?? "normalized",
+  explanation: q.explanation?.trim() || null,
+});
+
+/* ---------------- QUESTION BANK ---------------- */
+
+export type Difficulty = "easy" | "medium" | "hard";
+
+export const DIFFICULTIES: { id: Difficulty; label: string }[] = [
+  { id: "easy", label: "Easy" },
+  { id: "medium", label: "Medium" },
+  { id: "hard", label: "Hard" },
+];
+
+export interface BankQuestion extends QuestionDraft {
+  id: string;
+  tags: string[];
+  difficulty: Difficulty | null;
+  updated_at?: string;
+}
+
+export interface BankFilter {
+  search: string;
+  tags: string[];
+  difficulty: Difficulty | null;
+}
+
+// "Algebra, chapter 2,algebra" → ["algebra", "chapter 2"]
+export const parseTags = (text: string) => [
+  ...new Set(
+    text
+      .split(",")
+      .map((t) => t.trim().toLowerCase())
+      .filter(Boolean)
+  ),
+];
+
+export const bankTags = (bank: BankQuestion[]) =>
+  [...new Set(bank.flatMap((q) => q.tags))].sort();
+
+// Text search over question + options; every selected tag must match
+export const filterBank = (bank: BankQuestion[], filter: BankFilter) => {
+  const search = filter.search.trim().toLowerCase();
+
+  return bank.filter(
+    (q) =>
+      (!filter.difficulty || q.difficulty === filter.difficulty) &&
+      filter.tags.every((t) => q.tags.includes(t)) &&
+      (!search ||
+        [q.question_text, ...q.options, ...q.tags].some((text) =>
+          text.toLowerCase().includes(search)
+        ))
+  );
+};
+
+/* ---------------- QUIZ VERSIONS ---------------- */
+
+export interface VersionQuestion extends QuestionDraft {
+  id: string;
+  order_num: number;
+  section?: string | null;
+}
+
+export interface QuizVersion {
+  id: string;
+  version_number: number;
+  title: string;
+  questions: VersionQuestion[];
+  created_at: string;
+}
+
+export interface VersionDiff {
+  titleChanged: boolean;
+  added: VersionQuestion[];
+  removed: VersionQuestion[];
+  changed: { before: VersionQuestion; after: VersionQuestion; fields: string[] }[];
+  reordered: boolean;
+}
+
+// Label → the columns it covers (answer key spans several per type)
+const DIFF_FIELDS: [string, (keyof VersionQuestion)[]][] = [
+  ["text", ["question_text"]],
+  ["type", ["question_type"]],
+  ["options", ["options"]],
+  [
+    "answer key",
+    [
+      "correct_option_index",
+      "correct_option_indices",
+      "numeric_answer",
+      "numeric_tolerance",
+      "numeric_tolerance_type",
+      "accepted_answers",
+      "text_match_mode",
+    ],
+  ],
+  ["explanation", ["explanation"]],
+  ["section", ["section"]],
+];
+
+export const diffVersions = (
+  before: QuizVersion | null,
+  after: QuizVersion
+): VersionDiff => {
+  const prev = before?.questions ?? [];
+  const prevById = new Map(prev.map((q) => [q.id, q]));
+  const nextIds = new Set(after.questions.map((q) => q.id));
+
+  const changed: VersionDiff["changed"] = [];
+  after.questions.forEach((q) => {
+    const old = prevById.get(q.id);
+    if (!old) return;
+
+    const fields = DIFF_FIELDS.filter(
+      ([, keys]) =>
+        JSON.stringify(keys.map((k) => old[k] ?? null)) !==
+        JSON.stringify(keys.map((k) => q[k] ?? null))
+    ).map(([label]) => label);
+
+    if (fields.length) changed.push({ before: old, after: q, fields });
+  });
+
+  // Same surviving questions, different sequence
+  const keptBefore = prev.filter((q) => nextIds.has(q.id)).map((q) => q.id);
+  const keptAfter = after.questions
+    .filter((q) => prevById.has(q.id))
+    .map((q) => q.id);
+
+  return {
+    titleChanged: !!before && before.title !== after.title,
+    added: after.questions.filter((q) => !prevById.has(q.id)),
+    removed: prev.filter((q) => !nextIds.has(q.id)),
+    changed,
+    reordered: keptBefore.join() !== keptAfter.join(),
+  };
+};
+
+/* ---------------- AVAILABILITY ---------------- */
+
+export type QuizStatus = "draft" | "published";
+export type QuizState = "draft" | "scheduled" | "open" | "closed";
+
+export interface QuizAvailability {
+  state: QuizState;
+  opens_at: string | null;
+  closes_at: string | null;
+}
+
+// <input type="datetime-local"> works in local time without a zone
+export const toLocalInput = (iso?: string | null) =>
+  iso ? format(new Date(iso), "yyyy-MM-dd'T'HH:mm") : "";
+
+export const fromLocalInput = (value: string) =>
+  value ? new Date(value).toISOString() : null;
+
+// Mirrors public.quiz_state: only the status is stored, the rest follows
+// from the open / close window
+export const quizState = (
+  quiz: { status?: QuizStatus | null; opens_at?: string | null; closes_at?: string | null },
+  now = Date.now()
+): QuizState => {
+  if (quiz.status === "draft") return "draft";
+  if (quiz.closes_at && now >= new Date(quiz.closes_at).getTime()) return "closed";
+  if (quiz.opens_at && now < new Date(quiz.opens_at).getTime()) return "scheduled";
+  return "open";
+};
+
+/* ---------------- PARTICIPANT IDENTITY ---------------- */
+
+// How share-link participants identify themselves. Resolved server-side
+// (public.resolve_participant); retries and the leaderboard key off it.
+export type IdentityMode = "name" | "name_field" | "roster" | "account";
+
+export const IDENTITY_MODES: { value: IdentityMode; label: string; hint: string }[] = [
+  { value: "name", label: "Name", hint: "Any name — today's behaviour" },
+  { value: "name_field", label: "Name + field", hint: "Plus a required ID, e.g. roll number" },
+  { value: "roster", label: "Roster ID", hint: "Must match an ID on a class roster" },
+  { value: "account", label: "Signed in", hint: "One identity per account" },
+];
+
+export const DEFAULT_IDENTITY_FIELD_LABEL = "Roll number";
+
+/* ---------------- SHARE LINKS ---------------- */
+
+export type ShareLinkState = "active" | "disabled" | "expired" | "used_up";
+
+export interface ShareLink {
+  id: string;
+  token: string;
+  label: string;
+  access_code: string | null;
+  expires_at: string | null;
+  max_uses: number | null;
+  use_count: number;
+  enabled: boolean;
+  created_at: string;
+}
+
+export const shareUrl = (token: string) =>
+  `${window.location.origin}/quiz/share/${token}`;
+
+// Mirrors public.resolve_share_link
+export const shareLinkState = (link: ShareLink, now = Date.now()): ShareLinkState => {
+  if (!link.enabled) return "disabled";
+  if (link.expires_at && now >= new Date(link.expires_at).getTime()) return "expired";
+  if (link.max_uses !== null && link.use_count >= link.max_uses) return "used_up";
+  return "active";
+};
+
+/* ---------------- AI GENERATION ---------------- */
+
+// Builder options; the names are what generate-quiz expects
+export const QUESTION_FORMATS = ["MCQ", "Assertion-Reason", "Mixed"];
+export const DIFFICULTY_LEVELS = ["Easy", "Medium", "Competitive"];
+
+// Mirrors MAX_MATERIAL_CHARS in generate-quiz (material mode)
+export const MAX_MATERIAL_CHARS = 200_000;
+
+// A question as generate-quiz returns it
+export interface GeneratedQuestion {
+  question_text: string;
+  // "Mixed" format also returns true/false and select-all questions
+  question_type?: QuestionType;
+  options: string[];
+  correct_option_index: number;
+  correct_option_indices?: number[];
+  explanation?: string;
+  // Material mode: the passage the question was written from
+  source_passage?: number | null;
+  source_quote?: string | null;
+  warnings?: string[];
+}
+
+// Material mode: the citation travels with the question as the last
+// paragraph of its explanation (shown to participants after submitting)
+export const withCitation = (q: GeneratedQuestion): GeneratedQuestion =>
+  q.source_quote?.trim()
+    ? {
+        ...q,
+        explanation: [
+          q.explanation?.trim(),
+          `*Source (passage ${q.source_passage}):* “${q.source_quote.trim()}”`,
+        ]
+          .filter(Boolean)
+          .join("\n\n"),
+      }
+    : q;
+
+// A problem generate-quiz could not repair: `question` indexes the
+// questions in its reply, null means the quiz as a whole
+export interface GenerationWarning {
+  question: number | null;
+  message: string;
+}
+
+// Pins each question's warnings onto it; returns the quiz-wide ones apart
+export const attachWarnings = <T extends object>(
+  questions: T[],
+  warnings: GenerationWarning[] = []
+) => ({
+  questions: questions.map((q, i) => ({
+    ...q,
+    warnings: warnings.filter((w) => w.question === i).map((w) => w.message),
+  })),
+  general: warnings.filter((w) => w.question === null).map((w) => w.message),
+});
@@ -0,0 +1,146 @@
+/* ---------------- CLASS ROSTERS ----------------
+   A roster is a teacher's list of students (ID + name), optionally split
+   into named groups (class sections). Quizzes in "roster" identity mode
+   only accept students on their roster, and can be assigned to groups
+   with group-specific windows and retry limits. */
+
+export interface RosterMember {
+  student_id: string;
+  name: string;
+  // Group name as written in the roster ("" = no group)
+  group: string;
+}
+
+export interface RosterGroup {
+  id: string;
+  roster_id: string;
+  name: string;
+}
+
+export interface Roster {
+  id: string;
+  name: string;
+  created_at: string;
+  member_count?: number;
+  groups?: RosterGroup[];
+}
+
+export interface GroupAssignment {
+  group_id: string;
+  opens_at: string | null;
+  closes_at: string | null;
+  // null = same as the quiz
+  max_retries: number | null;
+}
+
+// One student per line. Quoted fields may contain commas ("Doe, Jane").
+const splitCsvLine = (line: string) => {
+  const fields: string[] = [];
+  let current = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        current += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === "," || ch === "\t" || ch === ";") {
+      fields.push(current);
+      current = "";
+    } else {
+      current += ch;
+    }
+  }
+
+  fields.push(current);
+  return fields.map((f) => f.trim());
+};
+
+const HEADER_ID = /^(student[\s_-]*)?id$|^roll/i;
+
+// "ID, Name, Group" per line (CSV, TSV or typed by hand). The name
+// defaults to the ID and the group is optional. A header row is skipped,
+// and repeated IDs (case-insensitive) keep the first line.
+export const parseRosterText = (text: string) => {
+  const seen = new Set<string>();
+  const members: RosterMember[] = [];
+  let duplicates = 0;
+
+  // Spreadsheet exports often start with a UTF-8 byte order mark, which
+  // would otherwise hide the header row
+  text.replace(/^\uFEFF/, "").split(/\r?\n/).forEach((line, index) => {
+    const [studentId = "", name = "", group = ""] = splitCsvLine(line);
+    if (!studentId) return;
+    if (index === 0 && HEADER_ID.test(studentId)) return;
+
+    const key = studentId.toLowerCase();
+    if (seen.has(key)) {
+      duplicates++;
+      return;
+    }
+
+    seen.add(key);
+    members.push({ student_id: studentId, name: name || studentId, group });
+  });
+
+  return { members, duplicates };
+};
+
+const csvField = (value: string) =>
+  /[",;\t]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const formatRosterText = (members: RosterMember[]) =>
+  members
+    .map((m) =>
+      [m.student_id, m.name, m.group]
+        .filter((v, i) => i < 2 || v)
+        .map(csvField)
+        .join(", ")
+    )
+    .join("\n");
+
+// Distinct group names, in the order they first appear
+export const rosterGroupNames = (members: RosterMember[]) => {
+  const names = new Map<string, string>();
+  members.forEach((m) => {
+    if (m.group && !names.has(m.group.toLowerCase())) {
+      names.set(m.group.toLowerCase(), m.group);
+    }
+  });
+  return [...names.values()];
+};
+
+// Saved groups nobody in the edited list belongs to any more. Saving
+// keeps them unless the teacher chooses to remove them.
+export const emptiedGroups = (groups: RosterGroup[], members: RosterMember[]) => {
+  const names = new Set(rosterGroupNames(members).map((n) => n.toLowerCase()));
+  return groups.map((g) => g.name).filter((n) => !names.has(n.toLowerCase()));
+};
+
+export interface GroupOption {
+  id: string;
+  name: string;
+}
+
+// Distinct groups from rows that carry a group id and name, by name
+export const groupsFrom = (
+  rows: { group_id?: string | null; group_name?: string | null }[]
+): GroupOption[] => {
+  const groups = new Map<string, string>();
+  rows.forEach((r) => {
+    if (r.group_id && r.group_name) groups.set(r.group_id, r.group_name);
+  });
+
+  return [...groups.entries()]
+    .map(([id, name]) => ({ id, name }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
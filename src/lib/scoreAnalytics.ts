@@ -0,0 +1,90 @@
+/* ---------------- SCORE ANALYTICS ----------------
+   Whole-attempt statistics for the history page: distribution, time vs.
+   score and how retrying participants progress. Scores are percentages
+   so quizzes with drawn pools of different sizes stay comparable. */
+
+export interface ScoredAttempt {
+  // Resolved identity, so namesakes are not merged into one participant
+  participant_key: string;
+  score: number;
+  total_questions: number;
+  completed_at: string;
+  time_taken_seconds?: number;
+  tab_switch_count?: number;
+}
+
+export interface Summary {
+  count: number;
+  mean: number;
+  median: number;
+  sd: number;
+}
+
+export const scorePercent = (a: ScoredAttempt) =>
+  a.total_questions ? (a.score / a.total_questions) * 100 : 0;
+
+export const summarise = (values: number[]): Summary | null => {
+  if (!values.length) return null;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  const mean = sorted.reduce((s, v) => s + v, 0) / sorted.length;
+
+  // Population SD: this is every attempt, not a sample of them
+  const variance =
+    sorted.reduce((s, v) => s + (v - mean) ** 2, 0) / sorted.length;
+
+  return {
+    count: sorted.length,
+    mean,
+    median:
+      sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2,
+    sd: Math.sqrt(variance),
+  };
+};
+
+// 0–9, 10–19, … 90–100 (100% lands in the last bin)
+export const histogram = (percents: number[], binSize = 10) => {
+  const bins = Math.ceil(100 / binSize);
+
+  return Array.from({ length: bins }, (_, i) => {
+    const from = i * binSize;
+    const to = Math.min(from + binSize, 100);
+
+    return {
+      range: `${from}–${i === bins - 1 ? 100 : to - 1}`,
+      count: percents.filter((p) =>
+        i === bins - 1 ? p >= from : p >= from && p < to
+      ).length,
+    };
+  });
+};
+
+// Mean score by attempt number, over participants who took it 2+ times
+export const retryTrend = (attempts: ScoredAttempt[]) => {
+  const byParticipant: Record<string, ScoredAttempt[]> = {};
+  attempts.forEach((a) => {
+    (byParticipant[a.participant_key] ||= []).push(a);
+  });
+
+  const perNumber: number[][] = [];
+  Object.values(byParticipant)
+    .filter((list) => list.length > 1)
+    .forEach((list) => {
+      [...list]
+        .sort(
+          (a, b) =>
+            new Date(a.completed_at).getTime() -
+            new Date(b.completed_at).getTime()
+        )
+        .forEach((a, i) => {
+          (perNumber[i] ||= []).push(scorePercent(a));
+        });
+    });
+
+  return perNumber.map((scores, i) => ({
+    attempt: `#${i + 1}`,
+    mean: Math.round(scores.reduce((s, v) => s + v, 0) / scores.length),
+    participants: scores.length,
+  }));
+};
@@ -0,0 +1,37 @@
+import { PROCTOR_STORAGE_KEY } from "@/lib/proctoring";
+
+/* ---------------- SHARE PAGE STORAGE ----------------
+   An attempt's progress lives in localStorage so a refresh can resume it.
+   The access code is kept per link in sessionStorage instead: every retry
+   through the same link starts a new session and needs it again, but it
+   shouldn't outlive the tab. */
+
+const accessCodeKey = (shareToken: string) => `quiz_access_code:${shareToken}`;
+
+export const rememberAccessCode = (shareToken: string, code: string) => {
+  if (code) sessionStorage.setItem(accessCodeKey(shareToken), code);
+  else sessionStorage.removeItem(accessCodeKey(shareToken));
+};
+
+// Arguments for start_quiz_session (starting, resuming or retrying)
+export const sessionStartArgs = (shareToken: string) => ({
+  _share_token: shareToken,
+  _participant_name: localStorage.getItem("quiz_participant") || "",
+  _identity_value: localStorage.getItem("quiz_identity") || undefined,
+  _access_code: sessionStorage.getItem(accessCodeKey(shareToken)) || undefined,
+  // Only the browser that started a session may resume it
+  _resume_token: localStorage.getItem("quiz_resume_token") || undefined,
+});
+
+// Everything one attempt leaves behind (after submitting, before a retry)
+export const clearAttemptProgress = () => {
+  [
+    "quiz_answers",
+    "quiz_session_id",
+    "quiz_resume_token",
+    "quiz_questions",
+    "quiz_tab_switches",
+    "quiz_question_times",
+    PROCTOR_STORAGE_KEY,
+  ].forEach((key) => localStorage.removeItem(key));
+};
@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { useAuth } from "@/lib/auth";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -16,9 +16,17 @@ export default function Auth() {
   const { signIn, signUp, user } = useAuth();
   const navigate = useNavigate();
   const { toast } = useToast();
+  const [searchParams] = useSearchParams();
+
+  // e.g. back to a share link that requires a signed-in account
+  const redirect = searchParams.get("redirect");
+  const destination =
+    redirect && redirect.startsWith("/") && !redirect.startsWith("//")
+      ? redirect
+      : "/dashboard";
 
   if (user) {
-    navigate("/dashboard");
+    navigate(destination);
     return null;
   }
 
@@ -42,7 +50,7 @@ export default function Auth() {
         description: "We sent you a confirmation link to verify your account.",
       });
     } else {
-      navigate("/dashboard");
+      navigate(destination);
     }
 
     setLoading(false);
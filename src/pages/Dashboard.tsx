@@ -16,15 +16,31 @@ import {
   Trash2,
   Share2,
   LogOut,
-  Check,
   Settings,
   X,
   Save,
   History,
   Trophy,
+  Library,
+  Lock,
+  Users,
 } from "lucide-react";
 
 import { format } from "date-fns";
+import {
+  DEFAULT_IDENTITY_FIELD_LABEL,
+  IDENTITY_MODES,
+  IdentityMode,
+  MultiSelectScoring,
+  QuizState,
+  QuizStatus,
+  fromLocalInput,
+  quizState,
+  toLocalInput,
+} from "@/lib/quiz";
+import { GroupAssignment, RosterGroup, groupsFrom } from "@/lib/roster";
+import GroupFilter from "@/components/quiz/GroupFilter";
+import ShareLinks from "@/components/quiz/ShareLinks";
 
 import {
   AlertDialog,
@@ -52,12 +68,50 @@ interface Quiz {
   sharing_enabled?: boolean;
   show_answers?: boolean;
   prevent_tab_switch?: boolean;
+  require_fullscreen?: boolean;
   tab_switch_warnings?: number;
   prevent_copy_paste?: boolean;
   randomise_questions?: boolean;
+  randomise_options?: boolean;
   leaderboard_enabled?: boolean;
   negative_marking_enabled?: boolean;
   negative_mark_value?: number;
+  multi_select_scoring?: MultiSelectScoring;
+  pool_size?: number | null;
+  pool_quotas?: Record<string, number>;
+  status?: QuizStatus;
+  opens_at?: string | null;
+  closes_at?: string | null;
+  identity_mode?: IdentityMode;
+  identity_field_label?: string | null;
+  roster_id?: string | null;
+  access_code?: string | null;
+}
+
+const STATE_BADGES: Record<QuizState, { label: string; className: string }> = {
+  draft: { label: "Draft", className: "bg-muted text-muted-foreground" },
+  scheduled: { label: "Scheduled", className: "bg-blue-500/10 text-blue-600" },
+  open: { label: "Open", className: "bg-green-500/10 text-green-600" },
+  closed: { label: "Closed", className: "bg-red-500/10 text-red-600" },
+};
+
+function QuizStateBadge({ quiz }: { quiz: Quiz }) {
+  const state = quizState(quiz);
+  const when =
+    state === "scheduled" && quiz.opens_at
+      ? ` · opens ${format(new Date(quiz.opens_at), "MMM d, HH:mm")}`
+      : state === "open" && quiz.closes_at
+        ? ` · closes ${format(new Date(quiz.closes_at), "MMM d, HH:mm")}`
+        : "";
+
+  return (
+    <span
+      className={`rounded-full px-2 py-0.5 text-xs font-medium ${STATE_BADGES[state].className}`}
+    >
+      {STATE_BADGES[state].label}
+      {when}
+    </span>
+  );
 }
 
 export default function Dashboard() {
@@ -67,7 +121,7 @@ export default function Dashboard() {
 
   const [quizzes, setQuizzes] = useState<Quiz[]>([]);
   const [loading, setLoading] = useState(true);
-  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [sharingQuiz, setSharingQuiz] = useState<Quiz | null>(null);
 
   // ✅ Modal state
   const [settingsOpen, setSettingsOpen] = useState(false);
@@ -81,15 +135,45 @@ export default function Dashboard() {
   const [showAnswers, setShowAnswers] = useState(true);
   const [preventTabSwitch, setPreventTabSwitch] = useState(false);
   const [tabWarnings, setTabWarnings] = useState(2);
+  const [requireFullscreen, setRequireFullscreen] = useState(false);
 
   const [preventCopyPaste, setPreventCopyPaste] = useState(false);
   const [randomiseQuestions, setRandomiseQuestions] = useState(false);
+  const [randomiseOptions, setRandomiseOptions] = useState(false);
 
   const [leaderboardOpen, setLeaderboardOpen] = useState(false);
 const [leaderboardData, setLeaderboardData] = useState<any[]>([]);
 const [leaderboardSwitch, setLeaderboardSwitch] = useState(true);
+const [leaderboardGroup, setLeaderboardGroup] = useState<string | null>(null);
 const [negativeMarkingEnabled, setNegativeMarkingEnabled] = useState(false);
 const [negativeMarkValue, setNegativeMarkValue] = useState(0);
+const [multiSelectScoring, setMultiSelectScoring] =
+  useState<MultiSelectScoring>("all_or_nothing");
+
+// ✅ Availability (draft / published + open-close window)
+const [quizStatus, setQuizStatus] = useState<QuizStatus>("draft");
+const [opensAt, setOpensAt] = useState("");
+const [closesAt, setClosesAt] = useState("");
+
+// ✅ Participant identity
+const [identityMode, setIdentityMode] = useState<IdentityMode>("name");
+const [identityFieldLabel, setIdentityFieldLabel] = useState("");
+const [rosterId, setRosterId] = useState<string | null>(null);
+const [rosters, setRosters] = useState<
+  { id: string; name: string; roster_groups: RosterGroup[] }[]
+>([]);
+// group id → that group's window / retries (as form input strings)
+const [assignments, setAssignments] = useState<
+  Record<string, { opensAt: string; closesAt: string; maxRetries: string }>
+>({});
+
+// ✅ Random question pool
+const [poolEnabled, setPoolEnabled] = useState(false);
+const [poolMode, setPoolMode] = useState<"all" | "sections">("all");
+const [poolSize, setPoolSize] = useState(10);
+const [poolQuotas, setPoolQuotas] = useState<Record<string, number>>({});
+// section name ("" = no section) → how many questions it has
+const [sectionCounts, setSectionCounts] = useState<Record<string, number>>({});
 
 
   /* -----------------------------------
@@ -99,7 +183,7 @@ const [negativeMarkValue, setNegativeMarkValue] = useState(0);
     const { data, error } = await supabase
       .from("quizzes")
       .select(
-        "id, title, share_token, created_at, duration_minutes, max_retries, sharing_enabled, show_answers, prevent_tab_switch, tab_switch_warnings, prevent_copy_paste, randomise_questions, leaderboard_enabled,negative_marking_enabled, negative_mark_value"
+        "id, title, share_token, created_at, duration_minutes, max_retries, sharing_enabled, show_answers, prevent_tab_switch, tab_switch_warnings, require_fullscreen, prevent_copy_paste, randomise_questions, randomise_options, leaderboard_enabled,negative_marking_enabled, negative_mark_value, multi_select_scoring, pool_size, pool_quotas, status, opens_at, closes_at, identity_mode, identity_field_label, roster_id, access_code"
       )
       .eq("user_id", user!.id)
       .order("created_at", { ascending: false });
@@ -153,34 +237,32 @@ const [negativeMarkValue, setNegativeMarkValue] = useState(0);
     }
   };
 
-  /* -----------------------------------
-     SHARE LINK
-  ----------------------------------- */
-  const copyShareLink = (quiz: Quiz) => {
-    const url = `${window.location.origin}/quiz/share/${quiz.share_token}`;
-    navigator.clipboard.writeText(url);
-
-    setCopiedId(quiz.id);
-    toast({ title: "Link copied!" });
-
-    setTimeout(() => setCopiedId(null), 2000);
-  };
-
   /* -----------------------------------
      OPEN SETTINGS MODAL
   ----------------------------------- */
   const openSettings = (quiz: Quiz) => {
     setSelectedQuiz(quiz);
     setSharingEnabled(quiz.sharing_enabled ?? true);
+    setQuizStatus(quiz.status ?? "published");
+    setOpensAt(toLocalInput(quiz.opens_at));
+    setClosesAt(toLocalInput(quiz.closes_at));
     setShowAnswers(quiz.show_answers ?? true);
 
+    setIdentityMode(quiz.identity_mode ?? "name");
+    setIdentityFieldLabel(quiz.identity_field_label ?? "");
+    setRosterId(quiz.roster_id ?? null);
+    loadRosters();
+    loadAssignments(quiz.id);
+
     setDuration(quiz.duration_minutes ?? null);
 
     setPreventTabSwitch(quiz.prevent_tab_switch ?? false);
+    setRequireFullscreen(quiz.require_fullscreen ?? false);
     setTabWarnings(quiz.tab_switch_warnings ?? 2);
 
     setPreventCopyPaste(quiz.prevent_copy_paste ?? false);
     setRandomiseQuestions(quiz.randomise_questions ?? false);
+    setRandomiseOptions(quiz.randomise_options ?? false);
 
 
 
@@ -189,10 +271,97 @@ const [negativeMarkValue, setNegativeMarkValue] = useState(0);
     setMaxRetries(retries);
     setNegativeMarkingEnabled(quiz.negative_marking_enabled ?? false);
     setNegativeMarkValue(quiz.negative_mark_value ?? 0);
+    setMultiSelectScoring(quiz.multi_select_scoring ?? "all_or_nothing");
+
+    const quotas = quiz.pool_quotas ?? {};
+    const hasQuotas = Object.keys(quotas).length > 0;
+    setPoolEnabled(hasQuotas || (quiz.pool_size ?? 0) > 0);
+    setPoolMode(hasQuotas ? "sections" : "all");
+    setPoolSize(quiz.pool_size || Math.min(quiz.question_count || 10, 10));
+    setPoolQuotas(quotas);
+    loadSectionCounts(quiz.id);
 
     setSettingsOpen(true);
   };
 
+  const loadRosters = async () => {
+    const { data } = await supabase
+      .from("rosters")
+      .select("id, name, roster_groups(id, roster_id, name)")
+      .eq("user_id", user!.id)
+      .order("name");
+
+    setRosters(data || []);
+  };
+
+  const rosterGroups =
+    rosters.find((r) => r.id === rosterId)?.roster_groups ?? [];
+
+  const loadAssignments = async (quizId: string) => {
+    const { data } = await supabase
+      .from("quiz_group_assignments")
+      .select("group_id, opens_at, closes_at, max_retries")
+      .eq("quiz_id", quizId);
+
+    setAssignments(
+      Object.fromEntries(
+        ((data || []) as GroupAssignment[]).map((a) => [
+          a.group_id,
+          {
+            opensAt: toLocalInput(a.opens_at),
+            closesAt: toLocalInput(a.closes_at),
+            maxRetries: a.max_retries === null ? "" : String(a.max_retries),
+          },
+        ])
+      )
+    );
+  };
+
+  // Replaces the quiz's assignments with the groups ticked in settings
+  const saveAssignments = async (quizId: string) => {
+    const rows: (GroupAssignment & { quiz_id: string })[] = Object.entries(
+      assignments
+    ).map(([groupId, a]) => ({
+      quiz_id: quizId,
+      group_id: groupId,
+      opens_at: fromLocalInput(a.opensAt),
+      closes_at: fromLocalInput(a.closesAt),
+      max_retries: a.maxRetries === "" ? null : Math.max(Number(a.maxRetries), 1),
+    }));
+
+    const stale = supabase
+      .from("quiz_group_assignments")
+      .delete()
+      .eq("quiz_id", quizId);
+
+    const { error: deleteError } = rows.length
+      ? await stale.not("group_id", "in", `(${rows.map((r) => r.group_id).join(",")})`)
+      : await stale;
+
+    if (deleteError || !rows.length) return deleteError;
+
+    const { error } = await supabase
+      .from("quiz_group_assignments")
+      .upsert(rows, { onConflict: "quiz_id,group_id" });
+
+    return error;
+  };
+
+  const loadSectionCounts = async (quizId: string) => {
+    const { data } = await supabase
+      .from("questions")
+      .select("section")
+      .eq("quiz_id", quizId);
+
+    const counts: Record<string, number> = {};
+    (data || []).forEach((q) => {
+      const key = q.section ?? "";
+      counts[key] = (counts[key] || 0) + 1;
+    });
+
+    setSectionCounts(counts);
+  };
+
   /* -----------------------------------
      SAVE SETTINGS
   ----------------------------------- */
@@ -201,26 +370,77 @@ const [negativeMarkValue, setNegativeMarkValue] = useState(0);
 
     const finalRetries = retriesEnabled ? maxRetries : 0;
 
+    if (opensAt && closesAt && new Date(closesAt) <= new Date(opensAt)) {
+      toast({
+        title: "Closing time must be after opening time",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (identityMode === "roster" && !rosterId) {
+      toast({
+        title: "Choose a roster for roster-validated IDs",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const badWindow = Object.values(assignments).some(
+      (a) => a.opensAt && a.closesAt && new Date(a.closesAt) <= new Date(a.opensAt)
+    );
+
+    if (identityMode === "roster" && badWindow) {
+      toast({
+        title: "A group's closing time must be after its opening time",
+        variant: "destructive",
+      });
+      return;
+    }
+
     const { error } = await supabase
       .from("quizzes")
       .update({
+        status: quizStatus,
+        identity_mode: identityMode,
+        identity_field_label:
+          identityMode === "name_field" ? identityFieldLabel.trim() || null : null,
+        roster_id: identityMode === "roster" ? rosterId : null,
+        opens_at: fromLocalInput(opensAt),
+        closes_at: fromLocalInput(closesAt),
         duration_minutes: duration,
         max_retries: finalRetries,
         sharing_enabled: sharingEnabled,
         show_answers: showAnswers,
         prevent_tab_switch: preventTabSwitch,
         tab_switch_warnings: tabWarnings,
+        require_fullscreen: requireFullscreen,
         prevent_copy_paste: preventCopyPaste,
         randomise_questions: randomiseQuestions,
+        randomise_options: randomiseOptions,
         negative_marking_enabled: negativeMarkingEnabled,
         negative_mark_value: negativeMarkingEnabled ? negativeMarkValue : 0,
+        multi_select_scoring: multiSelectScoring,
+        pool_size: poolEnabled && poolMode === "all" ? poolSize : null,
+        pool_quotas:
+          poolEnabled && poolMode === "sections"
+            ? Object.fromEntries(
+                Object.entries(poolQuotas).filter(([, n]) => n > 0)
+              )
+            : {},
       })
       .eq("id", selectedQuiz.id);
 
-    if (error) {
+    // Assignments only apply in roster mode, so other modes leave them be
+    const assignmentError =
+      error || identityMode !== "roster"
+        ? null
+        : await saveAssignments(selectedQuiz.id);
+
+    if (error || assignmentError) {
       toast({
         title: "Error saving settings",
-        description: error.message,
+        description: (error || assignmentError)?.message,
         variant: "destructive",
       });
       return;
@@ -232,6 +452,33 @@ const [negativeMarkValue, setNegativeMarkValue] = useState(0);
     fetchQuizzes();
   };
 
+  /* -----------------------------------
+     CLOSE NOW
+  ----------------------------------- */
+  const closeNow = async () => {
+    if (!selectedQuiz) return;
+
+    // Closed on the database clock; sessions still in progress get their
+    // deadline pulled in (DB trigger) and auto-submit on the participant's side
+    const { data: now, error } = await supabase.rpc("close_quiz", {
+      _quiz_id: selectedQuiz.id,
+    });
+
+    if (error) {
+      toast({
+        title: "Error closing quiz",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setClosesAt(toLocalInput(now));
+    setSelectedQuiz({ ...selectedQuiz, closes_at: now });
+    toast({ title: "Quiz closed", description: "In-progress attempts will be submitted." });
+    fetchQuizzes();
+  };
+
   const formatTime = (seconds: number) => {
   const mins = Math.floor(seconds / 60);
   const secs = seconds % 60;
@@ -260,6 +507,10 @@ const clearLeaderboard = async () => {
   setLeaderboardData([]);
 };
 
+  const visibleLeaderboard = leaderboardGroup
+    ? leaderboardData.filter((e) => e.group_id === leaderboardGroup)
+    : leaderboardData;
+
   return (
     <div className="min-h-screen bg-background">
       {/* HEADER */}
@@ -304,13 +555,25 @@ const clearLeaderboard = async () => {
         </div>
 
 
-          <Button
-            onClick={() => navigate("/quiz/create")}
-            className="gradient-primary text-primary-foreground"
-          >
-            <Plus className="mr-2 h-4 w-4" />
-            Create Quiz
-          </Button>
+          <div className="flex flex-col sm:flex-row gap-3">
+            <Button variant="outline" onClick={() => navigate("/bank")}>
+              <Library className="mr-2 h-4 w-4" />
+              Question Bank
+            </Button>
+
+            <Button variant="outline" onClick={() => navigate("/rosters")}>
+              <Users className="mr-2 h-4 w-4" />
+              Rosters
+            </Button>
+
+            <Button
+              onClick={() => navigate("/quiz/create")}
+              className="gradient-primary text-primary-foreground"
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Create Quiz
+            </Button>
+          </div>
         </div>
 
         {/* QUIZ GRID */}
@@ -347,6 +610,10 @@ const clearLeaderboard = async () => {
                     {quiz.title}
                   </h3>
 
+                  <div className="flex justify-center mt-2">
+                    <QuizStateBadge quiz={quiz} />
+                  </div>
+
                   <p className="text-sm text-muted-foreground text-center mt-1">
                     {quiz.question_count} questions •{" "}
                     {format(new Date(quiz.created_at), "MMM d, yyyy")}
@@ -376,13 +643,9 @@ const clearLeaderboard = async () => {
                   <Button
                     size="sm"
                     variant="outline"
-                    onClick={() => copyShareLink(quiz)}
+                    onClick={() => setSharingQuiz(quiz)}
                   >
-                    {copiedId === quiz.id ? (
-                      <Check className="mr-1 h-3.5 w-3.5" />
-                    ) : (
-                      <Share2 className="mr-1 h-3.5 w-3.5" />
-                    )}
+                    <Share2 className="mr-1 h-3.5 w-3.5" />
                     Share
                   </Button>
 
@@ -403,12 +666,18 @@ const clearLeaderboard = async () => {
 
                       const { data } = await supabase
                         .from("quiz_leaderboard")
-                        .select("id, participant_name, score, time_taken_seconds, updated_at")
+                        .select("id, participant_name, score, time_taken_seconds, updated_at, group_id, roster_groups(name)")
                         .eq("quiz_id", quiz.id)
                         .order("score", { ascending: false })
                         .order("time_taken_seconds", { ascending: true });
 
-                      setLeaderboardData(data || []);
+                      setLeaderboardData(
+                        (data || []).map((e) => ({
+                          ...e,
+                          group_name: e.roster_groups?.name ?? null,
+                        }))
+                      );
+                      setLeaderboardGroup(null);
                       setLeaderboardOpen(true);
                     }}
                   >
@@ -476,6 +745,17 @@ const clearLeaderboard = async () => {
         )}
       </main>
 
+      {/* =========================================
+          ✅ SHARE LINKS MODAL
+      ========================================= */}
+      {sharingQuiz && (
+        <ShareLinks
+          quiz={sharingQuiz}
+          onClose={() => setSharingQuiz(null)}
+          onChanged={fetchQuizzes}
+        />
+      )}
+
       {/* =========================================
           ✅ SETTINGS MODAL OVERLAY
       ========================================= */}
@@ -506,6 +786,76 @@ const clearLeaderboard = async () => {
       {/* ✅ BODY */}
       <div className="px-6 py-5 space-y-6 max-h-[70vh] overflow-y-auto">
 
+        {/* -------------------------------
+            SECTION 0: AVAILABILITY
+        -------------------------------- */}
+        <div className="space-y-3">
+          <h3 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+            Availability
+          </h3>
+
+          <div className="rounded-xl border p-4 space-y-4">
+            <div className="grid grid-cols-2 gap-2">
+              {(["draft", "published"] as const).map((s) => (
+                <button
+                  key={s}
+                  type="button"
+                  onClick={() => setQuizStatus(s)}
+                  className={`h-10 rounded-md border text-xs font-medium capitalize transition-all ${
+                    quizStatus === s
+                      ? "bg-primary text-primary-foreground border-primary"
+                      : "bg-muted hover:bg-muted/70 text-muted-foreground"
+                  }`}
+                >
+                  {s}
+                </button>
+              ))}
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              {quizStatus === "draft"
+                ? "Only you can see a draft. The share link stays closed until you publish."
+                : "Published quizzes are open between the times below (leave empty for no limit)."}
+            </p>
+
+            {quizStatus === "published" && (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <label className="text-sm font-medium ml-1">Opens at</label>
+                  <Input
+                    type="datetime-local"
+                    value={opensAt}
+                    className="text-sm"
+                    onChange={(e) => setOpensAt(e.target.value)}
+                  />
+                </div>
+
+                <div className="space-y-1">
+                  <label className="text-sm font-medium ml-1">Closes at</label>
+                  <Input
+                    type="datetime-local"
+                    value={closesAt}
+                    className="text-sm"
+                    onChange={(e) => setClosesAt(e.target.value)}
+                  />
+                </div>
+              </div>
+            )}
+
+            {quizStatus === "published" &&
+              quizState(selectedQuiz) === "open" && (
+                <Button
+                  variant="outline"
+                  className="w-full text-destructive"
+                  onClick={closeNow}
+                >
+                  <Lock className="mr-2 h-4 w-4" />
+                  Close now
+                </Button>
+              )}
+          </div>
+        </div>
+
         {/* -------------------------------
             SECTION 1: TIMER
         -------------------------------- */}
@@ -624,6 +974,276 @@ const clearLeaderboard = async () => {
             />
           </div>
 
+            {/* Shuffle Options */}
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium">
+                Randomise Option Order
+              </p>
+              <p className="text-xs text-muted-foreground">
+                Each participant sees answer choices in their own order
+              </p>
+            </div>
+
+            <Switch
+              checked={randomiseOptions}
+              onCheckedChange={setRandomiseOptions}
+            />
+          </div>
+
+          </div>
+        </div>
+
+        {/* -------------------------------
+            SECTION 3A: PARTICIPANT IDENTITY
+        -------------------------------- */}
+        <div className="space-y-3">
+          <h3 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+            Participant Identity
+          </h3>
+
+          <div className="rounded-xl border p-4 space-y-4">
+            <div className="grid grid-cols-2 gap-2">
+              {IDENTITY_MODES.map((m) => (
+                <button
+                  key={m.value}
+                  type="button"
+                  onClick={() => setIdentityMode(m.value)}
+                  className={`h-10 rounded-md border text-xs font-medium transition-all ${
+                    identityMode === m.value
+                      ? "bg-primary text-primary-foreground border-primary"
+                      : "bg-muted hover:bg-muted/70 text-muted-foreground"
+                  }`}
+                >
+                  {m.label}
+                </button>
+              ))}
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              {IDENTITY_MODES.find((m) => m.value === identityMode)?.hint}.
+              Retry limits and the leaderboard count each identity once.
+            </p>
+
+            {identityMode === "name_field" && (
+              <div className="space-y-1">
+                <label className="text-sm font-medium ml-1">Field label</label>
+                <Input
+                  value={identityFieldLabel}
+                  onChange={(e) => setIdentityFieldLabel(e.target.value)}
+                  placeholder={DEFAULT_IDENTITY_FIELD_LABEL}
+                />
+              </div>
+            )}
+
+            {identityMode === "roster" && (
+              <div className="space-y-1">
+                <label className="text-sm font-medium ml-1">Roster</label>
+                {rosters.length === 0 ? (
+                  <p className="text-xs text-muted-foreground ml-1">
+                    No rosters yet.{" "}
+                    <button
+                      type="button"
+                      className="underline"
+                      onClick={() => navigate("/rosters")}
+                    >
+                      Create one
+                    </button>
+                  </p>
+                ) : (
+                  <select
+                    value={rosterId ?? ""}
+                    onChange={(e) => {
+                      setRosterId(e.target.value || null);
+                      setAssignments({});
+                    }}
+                    className="h-10 w-full rounded-md border bg-background px-3 text-sm"
+                  >
+                    <option value="">Choose a roster…</option>
+                    {rosters.map((r) => (
+                      <option key={r.id} value={r.id}>
+                        {r.name}
+                      </option>
+                    ))}
+                  </select>
+                )}
+              </div>
+            )}
+
+            {identityMode === "roster" && rosterGroups.length > 0 && (
+              <div className="space-y-3">
+                <div>
+                  <p className="text-sm font-medium">Assign to Groups</p>
+                  <p className="text-xs text-muted-foreground">
+                    {Object.keys(assignments).length === 0
+                      ? "Not assigned to any group: every student on the roster can take it."
+                      : "Only the groups below can take it. Their windows sit inside the quiz's availability."}
+                  </p>
+                </div>
+
+                {rosterGroups.map((g) => {
+                  const a = assignments[g.id];
+
+                  return (
+                    <div key={g.id} className="rounded-lg border p-3 space-y-3">
+                      <div className="flex items-center justify-between">
+                        <p className="text-sm font-medium">{g.name}</p>
+                        <Switch
+                          checked={!!a}
+                          onCheckedChange={(on) =>
+                            setAssignments((prev) => {
+                              const next = { ...prev };
+                              if (on) next[g.id] = { opensAt: "", closesAt: "", maxRetries: "" };
+                              else delete next[g.id];
+                              return next;
+                            })
+                          }
+                        />
+                      </div>
+
+                      {a && (
+                        <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                          {(
+                            [
+                              ["opensAt", "Opens at", "datetime-local"],
+                              ["closesAt", "Closes at", "datetime-local"],
+                              ["maxRetries", "Max attempts", "number"],
+                            ] as const
+                          ).map(([field, label, type]) => (
+                            <div key={field} className="space-y-1">
+                              <label className="text-xs text-muted-foreground ml-1">
+                                {label}
+                              </label>
+                              <Input
+                                type={type}
+                                min={type === "number" ? 1 : undefined}
+                                value={a[field]}
+                                placeholder={type === "number" ? "Quiz default" : undefined}
+                                onChange={(e) =>
+                                  setAssignments((prev) => ({
+                                    ...prev,
+                                    [g.id]: { ...prev[g.id], [field]: e.target.value },
+                                  }))
+                                }
+                              />
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* -------------------------------
+            SECTION 3B: QUESTION POOL
+        -------------------------------- */}
+        <div className="space-y-3">
+          <h3 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+            Question Pool
+          </h3>
+
+          <div className="rounded-xl border p-4 space-y-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium">Random Question Pool</p>
+                <p className="text-xs text-muted-foreground">
+                  Each participant gets their own random subset
+                </p>
+              </div>
+
+              <Switch checked={poolEnabled} onCheckedChange={setPoolEnabled} />
+            </div>
+
+            {poolEnabled && (
+              <>
+                <div className="grid grid-cols-2 gap-2">
+                  {(
+                    [
+                      { id: "all", label: "Draw from all" },
+                      { id: "sections", label: "Quota per section" },
+                    ] as const
+                  ).map((m) => (
+                    <button
+                      key={m.id}
+                      type="button"
+                      onClick={() => setPoolMode(m.id)}
+                      className={`h-10 rounded-md border text-xs font-medium transition-all ${
+                        poolMode === m.id
+                          ? "bg-primary text-primary-foreground border-primary"
+                          : "bg-muted hover:bg-muted/70 text-muted-foreground"
+                      }`}
+                    >
+                      {m.label}
+                    </button>
+                  ))}
+                </div>
+
+                {poolMode === "all" ? (
+                  <div className="space-y-1">
+                    <Input
+                      type="number"
+                      min={1}
+                      max={selectedQuiz.question_count || undefined}
+                      value={poolSize}
+                      onChange={(e) =>
+                        setPoolSize(Math.max(Number(e.target.value), 1))
+                      }
+                      placeholder="Questions per participant"
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Draw {poolSize} of {selectedQuiz.question_count ?? 0}{" "}
+                      questions
+                    </p>
+                  </div>
+                ) : Object.keys(sectionCounts).length === 0 ? (
+                  <p className="text-xs text-muted-foreground">
+                    This quiz has no questions yet.
+                  </p>
+                ) : (
+                  <div className="space-y-2">
+                    {Object.entries(sectionCounts)
+                      .sort(([a], [b]) => a.localeCompare(b))
+                      .map(([section, count]) => (
+                        <div
+                          key={section}
+                          className="flex items-center justify-between gap-3"
+                        >
+                          <span className="text-sm">
+                            {section || "No section"}{" "}
+                            <span className="text-xs text-muted-foreground">
+                              ({count} questions)
+                            </span>
+                          </span>
+                          <Input
+                            type="number"
+                            min={0}
+                            max={count}
+                            value={poolQuotas[section] ?? 0}
+                            onChange={(e) =>
+                              setPoolQuotas((prev) => ({
+                                ...prev,
+                                [section]: Math.min(
+                                  Math.max(Number(e.target.value), 0),
+                                  count
+                                ),
+                              }))
+                            }
+                            className="w-24"
+                          />
+                        </div>
+                      ))}
+                    <p className="text-xs text-muted-foreground">
+                      Sections are set per question in the quiz editor.
+                      Sections with 0 are left out.
+                    </p>
+                  </div>
+                )}
+              </>
+            )}
           </div>
         </div>
 
@@ -654,7 +1274,24 @@ const clearLeaderboard = async () => {
               />
             </div>
 
-            {preventTabSwitch && (
+            {/* Fullscreen */}
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium">
+                  Require Fullscreen
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Leaving fullscreen pauses the quiz and uses up a warning
+                </p>
+              </div>
+
+              <Switch
+                checked={requireFullscreen}
+                onCheckedChange={setRequireFullscreen}
+              />
+            </div>
+
+            {(preventTabSwitch || requireFullscreen) && (
               <Input
                 type="number"
                 min={1}
@@ -719,6 +1356,42 @@ const clearLeaderboard = async () => {
       />
     )}
 
+    <div className="space-y-2">
+      <div>
+        <p className="text-sm font-medium">
+          Multiple-Select Scoring
+        </p>
+        <p className="text-xs text-muted-foreground">
+          How "select all that apply" questions earn marks
+        </p>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        {(
+          [
+            { id: "all_or_nothing", label: "All or nothing" },
+            { id: "partial", label: "Per option" },
+            { id: "partial_penalty", label: "Penalise wrong picks" },
+          ] as const
+        ).map((mode) => (
+          <button
+            key={mode.id}
+            type="button"
+            onClick={() => setMultiSelectScoring(mode.id)}
+            className={`rounded-xl border px-2 py-2 text-xs font-medium transition-all
+              ${
+                multiSelectScoring === mode.id
+                  ? "bg-primary text-primary-foreground border-primary"
+                  : "bg-muted hover:bg-muted/70 text-muted-foreground"
+              }
+            `}
+          >
+            {mode.label}
+          </button>
+        ))}
+      </div>
+    </div>
+
   </div>
 </div>
       </div>
@@ -781,21 +1454,26 @@ const clearLeaderboard = async () => {
 
         {/* Leaderboard List */}
         <div className="space-y-3">
+          <GroupFilter
+            groups={groupsFrom(leaderboardData)}
+            value={leaderboardGroup}
+            onChange={setLeaderboardGroup}
+          />
 
           {/* Summary Row */}
           <div className="flex justify-between text-sm text-muted-foreground border-b pb-3">
-            <span>Total Participants: {leaderboardData.length}</span>
+            <span>Total Participants: {visibleLeaderboard.length}</span>
             <span>
-              Best Score: {leaderboardData[0]?.score ?? 0}
+              Best Score: {visibleLeaderboard[0]?.score ?? 0}
             </span>
           </div>
 
-          {leaderboardData.length === 0 ? (
+          {visibleLeaderboard.length === 0 ? (
             <p className="text-sm text-muted-foreground text-center">
               No attempts yet.
             </p>
           ) : (
-            leaderboardData.map((entry, index) => {
+            visibleLeaderboard.map((entry, index) => {
               const totalQuestions = selectedQuiz?.question_count || 0;
               const percentage =
                 totalQuestions > 0
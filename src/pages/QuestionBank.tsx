@@ -0,0 +1,397 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useAuth } from "@/lib/auth";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Brain,
+  ArrowLeft,
+  Plus,
+  Pencil,
+  Trash2,
+  Save,
+  X,
+  Library,
+} from "lucide-react";
+import QuestionEditor from "@/components/quiz/QuestionEditor";
+import BankFilterBar from "@/components/quiz/BankFilterBar";
+import {
+  BankFilter,
+  BankQuestion,
+  DIFFICULTIES,
+  Difficulty,
+  QuestionDraft,
+  bankTags,
+  blankQuestion,
+  filterBank,
+  formatAnswerKey,
+  normalizeQuestion,
+  parseTags,
+  questionColumns,
+  validateQuestion,
+} from "@/lib/quiz";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+
+interface BankDraft extends QuestionDraft {
+  id?: string;
+  tagsText: string;
+  difficulty: Difficulty | null;
+}
+
+const TYPE_LABELS: Record<string, string> = {
+  single: "Single answer",
+  multiple: "Select all that apply",
+  true_false: "True / False",
+  numeric: "Numeric",
+  short_text: "Short text",
+};
+
+export default function QuestionBank() {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const [bank, setBank] = useState<BankQuestion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState<BankFilter>({
+    search: "",
+    tags: [],
+    difficulty: null,
+  });
+  const [draft, setDraft] = useState<BankDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const loadBank = async () => {
+    const { data, error } = await supabase
+      .from("question_bank")
+      .select("*")
+      .order("updated_at", { ascending: false });
+
+    if (error) {
+      toast({
+        title: "Could not load question bank",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+
+    setBank((data as BankQuestion[]) || []);
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    loadBank();
+  }, []);
+
+  /* ---------------- EDITOR ---------------- */
+
+  const openNew = () =>
+    setDraft({
+      ...blankQuestion(),
+      tagsText: filter.tags.join(", "),
+      difficulty: filter.difficulty,
+    });
+
+  const openEdit = (q: BankQuestion) =>
+    setDraft({
+      ...normalizeQuestion(q),
+      id: q.id,
+      tagsText: q.tags.join(", "),
+      difficulty: q.difficulty,
+    });
+
+  const saveDraft = async () => {
+    if (!draft) return;
+
+    const problem = validateQuestion(draft, "The question");
+    if (problem) {
+      toast({ title: problem, variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+
+    const row = {
+      ...questionColumns(draft),
+      tags: parseTags(draft.tagsText),
+      difficulty: draft.difficulty,
+    };
+
+    // Updates also refresh every quiz question linked to this one (DB trigger)
+    const { error } = draft.id
+      ? await supabase.from("question_bank").update(row).eq("id", draft.id)
+      : await supabase
+          .from("question_bank")
+          .insert({ ...row, user_id: user!.id });
+
+    setSaving(false);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({ title: draft.id ? "Question updated" : "Question added to bank" });
+    setDraft(null);
+    loadBank();
+  };
+
+  const deleteQuestion = async (id: string) => {
+    // Linked quiz questions keep their content and become plain copies
+    const { error } = await supabase.from("question_bank").delete().eq("id", id);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setBank((prev) => prev.filter((q) => q.id !== id));
+  };
+
+  const visible = filterBank(bank, filter);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border bg-card/50 backdrop-blur-sm sticky top-0 z-10">
+        <div className="container flex h-16 items-center gap-3">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/dashboard")}>
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <Brain className="h-6 w-6 text-primary" />
+          <span className="font-display text-lg font-bold">Question Bank</span>
+        </div>
+      </header>
+
+      <main className="container py-8 max-w-4xl space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div className="text-center sm:text-left">
+            <h1 className="font-display text-3xl font-bold">Question Bank</h1>
+            <p className="text-muted-foreground mt-1">
+              {bank.length} question{bank.length !== 1 ? "s" : ""} saved for
+              reuse
+            </p>
+          </div>
+
+          <Button
+            onClick={openNew}
+            className="gradient-primary text-primary-foreground"
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            New Question
+          </Button>
+        </div>
+
+        <BankFilterBar filter={filter} onChange={setFilter} tags={bankTags(bank)} />
+
+        {loading ? (
+          <div className="space-y-3">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-24 rounded-lg bg-muted animate-pulse" />
+            ))}
+          </div>
+        ) : visible.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-24 text-center">
+            <div className="h-16 w-16 rounded-2xl gradient-primary flex items-center justify-center mb-4">
+              <Library className="h-8 w-8 text-primary-foreground" />
+            </div>
+            <h3 className="font-display text-xl font-semibold mb-2">
+              {bank.length === 0 ? "Your bank is empty" : "No matches"}
+            </h3>
+            <p className="text-muted-foreground max-w-sm">
+              {bank.length === 0
+                ? "Add questions here, or save them from the quiz builder."
+                : "Try a different search, tag or difficulty."}
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {visible.map((q) => (
+              <div key={q.id} className="glass-card rounded-xl p-5 space-y-3">
+                <div className="flex items-start justify-between gap-3">
+                  <p className="font-medium leading-relaxed whitespace-pre-wrap">
+                    {q.question_text}
+                  </p>
+
+                  <div className="flex shrink-0 gap-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => openEdit(q)}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-destructive"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </AlertDialogTrigger>
+
+                      <AlertDialogContent className="w-[95%] max-w-md rounded-xl p-6 sm:w-full">
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Delete this question?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            Quizzes that link to it keep their own copy.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+
+                        <AlertDialogFooter className="gap-2 sm:gap-0">
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction
+                            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                            onClick={() => deleteQuestion(q.id)}
+                          >
+                            Delete
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+                </div>
+
+                <p className="text-xs text-muted-foreground">
+                  Answer:{" "}
+                  <span className="font-semibold text-foreground">
+                    {formatAnswerKey(normalizeQuestion(q))}
+                  </span>
+                </p>
+
+                <div className="flex flex-wrap gap-2 text-xs">
+                  <span className="rounded-full bg-muted px-2 py-0.5 text-muted-foreground">
+                    {TYPE_LABELS[q.question_type ?? "single"]}
+                  </span>
+                  {q.difficulty && (
+                    <span className="rounded-full bg-muted px-2 py-0.5 capitalize text-muted-foreground">
+                      {q.difficulty}
+                    </span>
+                  )}
+                  {q.tags.map((tag) => (
+                    <span
+                      key={tag}
+                      className="rounded-full bg-primary/10 px-2 py-0.5 text-primary"
+                    >
+                      #{tag}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </main>
+
+      {/* =========================================
+          EDIT / CREATE MODAL
+      ========================================= */}
+      {draft && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+          <div className="w-full max-w-3xl rounded-2xl bg-card shadow-2xl overflow-hidden animate-scale-in">
+            {/* HEADER */}
+            <div className="flex items-center justify-between px-6 py-4 border-b">
+              <div>
+                <h2 className="font-display text-xl font-bold">
+                  {draft.id ? "Edit Question" : "New Question"}
+                </h2>
+                {draft.id && (
+                  <p className="text-sm text-muted-foreground">
+                    Quizzes linked to this question update too
+                  </p>
+                )}
+              </div>
+
+              <Button size="icon" variant="ghost" onClick={() => setDraft(null)}>
+                <X className="h-5 w-5" />
+              </Button>
+            </div>
+
+            {/* BODY */}
+            <div className="px-6 py-5 space-y-5 max-h-[70vh] overflow-y-auto">
+              <QuestionEditor question={draft} onChange={setDraft} />
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label className="text-xs text-muted-foreground">
+                    Tags (comma separated)
+                  </Label>
+                  <Input
+                    value={draft.tagsText}
+                    onChange={(e) =>
+                      setDraft({ ...draft, tagsText: e.target.value })
+                    }
+                    placeholder="e.g. algebra, chapter 2"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label className="text-xs text-muted-foreground">
+                    Difficulty
+                  </Label>
+                  <div className="grid grid-cols-3 gap-2">
+                    {DIFFICULTIES.map((d) => (
+                      <button
+                        key={d.id}
+                        type="button"
+                        onClick={() =>
+                          setDraft({
+                            ...draft,
+                            difficulty: draft.difficulty === d.id ? null : d.id,
+                          })
+                        }
+                        className={`h-10 rounded-md border text-xs font-medium transition-all ${
+                          draft.difficulty === d.id
+                            ? "bg-primary text-primary-foreground border-primary"
+                            : "bg-muted hover:bg-muted/70 text-muted-foreground"
+                        }`}
+                      >
+                        {d.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            </div>
+
+            {/* FOOTER */}
+            <div className="px-6 py-4 border-t bg-muted/30">
+              <Button
+                className="w-full gradient-primary text-primary-foreground"
+                onClick={saveDraft}
+                disabled={saving}
+              >
+                <Save className="mr-2 h-4 w-4" />
+                {saving ? "Saving..." : "Save Question"}
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
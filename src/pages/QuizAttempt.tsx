@@ -1,10 +1,24 @@
 import { useEffect, useState } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
-import { useAuth } from "@/lib/auth";
 
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
+import { readQuestionTimes, useQuestionTimer } from "@/hooks/use-question-timer";
+import {
+  AnswerValue,
+  QuestionType,
+  ToleranceType,
+  TextMatchMode,
+  formatAnswerKey,
+  hasOptions,
+  isAnswered,
+  isCorrectOption,
+  isOptionSelected,
+  optionLabel,
+  toggleOption,
+} from "@/lib/quiz";
 
 import {
   AlertDialog,
@@ -17,6 +31,7 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
+import Markdown from "@/components/quiz/Markdown";
 
 import {
   Brain,
@@ -29,15 +44,22 @@ import {
 interface Question {
   id: string;
   question_text: string;
+  question_type: QuestionType;
   options: string[];
   correct_option_index: number;
+  correct_option_indices: number[];
+  numeric_answer: number | null;
+  numeric_tolerance: number;
+  numeric_tolerance_type: ToleranceType;
+  accepted_answers: string[];
+  text_match_mode: TextMatchMode;
+  explanation: string | null;
   order_num: number;
 }
 
 export default function QuizAttempt() {
   const { quizId } = useParams();
   const navigate = useNavigate();
-  const { user } = useAuth();
   const { toast } = useToast();
 
   /* --------------------------------------------
@@ -49,21 +71,21 @@ export default function QuizAttempt() {
 const [questions, setQuestions] = useState<Question[]>(() => {
   return JSON.parse(localStorage.getItem("creator_questions") || "[]");
 });
-const [answers, setAnswers] = useState<Record<string, number>>(() => {
+const [answers, setAnswers] = useState<Record<string, AnswerValue>>(() => {
   return JSON.parse(localStorage.getItem("creator_answers") || "{}");
 });
 
   const [submitted, setSubmitted] = useState(false);
   const [score, setScore] = useState(0);
+  const [questionCredits, setQuestionCredits] = useState<Record<string, number> | null>(null);
 
   const [loading, setLoading] = useState(true);
 
-  /* TIMER */
+  /* TIMER (deadline comes from the server session) */
   const [durationMinutes, setDurationMinutes] = useState<number | null>(null);
-const [timeLeft, setTimeLeft] = useState<number | null>(() => {
-  const saved = localStorage.getItem("creator_time_left");
-  return saved ? Number(saved) : null;
-});
+  const [timeLeft, setTimeLeft] = useState<number | null>(null);
+  const [expiresAt, setExpiresAt] = useState<number | null>(null);
+  const [sessionId, setSessionId] = useState<string | null>(null);
 
   /* NAVIGATION */
   const [navOpen, setNavOpen] = useState(false);
@@ -88,34 +110,51 @@ const [timeLeft, setTimeLeft] = useState<number | null>(() => {
         .eq("id", quizId)
         .maybeSingle();
 
-      const { data: qs } = await supabase
+      const { data: allQuestions } = await supabase
         .from("questions")
         .select("*")
         .eq("quiz_id", quizId)
         .order("order_num");
 
+      let qs = allQuestions;
+
       if (quiz) {
         setQuizTitle(quiz.title);
 
         if (quiz.duration_minutes) {
           setDurationMinutes(quiz.duration_minutes);
-          const savedTime = localStorage.getItem("creator_time_left");
+        }
+
+        // ✅ Start or resume the server session (refresh cannot reset timer)
+        const { data: sessions } = await supabase.rpc("start_quiz_session", {
+          _quiz_id: quizId,
+        });
+
+        const session = sessions?.[0];
+
+        if (session) {
+          setSessionId(session.session_id);
 
-          if (savedTime) {
-            setTimeLeft(Number(savedTime));
-          } else {
-            setTimeLeft(quiz.duration_minutes * 60);
+          // ✅ Same random pool / order a participant would get
+          const drawn: string[] | null = session.question_ids;
+          if (drawn && allQuestions) {
+            qs = allQuestions
+              .filter((q) => drawn.includes(q.id))
+              .sort((a, b) => drawn.indexOf(a.id) - drawn.indexOf(b.id));
           }
 
+          if (session.expires_at) {
+            const skew = Date.now() - new Date(session.server_now).getTime();
+            const deadline = new Date(session.expires_at).getTime() + skew;
+
+            setExpiresAt(deadline);
+            setTimeLeft(
+              Math.max(Math.ceil((deadline - Date.now()) / 1000), 0),
+            );
+          }
         }
       }
 
-      // Save start time
-      localStorage.setItem(
-        "creator_quiz_start_time",
-        Date.now().toString()
-      );
-
       if (qs) {
   setQuestions(qs);
 
@@ -134,6 +173,13 @@ const [timeLeft, setTimeLeft] = useState<number | null>(() => {
   localStorage.setItem("creator_answers", JSON.stringify(answers));
 }, [answers]);
 
+  /* PER-QUESTION TIME (question in view) */
+  useQuestionTimer(
+    "creator_question_times",
+    questions[currentQuestion]?.id,
+    !loading && !submitted,
+  );
+
   /* --------------------------------------------
      TIMER COUNTDOWN
   -------------------------------------------- */
@@ -153,11 +199,12 @@ const [timeLeft, setTimeLeft] = useState<number | null>(() => {
     }
 
     const interval = setInterval(() => {
-      setTimeLeft((prev) => (prev !== null ? prev - 1 : null));
+      if (expiresAt === null) return;
+      setTimeLeft(Math.max(Math.ceil((expiresAt - Date.now()) / 1000), 0));
     }, 1000);
 
     return () => clearInterval(interval);
-  }, [timeLeft, submitted]);
+  }, [timeLeft, submitted, expiresAt]);
 
   /* --------------------------------------------
      FORMAT TIMER
@@ -168,21 +215,24 @@ const [timeLeft, setTimeLeft] = useState<number | null>(() => {
     return `${mins}:${secs.toString().padStart(2, "0")}`;
   };
 
-useEffect(() => {
-  if (timeLeft === null) return;
-
-  localStorage.setItem("creator_time_left", timeLeft.toString());
-}, [timeLeft]);
-
 
   /* --------------------------------------------
      SELECT ANSWER
   -------------------------------------------- */
-const selectAnswer = (questionId: string, optionIndex: number) => {
+const selectAnswer = (question: Question, optionIndex: number) => {
   if (submitted) return;
 
   setAnswers((prev) => {
-    const updated = { ...prev, [questionId]: optionIndex };
+    const updated: Record<string, AnswerValue> = { ...prev };
+
+    if (question.question_type === "multiple") {
+      const next = toggleOption(prev[question.id], optionIndex);
+
+      if (next.length > 0) updated[question.id] = next;
+      else delete updated[question.id];
+    } else {
+      updated[question.id] = optionIndex;
+    }
 
     // ✅ Save instantly
     localStorage.setItem("creator_answers", JSON.stringify(updated));
@@ -192,6 +242,22 @@ const selectAnswer = (questionId: string, optionIndex: number) => {
 };
 
 
+  // Numeric / short text answers are stored as typed
+  const setTextAnswer = (questionId: string, value: string) => {
+    if (submitted) return;
+
+    setAnswers((prev) => {
+      const updated: Record<string, AnswerValue> = { ...prev };
+
+      if (value.trim()) updated[questionId] = value;
+      else delete updated[questionId];
+
+      localStorage.setItem("creator_answers", JSON.stringify(updated));
+
+      return updated;
+    });
+  };
+
   /* --------------------------------------------
      SUBMIT WARNING LOGIC
   -------------------------------------------- */
@@ -211,45 +277,32 @@ const selectAnswer = (questionId: string, optionIndex: number) => {
      SUBMIT QUIZ
   -------------------------------------------- */
   const handleSubmit = async (auto = false) => {
-    let correct = 0;
-
-    questions.forEach((q) => {
-      if (answers[q.id] === q.correct_option_index) correct++;
+    // ✅ Same server-side grading as shared attempts
+    const { data, error } = await supabase.functions.invoke("submit-attempt", {
+      body: {
+        quizId,
+        sessionId,
+        answers,
+        questionTimes: readQuestionTimes("creator_question_times"),
+      },
     });
 
-    setScore(correct);
-    setSubmitted(true);
-
-    let timeTakenSeconds = 0;
-
-    if (durationMinutes && timeLeft !== null) {
-      timeTakenSeconds = durationMinutes * 60 - timeLeft;
-    }
-
-    const startTime = localStorage.getItem("creator_quiz_start_time");
-    if (startTime) {
-      timeTakenSeconds = Math.floor(
-        (Date.now() - Number(startTime)) / 1000
-      );
+    if (error || !data) {
+      toast({
+        title: "Submission failed",
+        description: error?.message ?? "Please try again.",
+        variant: "destructive",
+      });
+      return;
     }
 
-    timeTakenSeconds = Math.max(timeTakenSeconds, 1);
-
-    await supabase.from("quiz_attempts").insert({
-      quiz_id: quizId!,
-      user_id: user?.id || null,
-      participant_name: "Creator",
-      answers,
-      score: correct,
-      total_questions: questions.length,
-      time_taken_seconds: timeTakenSeconds,
-    });
+    setScore(data.score);
+    setQuestionCredits(data.question_credits);
+    setSubmitted(true);
 
-    localStorage.removeItem("creator_quiz_start_time");
     localStorage.removeItem("creator_questions");
-localStorage.removeItem("creator_answers");
-localStorage.removeItem("creator_time_left");
-localStorage.removeItem("creator_quiz_start_time");
+    localStorage.removeItem("creator_answers");
+    localStorage.removeItem("creator_question_times");
 
   };
 
@@ -315,8 +368,6 @@ localStorage.removeItem("creator_quiz_start_time");
     );
   }
 
-  const optionLabels = ["A", "B", "C", "D"];
-
   /* --------------------------------------------
      MAIN UI
   -------------------------------------------- */
@@ -378,51 +429,109 @@ localStorage.removeItem("creator_quiz_start_time");
                 {q.question_text}
               </p>
 
-              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
-                {q.options.map((opt, oIndex) => {
-                  const isSelected = answers[q.id] === oIndex;
+              {q.question_type === "multiple" && (
+                <p className="text-xs text-muted-foreground -mt-1 mb-3">
+                  Select all that apply
+                </p>
+              )}
+
+              {hasOptions(q.question_type) ? (
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+                  {q.options.map((opt, oIndex) => {
+                    const isSelected = isOptionSelected(answers[q.id], oIndex);
+                    const isCorrect = isCorrectOption(
+                      q.question_type === "multiple"
+                        ? q.correct_option_indices
+                        : q.correct_option_index,
+                      oIndex
+                    );
 
-                  let borderClass =
-                    "border-border hover:border-primary/30";
+                    let borderClass =
+                      "border-border hover:border-primary/30";
 
-                  if (isSelected) {
-                    borderClass =
-                      "border-primary bg-primary/10 ring-1 ring-primary";
-                  }
+                    if (isSelected) {
+                      borderClass =
+                        "border-primary bg-primary/10 ring-1 ring-primary";
+                    }
 
-                  return (
-                    <button
-                      key={oIndex}
-                      onClick={() => selectAnswer(q.id, oIndex)}
-                      disabled={submitted}
-                      className={`flex items-center gap-2 rounded-lg border p-3 text-left transition-all ${borderClass}`}
-                    >
-                      {/* ✅ Option Circle Colors */}
-                      <span
-                        className={`flex h-7 w-7 shrink-0 items-center justify-center rounded-full text-xs font-bold ${
-                          // After submission → show correct/wrong
-                          submitted
-                            ? q.correct_option_index === oIndex
-                              ? "bg-green-600 text-white"
-                              : answers[q.id] === oIndex
-                              ? "bg-red-600 text-white"
+                    return (
+                      <button
+                        key={oIndex}
+                        onClick={() => selectAnswer(q, oIndex)}
+                        disabled={submitted}
+                        className={`flex items-center gap-2 rounded-lg border p-3 text-left transition-all ${borderClass}`}
+                      >
+                        {/* ✅ Option Circle Colors (square = checkbox) */}
+                        <span
+                          className={`flex h-7 w-7 shrink-0 items-center justify-center text-xs font-bold ${
+                            q.question_type === "multiple" ? "rounded-md" : "rounded-full"
+                          } ${
+                            // After submission → show correct/wrong
+                            submitted
+                              ? isCorrect
+                                ? "bg-green-600 text-white"
+                                : isSelected
+                                ? "bg-red-600 text-white"
+                                : "bg-muted text-muted-foreground"
+
+                              // Before submission → show selected
+                              : isSelected
+                              ? "bg-primary text-primary-foreground"
                               : "bg-muted text-muted-foreground"
+                          }`}
+                        >
+                          {optionLabel(oIndex)}
+                        </span>
 
-                            // Before submission → show selected
-                            : answers[q.id] === oIndex
-                            ? "bg-primary text-primary-foreground"
-                            : "bg-muted text-muted-foreground"
-                        }`}
-                      >
-                        {optionLabels[oIndex]}
-                      </span>
 
+                        <span className="text-sm">{opt}</span>
+                      </button>
+                    );
+                  })}
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <Input
+                    type={q.question_type === "numeric" ? "number" : "text"}
+                    step={q.question_type === "numeric" ? "any" : undefined}
+                    inputMode={q.question_type === "numeric" ? "decimal" : "text"}
+                    value={typeof answers[q.id] === "string" ? (answers[q.id] as string) : ""}
+                    onChange={(e) => setTextAnswer(q.id, e.target.value)}
+                    disabled={submitted}
+                    placeholder={
+                      q.question_type === "numeric"
+                        ? "Enter a number"
+                        : "Type your answer"
+                    }
+                    className={`max-w-md ${
+                      submitted && questionCredits
+                        ? questionCredits[q.id] === 1
+                          ? "border-green-600 ring-1 ring-green-600"
+                          : "border-red-600 ring-1 ring-red-600"
+                        : ""
+                    }`}
+                  />
 
-                      <span className="text-sm">{opt}</span>
-                    </button>
-                  );
-                })}
-              </div>
+                  {submitted && (
+                    <p className="text-xs text-muted-foreground">
+                      Correct answer:{" "}
+                      <span className="font-semibold text-foreground">
+                        {formatAnswerKey(q)}
+                      </span>
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {/* Explanation */}
+              {submitted && q.explanation?.trim() && (
+                <div className="mt-4 rounded-lg border border-border bg-muted/40 p-3">
+                  <p className="mb-1 text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+                    Explanation
+                  </p>
+                  <Markdown>{q.explanation}</Markdown>
+                </div>
+              )}
             </div>
           ))}
         </div>
@@ -449,7 +558,7 @@ localStorage.removeItem("creator_quiz_start_time");
 
                 <div className="grid grid-cols-6 sm:grid-cols-8 gap-2 justify-items-center place-content-center">
                   {questions.map((q, i) => {
-                    const answered = answers[q.id] !== undefined;
+                    const answered = isAnswered(answers[q.id]);
                     const active = currentQuestion === i;
 
                     let pillClass =
@@ -491,7 +600,7 @@ localStorage.removeItem("creator_quiz_start_time");
                 {/* Desktop Navigator Pills */}
                 <div className="hidden md:flex flex-1 justify-center gap-2 overflow-x-auto px-2">
                   {questions.map((q, i) => {
-                    const answered = answers[q.id] !== undefined;
+                    const answered = isAnswered(answers[q.id]);
                     const active = currentQuestion === i;
 
                     let pillClass =
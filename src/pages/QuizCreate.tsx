@@ -2,12 +2,20 @@
   import { useNavigate } from "react-router-dom";
   import { useAuth } from "@/lib/auth";
   import { Button } from "@/components/ui/button";
-  import { Brain, PenTool, Sparkles, FileText, ArrowLeft } from "lucide-react";
+  import { Brain, PenTool, Sparkles, FileText, ArrowLeft, BookOpen } from "lucide-react";
   import ManualQuizBuilder from "@/components/quiz/ManualQuizBuilder";
   import AIQuizBuilder from "@/components/quiz/AIQuizBuilder";
   import OCRQuizBuilder from "@/components/quiz/OCRQuizBuilder";
+  import MaterialQuizBuilder from "@/components/quiz/MaterialQuizBuilder";
 
-  type Method = "choose" | "manual" | "ai" | "ocr";
+  type Method = "choose" | "manual" | "ai" | "material" | "ocr";
+
+  const HEADER_TITLES: Record<Exclude<Method, "choose">, string> = {
+    manual: "Manual Creation",
+    ai: "AI Generator",
+    material: "From My Material",
+    ocr: "Document Import",
+  };
 
   export default function QuizCreate() {
     const [method, setMethod] = useState<Method>("choose");
@@ -26,6 +34,12 @@
         title: "AI Generated",
         description: "Enter a topic and let AI create questions for you.",
       },
+      {
+        id: "material" as const,
+        icon: BookOpen,
+        title: "From My Material",
+        description: "Paste a chapter or upload notes; every question cites its source.",
+      },
       {
         id: "ocr" as const,
         icon: FileText,
@@ -44,13 +58,14 @@
               </Button>
               <Brain className="h-6 w-6 text-primary" />
               <span className="font-display text-lg font-bold">
-                {method === "manual" ? "Manual Creation" : method === "ai" ? "AI Generator" : "Document Import"}
+                {HEADER_TITLES[method]}
               </span>
             </div>
           </header>
           <main className="w-full max-w-[1600px] mx-auto py-10 px-10">
             {method === "manual" && <ManualQuizBuilder />}
             {method === "ai" && <AIQuizBuilder />}
+            {method === "material" && <MaterialQuizBuilder />}
             {method === "ocr" && <OCRQuizBuilder />}
           </main>
         </div>
@@ -75,7 +90,7 @@
             <p className="text-muted-foreground">Choose a method to get started.</p>
           </div>
 
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
   {methods.map((m) => (
     <button
       key={m.id}
@@ -4,6 +4,7 @@ import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Brain, ArrowLeft } from "lucide-react";
 import ManualQuizBuilder from "@/components/quiz/ManualQuizBuilder";
+import VersionHistory from "@/components/quiz/VersionHistory";
 
 export default function QuizEdit() {
   const { quizId } = useParams();
@@ -32,9 +33,21 @@ export default function QuizEdit() {
       if (qs) {
         setQuestions(
           qs.map((q) => ({
+            id: q.id,
             question_text: q.question_text,
+            question_type: q.question_type,
             options: q.options,
             correct_option_index: q.correct_option_index,
+            correct_option_indices: q.correct_option_indices,
+            numeric_answer:
+              q.numeric_answer === null ? null : Number(q.numeric_answer),
+            numeric_tolerance: Number(q.numeric_tolerance ?? 0),
+            numeric_tolerance_type: q.numeric_tolerance_type,
+            accepted_answers: q.accepted_answers,
+            text_match_mode: q.text_match_mode,
+            explanation: q.explanation,
+            bank_question_id: q.bank_question_id,
+            section: q.section,
           }))
         );
       }
@@ -63,6 +76,7 @@ export default function QuizEdit() {
         </div>
       </header>
       <main className="container py-8 max-w-3xl">
+        {quizId && <VersionHistory quizId={quizId} />}
         <ManualQuizBuilder
           initialTitle={title}
           initialQuestions={questions}
@@ -26,19 +26,74 @@ import {
 
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import GroupFilter from "@/components/quiz/GroupFilter";
+import { groupsFrom } from "@/lib/roster";
+import ItemAnalysis from "@/components/quiz/ItemAnalysis";
+import ScoreAnalytics from "@/components/quiz/ScoreAnalytics";
+import ProctorTimeline from "@/components/quiz/ProctorTimeline";
+import { averageQuestionTimes, isFastAnswer } from "@/lib/itemAnalysis";
+import { ProctorEvent, isSuspiciousEvent } from "@/lib/proctoring";
+import {
+  AnswerValue,
+  QuestionType,
+  ToleranceType,
+  formatAnswer,
+  formatAnswerKey,
+  optionLabel,
+  QuizVersion,
+} from "@/lib/quiz";
+
+interface Question {
+  id: string;
+  question_text: string;
+  question_type: QuestionType;
+  options: string[];
+  correct_option_index: number;
+  correct_option_indices: number[];
+  numeric_answer: number | null;
+  numeric_tolerance: number;
+  numeric_tolerance_type: ToleranceType;
+  accepted_answers: string[];
+  order_num: number;
+}
 
 interface Attempt {
   id: string;
   participant_name: string;
+  // Resolved identity (see public.resolve_participant) and its readable ID
+  participant_key: string;
+  participant_identity?: string | null;
+  // Roster group at the time of the attempt
+  group_id?: string | null;
+  group_name?: string | null;
+  // Extra share link the attempt came through (none = the main link)
+  share_link_id?: string | null;
+  link_label?: string | null;
   score: number;
   total_questions: number;
   completed_at: string;
   time_taken_seconds?: number;
   tab_switch_count?: number;
+  is_late?: boolean;
+  answers?: Record<string, AnswerValue>;
+  question_credits?: Record<string, number>;
+  // Drawn set (random pools), in the order the participant saw it
+  question_ids?: string[] | null;
+  // Shuffled options: question id → original indices in display order
+  option_orders?: Record<string, number[]>;
+  // Seconds each question was in view
+  question_times?: Record<string, number>;
+  proctor_events?: ProctorEvent[];
+  // Left out of the log because one event type went over its cap
+  proctor_events_dropped?: number;
+  // Published quiz version the attempt was graded against
+  version_id?: string | null;
 }
 
 interface LeaderboardEntry {
   participant_name: string;
+  participant_key: string;
   correct_count: number;
   total_questions: number;
 }
@@ -53,23 +108,49 @@ export default function QuizHistory() {
   const [filter, setFilter] = useState<"latest" | "highest">("latest");
   const [expandedUser, setExpandedUser] = useState<string | null>(null);
   const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([]);
+  const [questions, setQuestions] = useState<Question[]>([]);
+  const [versions, setVersions] = useState<QuizVersion[]>([]);
+  const [reviewAttemptId, setReviewAttemptId] = useState<string | null>(null);
+  const [timelineAttemptId, setTimelineAttemptId] = useState<string | null>(null);
+  const [groupId, setGroupId] = useState<string | null>(null);
 
   /* ---------------- LOAD ---------------- */
 useEffect(() => {
   const loadData = async () => {
     const { data: attemptsData } = await supabase
       .from("quiz_attempts")
-      .select("*")
+      .select("*, roster_groups(name), quiz_share_links(label)")
       .eq("quiz_id", quizId)
       .order("completed_at", { ascending: false });
 
     const { data: leaderboardData } = await supabase
       .from("quiz_leaderboard")
-      .select("participant_name, correct_count, total_questions")
+      .select("participant_name, participant_key, correct_count, total_questions")
       .eq("quiz_id", quizId);
 
-    if (attemptsData) setAttempts(attemptsData);
+    const { data: questionsData } = await supabase
+      .from("questions")
+      .select("*")
+      .eq("quiz_id", quizId)
+      .order("order_num");
+
+    if (attemptsData) {
+      setAttempts(
+        attemptsData.map((a) => ({
+          ...a,
+          group_name: a.roster_groups?.name ?? null,
+          link_label: a.quiz_share_links?.label ?? null,
+        }))
+      );
+    }
     if (leaderboardData) setLeaderboard(leaderboardData);
+    const { data: versionsData } = await supabase
+      .from("quiz_versions")
+      .select("id, version_number, title, questions, created_at")
+      .eq("quiz_id", quizId);
+
+    if (questionsData) setQuestions(questionsData);
+    if (versionsData) setVersions(versionsData as QuizVersion[]);
   };
 
   loadData();
@@ -84,6 +165,26 @@ useEffect(() => {
   return { radius, circumference, offset };
 };
 
+  const attemptVersion = (a: Attempt) =>
+    versions.find((v) => v.id === a.version_id);
+
+  // Render against the version the attempt was taken on (unversioned
+  // attempts fall back to the current questions). Older attempts have no
+  // drawn set → they saw every question.
+  const attemptQuestions = (a: Attempt): Question[] => {
+    const source =
+      (attemptVersion(a)?.questions as Question[] | undefined) ?? questions;
+
+    return a.question_ids
+      ? a.question_ids
+          .map((id) => source.find((q) => q.id === id))
+          .filter((q): q is Question => !!q)
+      : source;
+  };
+
+  const suspiciousCount = (a: Attempt) =>
+    (a.proctor_events ?? []).filter((e) => isSuspiciousEvent(e.type)).length;
+
   const getScorePercent = (score: number, total: number) =>
     Math.round((score / total) * 100);
 
@@ -101,9 +202,17 @@ useEffect(() => {
   };
 
   /* ---------------- GROUP ---------------- */
+  // Roster group filter: applies to every tab and the CSV export
+  const groupAttempts = useMemo(
+    () => (groupId ? attempts.filter((a) => a.group_id === groupId) : attempts),
+    [attempts, groupId]
+  );
+
   const groupedAttempts = useMemo(() => {
-    let filtered = attempts.filter((a) =>
-      a.participant_name.toLowerCase().includes(search.toLowerCase())
+    let filtered = groupAttempts.filter((a) =>
+      [a.participant_name, a.participant_identity ?? ""].some((v) =>
+        v.toLowerCase().includes(search.toLowerCase())
+      )
     );
 
     filtered = [...filtered].sort((a, b) => {
@@ -114,19 +223,26 @@ useEffect(() => {
       );
     });
 
+    // One group per resolved identity: two "Sam"s with different roll
+    // numbers stay apart
     const groups: Record<string, Attempt[]> = {};
     filtered.forEach((a) => {
-      if (!groups[a.participant_name]) groups[a.participant_name] = [];
-      groups[a.participant_name].push(a);
+      if (!groups[a.participant_key]) groups[a.participant_key] = [];
+      groups[a.participant_key].push(a);
     });
 
     return groups;
-  }, [attempts, search, filter]);
+  }, [groupAttempts, search, filter]);
+
+  const averageTimes = useMemo(
+    () => averageQuestionTimes(groupAttempts),
+    [groupAttempts]
+  );
 
   const leaderboardMap = useMemo(() => {
   const map: Record<string, LeaderboardEntry> = {};
   leaderboard.forEach((entry) => {
-    map[entry.participant_name] = entry;
+    map[entry.participant_key] = entry;
   });
   return map;
 }, [leaderboard]);
@@ -139,29 +255,51 @@ useEffect(() => {
     setLoadingId(null);
   };
 
-  const deleteUserAttempts = async (name: string) => {
+  const deleteUserAttempts = async (participantKey: string) => {
     await supabase
       .from("quiz_attempts")
       .delete()
       .eq("quiz_id", quizId)
-      .eq("participant_name", name);
+      .eq("participant_key", participantKey);
 
-    setAttempts((prev) => prev.filter((a) => a.participant_name !== name));
+    setAttempts((prev) =>
+      prev.filter((a) => a.participant_key !== participantKey)
+    );
   };
 
   /* ---------------- EXPORT ---------------- */
   const exportCSV = () => {
-    if (!attempts.length) return;
+    if (!groupAttempts.length) return;
 
+    // Stored answers use original option indices, so shuffling never
+    // changes what a column means
     const rows = [
-      ["Name", "Score", "Total Questions", "Time Taken", "Tab Switches", "Completed At"],
-      ...attempts.map((a) => [
+      [
+        "Name",
+        "ID",
+        "Group",
+        "Link",
+        "Score",
+        "Total Questions",
+        "Time Taken",
+        "Tab Switches",
+        "Completed At",
+        ...questions.map((_, i) => `Q${i + 1}`),
+      ],
+      ...groupAttempts.map((a) => [
         a.participant_name,
+        a.participant_identity ?? "",
+        a.group_name ?? "",
+        a.link_label ?? "",
         a.score,
         a.total_questions,
         formatDuration(a.time_taken_seconds),
         a.tab_switch_count ?? 0,
         new Date(a.completed_at).toLocaleString(),
+        ...questions.map((q) => {
+          const taken = attemptQuestions(a).find((t) => t.id === q.id);
+          return taken ? formatAnswer(taken, a.answers?.[q.id]) : "";
+        }),
       ]),
     ];
 
@@ -194,7 +332,7 @@ useEffect(() => {
             <div>
               <h1 className="text-lg font-bold">Attempt History</h1>
               <p className="text-xs text-muted-foreground">
-                {attempts.length} attempts
+                {groupAttempts.length} attempts
               </p>
             </div>
           </div>
@@ -203,7 +341,7 @@ useEffect(() => {
             variant="outline"
             size="sm"
             onClick={exportCSV}
-            disabled={!attempts.length}
+            disabled={!groupAttempts.length}
           >
             <Download className="h-4 w-4 mr-2" />
             Export CSV
@@ -213,291 +351,460 @@ useEffect(() => {
 
       {/* MAIN */}
       <main className="container max-w-6xl py-10 space-y-6">
-        {/* SEARCH */}
-        <div className="flex flex-col sm:flex-row gap-3">
-          <div className="relative flex-1">
-            <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
-            <Input
-              placeholder="Search student..."
-              value={search}
-              onChange={(e) => setSearch(e.target.value)}
-              className="pl-9"
-            />
-          </div>
-
-          <div className="flex gap-2">
-            <Button
-              variant={filter === "latest" ? "default" : "outline"}
-              size="sm"
-              onClick={() => setFilter("latest")}
-            >
-              Latest
-            </Button>
+        <GroupFilter
+          groups={groupsFrom(attempts)}
+          value={groupId}
+          onChange={setGroupId}
+        />
+
+        <Tabs defaultValue="attempts" className="space-y-6">
+          <TabsList>
+            <TabsTrigger value="attempts">Attempts</TabsTrigger>
+            <TabsTrigger value="analytics">Analytics</TabsTrigger>
+            <TabsTrigger value="items">Item analysis</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="attempts" className="space-y-6">
+            {/* SEARCH */}
+            <div className="flex flex-col sm:flex-row gap-3">
+              <div className="relative flex-1">
+                <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search student..."
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  className="pl-9"
+                />
+              </div>
 
-            <Button
-              variant={filter === "highest" ? "default" : "outline"}
-              size="sm"
-              onClick={() => setFilter("highest")}
-            >
-              Highest
-            </Button>
-          </div>
-        </div>
+              <div className="flex gap-2">
+                <Button
+                  variant={filter === "latest" ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setFilter("latest")}
+                >
+                  Latest
+                </Button>
+
+                <Button
+                  variant={filter === "highest" ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setFilter("highest")}
+                >
+                  Highest
+                </Button>
+              </div>
+            </div>
 
-        {/* USERS */}
-        {Object.entries(groupedAttempts).map(([name, userAttempts]) => (
-          <div key={name} className="rounded-2xl border bg-card overflow-hidden">
+            {/* USERS */}
+            {Object.entries(groupedAttempts).map(([key, userAttempts]) => (
+              <div key={key} className="rounded-2xl border bg-card overflow-hidden">
             
-            {/* PROFILE HEADER */}
-            <button
-              onClick={() =>
-                setExpandedUser(expandedUser === name ? null : name)
-              }
-              className="w-full flex items-center justify-between px-6 py-5 hover:bg-muted/30 transition"
-            >
-              <div className="flex items-center gap-6 relative">
-                {/* LETTER PROFILE CARD */}
-                {leaderboardMap[name] && (() => {
-                  const latest = leaderboardMap[name];
-                  const percent = Math.round(
-                    (latest.correct_count / latest.total_questions) * 100
-                  );
-
-                  const radius = 28;
-                  const centerX = 40;
-                  const centerY = 40;
-
-                  const startX = centerX;
-                  const startY = centerY - radius; // 12 o'clock
-
-                  const endAngle = Math.PI * percent / 100; // 0 → π (half circle)
-                  const endX = centerX + radius * Math.sin(endAngle);
-                  const endY = centerY - radius * Math.cos(endAngle);
-
-                  return (
-                    <div className="relative h-16 w-16 flex items-center justify-center">
-                      <svg
-                        width="80"
-                        height="80"
-                        viewBox="0 0 80 80"
-                        className="absolute"
-                      >
-                        {/* Background 12 → 6 arc */}
-                        <path
-                          d={`
-                            M ${centerX} ${centerY - radius}
-                            A ${radius} ${radius} 0 0 1 ${centerX} ${centerY + radius}
-                          `}
-                          fill="none"
-                          stroke="hsl(var(--muted))"
-                          strokeWidth="6"
-                        />
-
-                        {/* Progress Arc 12 → dynamic position */}
-                        <path
-                          d={`
-                            M ${startX} ${startY}
-                            A ${radius} ${radius} 0 ${
-                              percent > 50 ? 1 : 0
-                            } 1 ${endX} ${endY}
-                          `}
-                          fill="none"
-                          stroke={
-                            percent >= 80
-                              ? "#22c55e"
-                              : percent >= 50
-                              ? "#eab308"
-                              : "#ef4444"
-                          }
-                          strokeWidth="6"
-                          strokeLinecap="round"
-                          style={{ transition: "all 0.6s ease" }}
-                        />
-                      </svg>
-
-                      {/* Avatar */}
-                      <div className="h-12 w-12 rounded-full bg-primary/10 flex items-center justify-center text-lg font-bold text-primary relative z-10">
-                        {name.charAt(0).toUpperCase()}
-                      </div>
-                    </div>
-                  );
-                })()}
-
-                <div className="text-left space-y-1">
-                  <p className="font-semibold text-base">{name}</p>
-
-                  {/* Latest Attempt Shrink Card */}
-                  {leaderboardMap[name] && (() => {
-                    const latest = leaderboardMap[name];
-                    const percent = Math.round(
-                      (latest.correct_count / latest.total_questions) * 100
-                    );
-
-                    return (
-                      <div className="mt-1 space-y-1">
-                        <div className="inline-flex items-center gap-2 rounded-lg bg-muted/40 px-3 py-1 text-xs font-medium">
-                          <span className="">
-                            Correct: {latest.correct_count}
+                {/* PROFILE HEADER */}
+                <button
+                  onClick={() =>
+                    setExpandedUser(expandedUser === key ? null : key)
+                  }
+                  className="w-full flex items-center justify-between px-6 py-5 hover:bg-muted/30 transition"
+                >
+                  <div className="flex items-center gap-6 relative">
+                    {/* LETTER PROFILE CARD */}
+                    {leaderboardMap[key] && (() => {
+                      const latest = leaderboardMap[key];
+                      const percent = Math.round(
+                        (latest.correct_count / latest.total_questions) * 100
+                      );
+
+                      const radius = 28;
+                      const centerX = 40;
+                      const centerY = 40;
+
+                      const startX = centerX;
+                      const startY = centerY - radius; // 12 o'clock
+
+                      const endAngle = Math.PI * percent / 100; // 0 → π (half circle)
+                      const endX = centerX + radius * Math.sin(endAngle);
+                      const endY = centerY - radius * Math.cos(endAngle);
+
+                      return (
+                        <div className="relative h-16 w-16 flex items-center justify-center">
+                          <svg
+                            width="80"
+                            height="80"
+                            viewBox="0 0 80 80"
+                            className="absolute"
+                          >
+                            {/* Background 12 → 6 arc */}
+                            <path
+                              d={`
+                                M ${centerX} ${centerY - radius}
+                                A ${radius} ${radius} 0 0 1 ${centerX} ${centerY + radius}
+                              `}
+                              fill="none"
+                              stroke="hsl(var(--muted))"
+                              strokeWidth="6"
+                            />
+
+                            {/* Progress Arc 12 → dynamic position */}
+                            <path
+                              d={`
+                                M ${startX} ${startY}
+                                A ${radius} ${radius} 0 ${
+                                  percent > 50 ? 1 : 0
+                                } 1 ${endX} ${endY}
+                              `}
+                              fill="none"
+                              stroke={
+                                percent >= 80
+                                  ? "#22c55e"
+                                  : percent >= 50
+                                  ? "#eab308"
+                                  : "#ef4444"
+                              }
+                              strokeWidth="6"
+                              strokeLinecap="round"
+                              style={{ transition: "all 0.6s ease" }}
+                            />
+                          </svg>
+
+                          {/* Avatar */}
+                          <div className="h-12 w-12 rounded-full bg-primary/10 flex items-center justify-center text-lg font-bold text-primary relative z-10">
+                            {userAttempts[0].participant_name.charAt(0).toUpperCase()}
+                          </div>
+                        </div>
+                      );
+                    })()}
+
+                    <div className="text-left space-y-1">
+                      <p className="font-semibold text-base">
+                        {userAttempts[0].participant_name}
+                        {userAttempts[0].participant_identity && (
+                          <span className="ml-2 text-xs font-normal text-muted-foreground">
+                            {userAttempts[0].participant_identity}
                           </span>
-                          <span className="text-muted-foreground">
-                            Latest Attempt
+                        )}
+                        {userAttempts[0].group_name && (
+                          <span className="ml-2 rounded-full bg-primary/10 px-2 py-0.5 text-xs font-normal text-primary">
+                            {userAttempts[0].group_name}
                           </span>
-                        </div>
-                      </div>
-                    );
-                  })()}
+                        )}
+                      </p>
+
+                      {/* Latest Attempt Shrink Card */}
+                      {leaderboardMap[key] && (() => {
+                        const latest = leaderboardMap[key];
+                        const percent = Math.round(
+                          (latest.correct_count / latest.total_questions) * 100
+                        );
+
+                        return (
+                          <div className="mt-1 space-y-1">
+                            <div className="inline-flex items-center gap-2 rounded-lg bg-muted/40 px-3 py-1 text-xs font-medium">
+                              <span className="">
+                                Correct: {latest.correct_count}
+                              </span>
+                              <span className="text-muted-foreground">
+                                Latest Attempt
+                              </span>
+                            </div>
+                          </div>
+                        );
+                      })()}
 
-                  <p className="text-xs text-muted-foreground">
-                    {userAttempts.length} attempts
-                  </p>
-                </div>
-              </div>
+                      <p className="text-xs text-muted-foreground">
+                        {userAttempts.length} attempts
+                      </p>
+                    </div>
+                  </div>
+
+                  <ChevronDown
+                    className={`h-5 w-5 transition-transform duration-300 ${
+                      expandedUser === key ? "rotate-180" : ""
+                    }`}
+                  />
+                </button>
+
+                {/* EXPANDED */}
+                <div
+                  className={`transition-all duration-300 overflow-hidden ${
+                    expandedUser === key
+                      ? "max-h-[2000px] opacity-100"
+                      : "max-h-0 opacity-0"
+                  }`}
+                >
+                  <div className="border-t px-6 py-6 space-y-5">
+                    {userAttempts.map((a) => {
+                      const percent = getScorePercent(
+                        a.score,
+                        a.total_questions
+                      );
+
+                      return (
+                        <div
+                          key={a.id}
+                          className="relative flex flex-col gap-4 rounded-xl border bg-muted/20 p-5 pr-14 hover:bg-muted/30 transition"
+                        >
+                          {/* LEFT */}
+                          <div className="flex-1 space-y-3">
+                            {/* SCORE HEADER */}
+                            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                              <div>
+                                <p className="text-lg font-semibold">
+                                  {a.score}/{a.total_questions}
+                                </p>
+                                <p className="text-xs text-muted-foreground">
+                                  {percent}% Score
+                                </p>
+                              </div>
+
+                              <p className="text-xs text-muted-foreground">
+                                {new Date(a.completed_at).toLocaleString()}
+                              </p>
+                            </div>
+
+                            {/* PROGRESS BAR */}
+                            <div className="w-full h-2 bg-muted rounded-full overflow-hidden">
+                              <div
+                                className={`h-full ${getScoreColor(percent)} transition-all`}
+                                style={{ width: `${percent}%` }}
+                              />
+                            </div>
+
+                            {/* META INFO */}
+                            <div className="flex flex-wrap gap-6 text-xs text-muted-foreground">
+                              <span>⏱ {formatDuration(a.time_taken_seconds)}</span>
+                              <span
+                                className={
+                                  (a.tab_switch_count || 0) > 0
+                                    ? "text-red-600 font-medium"
+                                    : "text-green-600 font-medium"
+                                }
+                              >
+                                Tab Switches: {a.tab_switch_count ?? 0}
+                              </span> 
+                              {attemptVersion(a) && (
+                                <span>v{attemptVersion(a)!.version_number}</span>
+                              )}
+                              {a.link_label && <span>🔗 {a.link_label}</span>}
+                              {a.is_late && (
+                                <span className="text-red-600 font-medium">
+                                  Submitted after time limit
+                                </span>
+                              )}
+                              {questions.length > 0 && (
+                                <button
+                                  className="text-primary font-medium hover:underline"
+                                  onClick={() =>
+                                    setReviewAttemptId(
+                                      reviewAttemptId === a.id ? null : a.id
+                                    )
+                                  }
+                                >
+                                  {reviewAttemptId === a.id
+                                    ? "Hide answers"
+                                    : "View answers"}
+                                </button>
+                              )}
+                              <button
+                                className={`font-medium hover:underline ${
+                                  suspiciousCount(a) > 0 ? "text-red-600" : "text-primary"
+                                }`}
+                                onClick={() =>
+                                  setTimelineAttemptId(
+                                    timelineAttemptId === a.id ? null : a.id
+                                  )
+                                }
+                              >
+                                Proctoring log ({suspiciousCount(a)})
+                              </button>
+                            </div>
+
+                            {/* PROCTORING TIMELINE */}
+                            {timelineAttemptId === a.id && (
+                              <div className="rounded-lg border bg-background p-4">
+                                <ProctorTimeline
+                                  events={a.proctor_events ?? []}
+                                  dropped={a.proctor_events_dropped ?? 0}
+                                  startedAt={
+                                    new Date(a.completed_at).getTime() -
+                                    (a.time_taken_seconds ?? 0) * 1000
+                                  }
+                                />
+                              </div>
+                            )}
 
-              <ChevronDown
-                className={`h-5 w-5 transition-transform duration-300 ${
-                  expandedUser === name ? "rotate-180" : ""
-                }`}
-              />
-            </button>
-
-            {/* EXPANDED */}
-            <div
-              className={`transition-all duration-300 overflow-hidden ${
-                expandedUser === name
-                  ? "max-h-[2000px] opacity-100"
-                  : "max-h-0 opacity-0"
-              }`}
-            >
-              <div className="border-t px-6 py-6 space-y-5">
-                {userAttempts.map((a) => {
-                  const percent = getScorePercent(
-                    a.score,
-                    a.total_questions
-                  );
-
-                  return (
-                    <div
-                      key={a.id}
-                      className="relative flex flex-col gap-4 rounded-xl border bg-muted/20 p-5 pr-14 hover:bg-muted/30 transition"
-                    >
-                      {/* LEFT */}
-                      <div className="flex-1 space-y-3">
-                        {/* SCORE HEADER */}
-                        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
-                          <div>
-                            <p className="text-lg font-semibold">
-                              {a.score}/{a.total_questions}
-                            </p>
-                            <p className="text-xs text-muted-foreground">
-                              {percent}% Score
-                            </p>
+                            {/* ANSWER REVIEW */}
+                            {reviewAttemptId === a.id && (
+                              <div className="space-y-3 pt-2">
+                                {attemptQuestions(a).map((q, qIndex) => {
+                                  const answer = a.answers?.[q.id];
+                                  const credit = a.question_credits?.[q.id];
+                                const seconds = a.question_times?.[q.id];
+
+                                  const status =
+                                    credit === undefined
+                                      ? "Unanswered"
+                                      : credit === 1
+                                      ? "Correct"
+                                      : credit > 0
+                                      ? `Partial (${Math.round(credit * 100)}%)`
+                                      : "Wrong";
+
+                                  return (
+                                    <div
+                                      key={q.id}
+                                      className="rounded-lg border bg-background p-3 text-sm space-y-1"
+                                    >
+                                      <div className="flex items-start justify-between gap-3">
+                                        <p className="font-medium">
+                                          {qIndex + 1}. {q.question_text}
+                                        </p>
+                                        <span
+                                          className={`shrink-0 text-xs font-semibold ${
+                                            credit === 1
+                                              ? "text-green-600"
+                                              : credit > 0
+                                              ? "text-yellow-600"
+                                              : credit === 0
+                                              ? "text-red-600"
+                                              : "text-muted-foreground"
+                                          }`}
+                                        >
+                                          {status}
+                                        </span>
+                                      </div>
+
+                                      <p className="text-xs text-muted-foreground">
+                                        Answer:{" "}
+                                        <span className="text-foreground">
+                                          {formatAnswer(q, answer)}
+                                        </span>
+                                      </p>
+                                      <p className="text-xs text-muted-foreground">
+                                        Correct:{" "}
+                                        <span className="text-foreground">
+                                          {formatAnswerKey(q)}
+                                        </span>
+                                      </p>
+                                      {seconds !== undefined && (
+                                      <p className="text-xs text-muted-foreground">
+                                        Time: {seconds}s
+                                        {averageTimes[q.id] !== undefined &&
+                                          ` (avg ${Math.round(averageTimes[q.id])}s)`}
+                                        {answer !== undefined &&
+                                          isFastAnswer(seconds, averageTimes[q.id]) && (
+                                            <span className="ml-2 font-medium text-yellow-600">
+                                              Unusually fast
+                                            </span>
+                                          )}
+                                      </p>
+                                    )}
+                                    {a.option_orders?.[q.id] && (
+                                        <p className="text-xs text-muted-foreground">
+                                          Options shown as:{" "}
+                                          {a.option_orders[q.id]
+                                            .map((i) => optionLabel(i))
+                                            .join(" ")}
+                                        </p>
+                                      )}
+                                    </div>
+                                  );
+                                })}
+                              </div>
+                            )}
                           </div>
 
-                          <p className="text-xs text-muted-foreground">
-                            {new Date(a.completed_at).toLocaleString()}
-                          </p>
-                        </div>
-
-                        {/* PROGRESS BAR */}
-                        <div className="w-full h-2 bg-muted rounded-full overflow-hidden">
-                          <div
-                            className={`h-full ${getScoreColor(percent)} transition-all`}
-                            style={{ width: `${percent}%` }}
-                          />
+                          {/* DELETE */}
+                          <div className="absolute top-5 right-5">
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                disabled={loadingId === a.id}
+                                className="text-muted-foreground hover:text-red-600"
+                              >
+                                {loadingId === a.id ? (
+                                  <Loader2 className="h-4 w-4 animate-spin" />
+                                ) : (
+                                  <Trash2 className="h-4 w-4" />
+                                )}
+                              </Button>
+                            </AlertDialogTrigger>
+
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>
+                                  Delete this attempt?
+                                </AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  This cannot be undone.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction
+                                  className="bg-red-600"
+                                  onClick={() => deleteAttempt(a.id)}
+                                >
+                                  Delete
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
                         </div>
-
-                        {/* META INFO */}
-                        <div className="flex flex-wrap gap-6 text-xs text-muted-foreground">
-                          <span>⏱ {formatDuration(a.time_taken_seconds)}</span>
-                          <span
-                            className={
-                              (a.tab_switch_count || 0) > 0
-                                ? "text-red-600 font-medium"
-                                : "text-green-600 font-medium"
-                            }
-                          >
-                            Tab Switches: {a.tab_switch_count ?? 0}
-                          </span> 
                         </div>
-                      </div>
-
-                      {/* DELETE */}
-                      <div className="absolute top-5 right-5">
-                      <AlertDialog>
-                        <AlertDialogTrigger asChild>
-                          <Button
-                            size="icon"
-                            variant="ghost"
-                            disabled={loadingId === a.id}
-                            className="text-muted-foreground hover:text-red-600"
+                      );
+                    })}
+
+                    {/* DELETE ALL */}
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="destructive" size="sm" className="w-full">
+                          Delete All Attempts for {userAttempts[0].participant_name}
+                        </Button>
+                      </AlertDialogTrigger>
+
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>
+                            Delete all attempts for {userAttempts[0].participant_name}?
+                          </AlertDialogTitle>
+                          <AlertDialogDescription>
+                            This will permanently remove every attempt.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction
+                            className="bg-red-600"
+                            onClick={() => deleteUserAttempts(key)}
                           >
-                            {loadingId === a.id ? (
-                              <Loader2 className="h-4 w-4 animate-spin" />
-                            ) : (
-                              <Trash2 className="h-4 w-4" />
-                            )}
-                          </Button>
-                        </AlertDialogTrigger>
-
-                        <AlertDialogContent>
-                          <AlertDialogHeader>
-                            <AlertDialogTitle>
-                              Delete this attempt?
-                            </AlertDialogTitle>
-                            <AlertDialogDescription>
-                              This cannot be undone.
-                            </AlertDialogDescription>
-                          </AlertDialogHeader>
-
-                          <AlertDialogFooter>
-                            <AlertDialogCancel>Cancel</AlertDialogCancel>
-                            <AlertDialogAction
-                              className="bg-red-600"
-                              onClick={() => deleteAttempt(a.id)}
-                            >
-                              Delete
-                            </AlertDialogAction>
-                          </AlertDialogFooter>
-                        </AlertDialogContent>
-                      </AlertDialog>
-                    </div>
-                    </div>
-                  );
-                })}
-
-                {/* DELETE ALL */}
-                <AlertDialog>
-                  <AlertDialogTrigger asChild>
-                    <Button variant="destructive" size="sm" className="w-full">
-                      Delete All Attempts for {name}
-                    </Button>
-                  </AlertDialogTrigger>
-
-                  <AlertDialogContent>
-                    <AlertDialogHeader>
-                      <AlertDialogTitle>
-                        Delete all attempts for {name}?
-                      </AlertDialogTitle>
-                      <AlertDialogDescription>
-                        This will permanently remove every attempt.
-                      </AlertDialogDescription>
-                    </AlertDialogHeader>
-
-                    <AlertDialogFooter>
-                      <AlertDialogCancel>Cancel</AlertDialogCancel>
-                      <AlertDialogAction
-                        className="bg-red-600"
-                        onClick={() => deleteUserAttempts(name)}
-                      >
-                        Confirm
-                      </AlertDialogAction>
-                    </AlertDialogFooter>
-                  </AlertDialogContent>
-                </AlertDialog>
+                            Confirm
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+                </div>
               </div>
-            </div>
-          </div>
-        ))}
+            ))}
+          </TabsContent>
+
+          <TabsContent value="analytics">
+            <ScoreAnalytics attempts={groupAttempts} />
+          </TabsContent>
+
+          <TabsContent value="items">
+            <ItemAnalysis
+              questions={questions}
+              attempts={groupAttempts}
+              versions={versions}
+            />
+          </TabsContent>
+        </Tabs>
       </main>
     </div>
   );
@@ -0,0 +1,449 @@
+import { useEffect, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Brain,
+  ArrowLeft,
+  Plus,
+  Pencil,
+  Trash2,
+  Save,
+  X,
+  Users,
+  Upload,
+} from "lucide-react";
+import {
+  Roster,
+  RosterMember,
+  emptiedGroups,
+  formatRosterText,
+  parseRosterText,
+  rosterGroupNames,
+} from "@/lib/roster";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+
+interface RosterDraft {
+  id?: string;
+  name: string;
+  membersText: string;
+}
+
+export default function Rosters() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const [rosters, setRosters] = useState<Roster[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [draft, setDraft] = useState<RosterDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+  // Groups the edit leaves without students, awaiting keep / remove
+  const [emptied, setEmptied] = useState<string[] | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const loadRosters = async () => {
+    const { data, error } = await supabase
+      .from("rosters")
+      .select("id, name, created_at, roster_members(count), roster_groups(id, roster_id, name)")
+      .order("name");
+
+    if (error) {
+      toast({
+        title: "Could not load rosters",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+
+    setRosters(
+      (data || []).map((r) => ({
+        id: r.id,
+        name: r.name,
+        created_at: r.created_at,
+        member_count: r.roster_members?.[0]?.count ?? 0,
+        groups: r.roster_groups ?? [],
+      }))
+    );
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    loadRosters();
+  }, []);
+
+  /* ---------------- EDITOR ---------------- */
+
+  const openNew = () => setDraft({ name: "", membersText: "" });
+
+  const openEdit = async (roster: Roster) => {
+    const { data } = await supabase
+      .from("roster_members")
+      .select("student_id, name, roster_groups(name)")
+      .eq("roster_id", roster.id)
+      .order("student_id");
+
+    setDraft({
+      id: roster.id,
+      name: roster.name,
+      membersText: formatRosterText(
+        (data || []).map((m) => ({
+          student_id: m.student_id,
+          name: m.name,
+          group: m.roster_groups?.name ?? "",
+        }))
+      ),
+    });
+  };
+
+  // Spreadsheet export → textarea, so it can be checked before saving
+  const importCsv = async (file: File | undefined) => {
+    if (!file || !draft) return;
+
+    const text = await file.text();
+    setDraft({
+      ...draft,
+      name: draft.name || file.name.replace(/\.[^.]+$/, ""),
+      membersText: formatRosterText(parseRosterText(text).members),
+    });
+  };
+
+  const parsed = draft ? parseRosterText(draft.membersText) : null;
+
+  // The textarea is the source of truth for students. Saved in one
+  // transaction; students are matched by ID and groups by name, so existing
+  // assignments survive a re-upload. Only the groups passed as removed are
+  // deleted, and the server refuses any with assignments or attempts.
+  const saveRoster = async (
+    roster: RosterDraft,
+    members: RosterMember[],
+    removedGroups: string[]
+  ) => {
+    const { error } = await supabase.rpc("save_roster", {
+      _roster_id: roster.id ?? null,
+      _name: roster.name.trim(),
+      _members: members,
+      _removed_groups: removedGroups,
+    });
+
+    return error;
+  };
+
+  const saveDraft = async (removedGroups?: string[]) => {
+    if (!draft || !parsed) return;
+
+    if (!draft.name.trim()) {
+      toast({ title: "Give the roster a name", variant: "destructive" });
+      return;
+    }
+
+    // Ask before removing groups nobody is in any more
+    const saved = rosters.find((r) => r.id === draft.id)?.groups ?? [];
+    const empty = emptiedGroups(saved, parsed.members);
+
+    if (!removedGroups && empty.length > 0) {
+      setEmptied(empty);
+      return;
+    }
+
+    setEmptied(null);
+    setSaving(true);
+    const error = await saveRoster(draft, parsed.members, removedGroups ?? []);
+    setSaving(false);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: draft.id ? "Roster updated" : "Roster created",
+      description: `${parsed.members.length} student${
+        parsed.members.length !== 1 ? "s" : ""
+      }`,
+    });
+    setDraft(null);
+    loadRosters();
+  };
+
+  const deleteRoster = async (id: string) => {
+    // Quizzes using it keep roster mode but lose their roster (SET NULL)
+    const { error } = await supabase.from("rosters").delete().eq("id", id);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setRosters((prev) => prev.filter((r) => r.id !== id));
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border bg-card/50 backdrop-blur-sm sticky top-0 z-10">
+        <div className="container flex h-16 items-center gap-3">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/dashboard")}>
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <Brain className="h-6 w-6 text-primary" />
+          <span className="font-display text-lg font-bold">Rosters</span>
+        </div>
+      </header>
+
+      <main className="container py-8 max-w-4xl space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div className="text-center sm:text-left">
+            <h1 className="font-display text-3xl font-bold">Class Rosters</h1>
+            <p className="text-muted-foreground mt-1">
+              Student lists for quizzes that only accept known IDs
+            </p>
+          </div>
+
+          <Button
+            onClick={openNew}
+            className="gradient-primary text-primary-foreground"
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            New Roster
+          </Button>
+        </div>
+
+        {loading ? (
+          <div className="space-y-3">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-20 rounded-lg bg-muted animate-pulse" />
+            ))}
+          </div>
+        ) : rosters.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-24 text-center">
+            <div className="h-16 w-16 rounded-2xl gradient-primary flex items-center justify-center mb-4">
+              <Users className="h-8 w-8 text-primary-foreground" />
+            </div>
+            <h3 className="font-display text-xl font-semibold mb-2">
+              No rosters yet
+            </h3>
+            <p className="text-muted-foreground max-w-sm">
+              Add your students' IDs, then pick the roster in a quiz's settings.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {rosters.map((r) => (
+              <div
+                key={r.id}
+                className="glass-card rounded-xl p-5 flex items-center justify-between gap-3"
+              >
+                <div className="space-y-2">
+                  <div>
+                    <p className="font-medium">{r.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {r.member_count} student{r.member_count !== 1 ? "s" : ""}
+                    </p>
+                  </div>
+
+                  {!!r.groups?.length && (
+                    <div className="flex flex-wrap gap-2 text-xs">
+                      {r.groups.map((g) => (
+                        <span
+                          key={g.id}
+                          className="rounded-full bg-primary/10 px-2 py-0.5 text-primary"
+                        >
+                          {g.name}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                <div className="flex shrink-0 gap-1">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => openEdit(r)}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-destructive"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </AlertDialogTrigger>
+
+                    <AlertDialogContent className="w-[95%] max-w-md rounded-xl p-6 sm:w-full">
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Delete this roster?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          Quizzes using it will stop accepting roster IDs until
+                          you choose another one.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+
+                      <AlertDialogFooter className="gap-2 sm:gap-0">
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction
+                          className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                          onClick={() => deleteRoster(r.id)}
+                        >
+                          Delete
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </main>
+
+      {/* =========================================
+          EDIT / CREATE MODAL
+      ========================================= */}
+      {draft && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+          <div className="w-full max-w-2xl rounded-2xl bg-card shadow-2xl overflow-hidden animate-scale-in">
+            {/* HEADER */}
+            <div className="flex items-center justify-between px-6 py-4 border-b">
+              <h2 className="font-display text-xl font-bold">
+                {draft.id ? "Edit Roster" : "New Roster"}
+              </h2>
+
+              <Button size="icon" variant="ghost" onClick={() => setDraft(null)}>
+                <X className="h-5 w-5" />
+              </Button>
+            </div>
+
+            {/* BODY */}
+            <div className="px-6 py-5 space-y-5 max-h-[70vh] overflow-y-auto">
+              <div className="space-y-2">
+                <Label className="text-xs text-muted-foreground">Name</Label>
+                <Input
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="e.g. Year 10 Biology"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <Label className="text-xs text-muted-foreground">
+                    Students (one per line: ID, Name, Group)
+                  </Label>
+
+                  <input
+                    ref={fileInput}
+                    type="file"
+                    accept=".csv,.tsv,.txt,text/csv"
+                    className="hidden"
+                    onChange={(e) => {
+                      importCsv(e.target.files?.[0]);
+                      e.target.value = "";
+                    }}
+                  />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => fileInput.current?.click()}
+                  >
+                    <Upload className="mr-2 h-4 w-4" />
+                    Upload CSV
+                  </Button>
+                </div>
+                <textarea
+                  value={draft.membersText}
+                  onChange={(e) =>
+                    setDraft({ ...draft, membersText: e.target.value })
+                  }
+                  rows={12}
+                  placeholder={"S001, Ada Lovelace, Period 1\nS002, Alan Turing, Period 2"}
+                  className="w-full rounded-md border bg-background p-3 font-mono text-sm"
+                />
+                {parsed && (
+                  <p className="text-xs text-muted-foreground">
+                    {parsed.members.length} student
+                    {parsed.members.length !== 1 ? "s" : ""}
+                    {rosterGroupNames(parsed.members).length > 0 &&
+                      ` in ${rosterGroupNames(parsed.members).join(", ")}`}
+                    {parsed.duplicates > 0 &&
+                      ` · ${parsed.duplicates} duplicate ID${
+                        parsed.duplicates !== 1 ? "s" : ""
+                      } ignored`}
+                  </p>
+                )}
+              </div>
+            </div>
+
+            {/* FOOTER */}
+            <div className="px-6 py-4 border-t bg-muted/30">
+              <Button
+                className="w-full gradient-primary text-primary-foreground"
+                onClick={() => saveDraft()}
+                disabled={saving}
+              >
+                <Save className="mr-2 h-4 w-4" />
+                {saving ? "Saving..." : "Save Roster"}
+              </Button>
+            </div>
+
+            {/* EMPTIED GROUPS */}
+            <AlertDialog
+              open={!!emptied}
+              onOpenChange={(open) => !open && setEmptied(null)}
+            >
+              <AlertDialogContent className="w-[95%] max-w-md rounded-xl p-6 sm:w-full">
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Remove empty groups?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    No student is in {emptied?.join(", ")} any more. Removing
+                    a group also drops it from quiz schedules, so groups with
+                    quiz assignments or attempts can't be removed.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+
+                <AlertDialogFooter className="gap-2 sm:gap-0">
+                  <AlertDialogCancel onClick={() => saveDraft([])}>
+                    Keep Groups
+                  </AlertDialogCancel>
+                  <AlertDialogAction
+                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                    onClick={() => saveDraft(emptied ?? [])}
+                  >
+                    Remove
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
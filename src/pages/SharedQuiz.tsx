@@ -1,9 +1,33 @@
 import { useEffect, useState } from "react";
-import { useParams } from "react-router-dom";
+import { useNavigate, useParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
-import { Brain, Info, Timer, ChevronUp } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Brain, Info, Timer, ChevronUp, CalendarClock, Lock, Maximize } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth";
+import { readQuestionTimes, useQuestionTimer } from "@/hooks/use-question-timer";
+import { useProctorLog } from "@/hooks/use-proctor-log";
+import {
+  PROCTOR_STORAGE_KEY,
+  logProctorEvent,
+  readProctorEvents,
+} from "@/lib/proctoring";
+import { format } from "date-fns";
+import {
+  AnswerValue,
+  DEFAULT_IDENTITY_FIELD_LABEL,
+  IdentityMode,
+  QuestionType,
+  QuizAvailability,
+  ShareLinkState,
+  hasOptions,
+  isAnswered,
+  isCorrectOption,
+  isOptionSelected,
+  optionLabel,
+  toggleOption,
+} from "@/lib/quiz";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -15,18 +39,52 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
+import Markdown from "@/components/quiz/Markdown";
+import GroupFilter from "@/components/quiz/GroupFilter";
+import { groupsFrom } from "@/lib/roster";
+import {
+  clearAttemptProgress,
+  rememberAccessCode,
+  sessionStartArgs,
+} from "@/lib/shareSession";
 
 interface Question {
   id: string;
   question_text: string;
+  question_type: QuestionType;
   options: string[];
-  correct_option_index: number;
   order_num: number;
 }
 
+// A student the roster picker can offer (never their student ID, which
+// they still type to prove who they are)
+interface RosterEntry {
+  name: string;
+  group_id: string | null;
+  group_name: string | null;
+  state: string;
+  opens_at: string | null;
+  closes_at: string | null;
+}
+
+interface SubmitResult {
+  score: number;
+  correct_count: number;
+  wrong_count: number;
+  total_questions: number;
+  time_taken_seconds: number;
+  tab_switch_count: number;
+  is_late: boolean;
+  question_credits: Record<string, number> | null;
+  correct_answers: Record<string, AnswerValue> | null;
+  explanations: Record<string, string> | null;
+}
+
 export default function SharedQuiz() {
   const { shareToken } = useParams();
   const { toast } = useToast();
+  const navigate = useNavigate();
+  const { user } = useAuth();
 
   const [quizTitle, setQuizTitle] = useState("");
   const [quizId, setQuizId] = useState("");
@@ -35,7 +93,7 @@ export default function SharedQuiz() {
   });
 
   // ✅ Persist answers (refresh proof)
-  const [answers, setAnswers] = useState<Record<string, number>>(() => {
+  const [answers, setAnswers] = useState<Record<string, AnswerValue>>(() => {
     return JSON.parse(localStorage.getItem("quiz_answers") || "{}");
   });
 
@@ -50,13 +108,42 @@ export default function SharedQuiz() {
     localStorage.getItem("quiz_participant") || "",
   );
 
+  // Roll number / roster ID, depending on the quiz's identity mode
+  const [identityValue, setIdentityValue] = useState(
+    localStorage.getItem("quiz_identity") || "",
+  );
+  const [identityMode, setIdentityMode] = useState<IdentityMode>("name");
+  const [identityFieldLabel, setIdentityFieldLabel] = useState(
+    DEFAULT_IDENTITY_FIELD_LABEL,
+  );
+
+  // ✅ Roster mode: participants pick their name, then type their ID
+  const [roster, setRoster] = useState<RosterEntry[]>([]);
+  const [rosterSearch, setRosterSearch] = useState("");
+  const [picked, setPicked] = useState<RosterEntry | null>(null);
+  const [rosterGroup, setRosterGroup] = useState<string | null>(
+    localStorage.getItem("quiz_group") || null,
+  );
+
   const [started, setStarted] = useState(
     localStorage.getItem("quiz_started") === "true",
   );
 
-  // ✅ TIMER FIX
+  // ✅ TIMER FIX (server session decides the deadline)
   const [durationMinutes, setDurationMinutes] = useState<number | null>(null);
   const [timeLeft, setTimeLeft] = useState<number | null>(null);
+  const [expiresAt, setExpiresAt] = useState<number | null>(null);
+
+  // ✅ Lifecycle (scheduled → countdown, closed → closed page)
+  const [availability, setAvailability] = useState<QuizAvailability | null>(null);
+  const [clockSkew, setClockSkew] = useState(0);
+  const [opensIn, setOpensIn] = useState<number | null>(null);
+  const [hasSession, setHasSession] = useState(false);
+
+  // ✅ Share link (revoked / expired / used up links only let sessions resume)
+  const [linkState, setLinkState] = useState<ShareLinkState>("active");
+  const [requiresCode, setRequiresCode] = useState(false);
+  const [accessCode, setAccessCode] = useState("");
 
   // ✅ RETRIES FIX
   const [maxRetries, setMaxRetries] = useState(0);
@@ -69,6 +156,8 @@ export default function SharedQuiz() {
   const [showAnswers, setShowAnswers] = useState(true);
   const [preventTabSwitch, setPreventTabSwitch] = useState(false);
   const [tabWarnings, setTabWarnings] = useState(3);
+  const [requireFullscreen, setRequireFullscreen] = useState(false);
+  const [isFullscreen, setIsFullscreen] = useState(!!document.fullscreenElement);
   const [preventCopyPaste, setPreventCopyPaste] = useState(false);
   const [randomiseQuestions, setRandomiseQuestions] = useState(false);
   const [warningCount, setWarningCount] = useState(0);
@@ -92,6 +181,11 @@ const [correctCount, setCorrectCount] = useState(0);
 const [wrongCount, setWrongCount] = useState(0);
 const [showScoreDetails, setShowScoreDetails] = useState(false);
 
+  // ✅ Answer key only arrives from submit-attempt (and only if show_answers is on)
+  const [correctAnswers, setCorrectAnswers] = useState<Record<string, AnswerValue> | null>(null);
+  const [questionCredits, setQuestionCredits] = useState<Record<string, number> | null>(null);
+  const [explanations, setExplanations] = useState<Record<string, string> | null>(null);
+
 
   /* --------------------------------------------
      LOAD QUIZ + SETTINGS
@@ -100,82 +194,152 @@ const [showScoreDetails, setShowScoreDetails] = useState(false);
     const load = async () => {
       if (!shareToken) return;
 
-      const { data: quiz } = await supabase
-        .from("quizzes")
-        .select(
-          "id, title, duration_minutes, max_retries, sharing_enabled, show_answers, prevent_tab_switch, tab_switch_warnings, prevent_copy_paste,randomise_questions, leaderboard_enabled, negative_marking_enabled, negative_mark_value",
-        )
-        .eq("share_token", shareToken)
-        .maybeSingle();
+      // ✅ Drafts, unknown links and quizzes with sharing off all look
+      //    exactly like a missing quiz
+      const { data: windows } = await supabase.rpc("get_quiz_availability", {
+        _share_token: shareToken,
+      });
 
-      if (!quiz) {
+      const quizWindow = windows?.[0];
+
+      if (!quizWindow || quizWindow.state === "draft") {
         setNotFound(true);
         setLoading(false);
         return;
       }
-      if (!quiz.sharing_enabled) {
+
+      // ✅ Settings come through the link (the quizzes table is owner-only,
+      //    so access codes and the main token never reach participants)
+      const { data: quiz } = await supabase.rpc("get_shared_quiz", {
+        _share_token: shareToken,
+      });
+
+      if (!quiz) {
         setNotFound(true);
         setLoading(false);
         return;
       }
 
+      const skew = Date.now() - new Date(quizWindow.server_now).getTime();
+      setClockSkew(skew);
+      setAvailability(quizWindow);
+      setLinkState(quizWindow.link_state);
+      setRequiresCode(quizWindow.requires_code);
+
       /* ✅ Save settings */
       setSharingEnabled(quiz.sharing_enabled ?? true);
       setShowAnswers(quiz.show_answers ?? true);
       setPreventTabSwitch(quiz.prevent_tab_switch ?? false);
       setTabWarnings(quiz.tab_switch_warnings ?? 3);
+      // Browsers without the Fullscreen API (e.g. iPhone Safari) can't comply
+      setRequireFullscreen(
+        (quiz.require_fullscreen ?? false) && document.fullscreenEnabled,
+      );
       setPreventCopyPaste(quiz.prevent_copy_paste ?? false);
       setRandomiseQuestions(quiz.randomise_questions ?? false);
       setLeaderboardEnabled(quiz.leaderboard_enabled ?? true);
       setNegativeMarkingEnabled(quiz.negative_marking_enabled ?? false);
       setNegativeMarkValue(Number(quiz.negative_mark_value ?? 0));
 
+      setIdentityMode(quiz.identity_mode ?? "name");
+      setIdentityFieldLabel(
+        quiz.identity_field_label || DEFAULT_IDENTITY_FIELD_LABEL,
+      );
+
+      // ✅ Links with an access code only show the class list once the
+      //    code has been entered (see loadRoster)
+      if (quiz.identity_mode === "roster" && !quizWindow.requires_code) {
+        await loadRoster();
+      }
+
       setQuizTitle(quiz.title);
       setQuizId(quiz.id);
 
       setMaxRetries(quiz.max_retries || 0);
 
-      // ✅ Timer restore logic (refresh cannot reset timer)
       if (quiz.duration_minutes) {
         setDurationMinutes(quiz.duration_minutes);
+      }
 
-        // ✅ Restore saved timer first
-        const savedTime = localStorage.getItem("quiz_time_left");
+      // ✅ Nothing to load until the quiz opens; once closed, only
+      //    sessions already in progress may resume (and auto-submit)
+      const started = localStorage.getItem("quiz_started") === "true";
 
-        if (savedTime) {
-          setTimeLeft(parseInt(savedTime));
-        } else {
-          // First attempt → start fresh timer
-          setTimeLeft(quiz.duration_minutes * 60);
-        }
+      if (
+        quizWindow.state === "scheduled" ||
+        (quizWindow.state === "closed" && !started)
+      ) {
+        setLoading(false);
+        return;
       }
 
-      const { data: qs } = await supabase
-        .from("questions")
-        .select("*")
-        .eq("quiz_id", quiz.id)
-        .order("order_num");
+      // ✅ Start or resume the server session (refresh cannot reset timer)
+      if (started) {
+        // ✅ The access code stays with the tab, so retries through a
+        //    coded link start again without asking for it
+        const { data: sessions, error: sessionError } = await supabase.rpc(
+          "start_quiz_session",
+          sessionStartArgs(shareToken),
+        );
+
+        const session = sessions?.[0];
 
-      if (qs) {
-        let finalQuestions = qs;
+        if ((sessionError || !session) && quizWindow.state !== "closed") {
+          toast({
+            title: "Could not start quiz",
+            description: sessionError?.message,
+            variant: "destructive",
+          });
 
-        // ✅ Randomise only if enabled
-        if (quiz.randomise_questions) {
-          finalQuestions = [...qs].sort(() => Math.random() - 0.5);
+          // ✅ Back to the gate (e.g. ID not on the roster, not signed in)
+          localStorage.removeItem("quiz_started");
+          setStarted(false);
+          setLoading(false);
+          return;
+        } else if (session) {
+          localStorage.setItem("quiz_session_id", session.session_id);
+          localStorage.setItem("quiz_resume_token", session.resume_token);
+          setHasSession(true);
+
+          // ✅ The server decides the display name (roster / account modes)
+          localStorage.setItem("quiz_participant", session.participant_name);
+          setParticipantName(session.participant_name);
+
+          if (session.expires_at) {
+            // Shift the server deadline onto the local clock
+            const deadline = new Date(session.expires_at).getTime() + skew;
+
+            setExpiresAt(deadline);
+            setTimeLeft(
+              Math.max(Math.ceil((deadline - Date.now()) / 1000), 0),
+            );
+          }
         }
+      }
+
+      // ✅ Load through RPC so the answer key never reaches the browser
+      // ✅ With a session, the server returns this participant's own drawn
+      //    set (random pool + shuffle), already in their order
+      const { data: qs } = await supabase.rpc("get_shared_quiz_questions", {
+        _share_token: shareToken,
+        _session_id: localStorage.getItem("quiz_session_id") || undefined,
+      });
 
+      // ✅ Nothing comes back once the quiz has closed: keep the stored
+      //    questions so the page can still auto-submit within the grace
+      if (qs?.length) {
         // ✅ Save into state
-        setQuestions(finalQuestions);
+        setQuestions(qs);
 
         // ✅ Save into localStorage for auto-submit safety
-        localStorage.setItem("quiz_questions", JSON.stringify(finalQuestions));
+        localStorage.setItem("quiz_questions", JSON.stringify(qs));
       }
 
       setLoading(false);
     };
 
     load();
-  }, [shareToken]);
+  }, [shareToken, started]);
 
   /* --------------------------------------------
      SAVE ANSWERS (refresh proof)
@@ -184,24 +348,77 @@ const [showScoreDetails, setShowScoreDetails] = useState(false);
     localStorage.setItem("quiz_answers", JSON.stringify(answers));
   }, [answers]);
 
+  /* --------------------------------------------
+     SAVE ANSWERS ON THE SERVER (graded by finalise-sessions
+     if the quiz closes before this attempt is submitted)
+  -------------------------------------------- */
+  useEffect(() => {
+    if (!hasSession || submitted) return;
+
+    const timer = setTimeout(async () => {
+      // Between a retry and its new session there is nothing to save to
+      const sessionId = localStorage.getItem("quiz_session_id");
+      if (!sessionId) return;
+
+      const { error } = await supabase.rpc("save_session_answers", {
+        _session_id: sessionId,
+        _resume_token: localStorage.getItem("quiz_resume_token"),
+        _answers: answers,
+      });
+
+      // The local copy still goes with the submit
+      if (error) console.error("Could not save answers:", error.message);
+    }, 1000);
+
+    return () => clearTimeout(timer);
+  }, [answers, hasSession, submitted]);
+
+  /* --------------------------------------------
+     ROSTER PICKER (names and groups only)
+  -------------------------------------------- */
+  const loadRoster = async (code?: string) => {
+    const { data: members, error } = await supabase.rpc("get_quiz_roster", {
+      _share_token: shareToken,
+      _access_code: code,
+    });
+
+    if (error) {
+      toast({
+        title: "Could not load the class list",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setRoster(members || []);
+  };
+
   /* --------------------------------------------
      CHECK ATTEMPTS (refresh proof)
   -------------------------------------------- */
   const checkAttempts = async () => {
-    if (!quizId || !participantName.trim()) return;
+    if (!quizId || !shareToken) return;
+
+    // Count how many times this participant already submitted, keyed on
+    // the identity the server resolves (name, field, roster ID or account),
+    // and the limit for their group (assignments may set their own)
+    const { data: rows, error } = await supabase.rpc("get_participant_attempts", {
+      _share_token: shareToken,
+      _participant_name: participantName,
+      _identity_value: identityValue || undefined,
+    });
 
-    // Count how many times this participant already submitted
-    const { count } = await supabase
-      .from("quiz_attempts")
-      .select("*", { count: "exact", head: true })
-      .eq("quiz_id", quizId)
-      .eq("participant_name", participantName);
+    // Unknown or incomplete identity: starting the session reports why
+    if (error) return;
 
-    const attempts = count || 0;
+    const attempts = rows?.[0]?.attempts || 0;
+    const limit = rows?.[0]?.max_retries ?? maxRetries;
     setAttemptCount(attempts);
+    setMaxRetries(limit);
 
     // ✅ Case 1: Retries disabled → only ONE submission allowed
-    if (maxRetries === 0) {
+    if (limit === 0) {
       if (attempts >= 1) {
         setBlocked(true);
       } else {
@@ -210,8 +427,8 @@ const [showScoreDetails, setShowScoreDetails] = useState(false);
       return;
     }
 
-    // ✅ Case 2: Retries enabled → allow up to maxRetries
-    if (attempts >= maxRetries) {
+    // ✅ Case 2: Retries enabled → allow up to the limit
+    if (attempts >= limit) {
       setBlocked(true);
     } else {
       setBlocked(false);
@@ -220,10 +437,10 @@ const [showScoreDetails, setShowScoreDetails] = useState(false);
 
   /* Auto-block after refresh if exhausted */
   useEffect(() => {
-    if (quizId && participantName.trim()) {
+    if (quizId) {
       checkAttempts(); // Always check, even when maxRetries = 0
     }
-  }, [quizId, participantName, maxRetries]);
+  }, [quizId, participantName, identityValue, maxRetries, user]);
 
   /*  Toast immediately when blocked */
   useEffect(() => {
@@ -244,6 +461,126 @@ const [showScoreDetails, setShowScoreDetails] = useState(false);
     });
   }, [blocked, maxRetries]);
 
+  /* --------------------------------------------
+     PER-QUESTION TIME (question in view, via the scroll observer)
+  -------------------------------------------- */
+  useQuestionTimer(
+    "quiz_question_times",
+    questions[currentQuestion]?.id,
+    started && !submitted,
+  );
+
+  /* --------------------------------------------
+     FULLSCREEN EXAM MODE (exits share the tab-switch warning budget)
+  -------------------------------------------- */
+  useEffect(() => {
+    if (!requireFullscreen || !started || submitted || isRetrying) return;
+
+    const handleFullscreenChange = () => {
+      const full = !!document.fullscreenElement;
+      setIsFullscreen(full);
+
+      if (full) return;
+
+      // Switching tabs also drops fullscreen; that one is already counted
+      if (document.hidden && preventTabSwitch) return;
+
+      const next = incrementTabSwitch();
+
+      if (next >= tabWarnings) {
+        toast({
+          title: "Auto Submitted",
+          description: "Left fullscreen too many times.",
+          variant: "destructive",
+        });
+
+        handleSubmit(true);
+        return;
+      }
+
+      toast({
+        title: "Warning: Fullscreen Exited",
+        description: `Warnings left: ${Math.max(tabWarnings - next, 0)}`,
+        variant: "destructive",
+      });
+    };
+
+    document.addEventListener("fullscreenchange", handleFullscreenChange);
+
+    return () => {
+      document.removeEventListener("fullscreenchange", handleFullscreenChange);
+    };
+  }, [requireFullscreen, preventTabSwitch, tabWarnings, submitted, started, isRetrying]);
+
+  const enterFullscreen = async () => {
+    try {
+      await document.documentElement.requestFullscreen();
+    } catch {
+      toast({
+        title: "Could not enter fullscreen",
+        description: "Allow fullscreen for this site and try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  /* --------------------------------------------
+     PROCTORING LOG (timeline for reviewers)
+  -------------------------------------------- */
+  useProctorLog(started && !submitted);
+
+  /* --------------------------------------------
+     OPENING COUNTDOWN (reload once the quiz opens)
+  -------------------------------------------- */
+  useEffect(() => {
+    if (availability?.state !== "scheduled" || !availability.opens_at) return;
+
+    const opensAt = new Date(availability.opens_at).getTime() + clockSkew;
+
+    const tick = () => {
+      const left = Math.ceil((opensAt - Date.now()) / 1000);
+
+      if (left <= 0) window.location.reload();
+      else setOpensIn(left);
+    };
+
+    tick();
+    const interval = setInterval(tick, 1000);
+
+    return () => clearInterval(interval);
+  }, [availability, clockSkew]);
+
+  /* --------------------------------------------
+     WATCH FOR EARLY CLOSE ("Close now" / new closing time)
+  -------------------------------------------- */
+  useEffect(() => {
+    if (!started || submitted || !shareToken) return;
+
+    const poll = async () => {
+      const { data } = await supabase.rpc("get_quiz_availability", {
+        _share_token: shareToken,
+      });
+
+      const latest = data?.[0];
+      if (!latest?.closes_at) return;
+
+      const skew = Date.now() - new Date(latest.server_now).getTime();
+      const closing = new Date(latest.closes_at).getTime() + skew;
+
+      // The timer below auto-submits when the (earlier) deadline passes
+      setExpiresAt((prev) => (prev === null || closing < prev ? closing : prev));
+    };
+
+    const interval = setInterval(poll, 30000);
+
+    return () => clearInterval(interval);
+  }, [started, submitted, shareToken]);
+
+  useEffect(() => {
+    if (expiresAt === null) return;
+    setTimeLeft(Math.max(Math.ceil((expiresAt - Date.now()) / 1000), 0));
+  }, [expiresAt]);
+
   /* --------------------------------------------
      TIMER COUNTDOWN + AUTO SUBMIT
   -------------------------------------------- */
@@ -266,18 +603,14 @@ const [showScoreDetails, setShowScoreDetails] = useState(false);
       return;
     }
 
+    // Recompute from the deadline so throttled background tabs stay accurate
     const interval = setInterval(() => {
-      setTimeLeft((prev) => (prev !== null ? prev - 1 : null));
+      if (expiresAt === null) return;
+      setTimeLeft(Math.max(Math.ceil((expiresAt - Date.now()) / 1000), 0));
     }, 1000);
 
     return () => clearInterval(interval);
-  }, [timeLeft, submitted, started]);
-
-  useEffect(() => {
-    if (timeLeft === null) return;
-
-    localStorage.setItem("quiz_time_left", timeLeft.toString());
-  }, [timeLeft]);
+  }, [timeLeft, submitted, started, expiresAt]);
 
   useEffect(() => {
     if (!preventTabSwitch) return;
@@ -325,6 +658,10 @@ const [showScoreDetails, setShowScoreDetails] = useState(false);
         ["c", "v", "x", "a"].includes(e.key.toLowerCase())
       ) {
         e.preventDefault();
+
+        const key = e.key.toLowerCase();
+        if (key === "v") logProctorEvent("paste_blocked");
+        else if (key !== "a") logProctorEvent("copy_blocked");
       }
     };
 
@@ -350,11 +687,74 @@ const [showScoreDetails, setShowScoreDetails] = useState(false);
   }, [preventCopyPaste]);
 
   const formatTime = (seconds: number) => {
-    const mins = Math.floor(seconds / 60);
+    const hours = Math.floor(seconds / 3600);
+    const mins = Math.floor((seconds % 3600) / 60);
     const secs = seconds % 60;
-    return `${mins}:${secs.toString().padStart(2, "0")}`;
+    const rest = `${secs.toString().padStart(2, "0")}`;
+
+    // Closing-time deadlines can be hours away
+    return hours > 0
+      ? `${hours}:${mins.toString().padStart(2, "0")}:${rest}`
+      : `${mins}:${rest}`;
   };
 
+  const fetchLeaderboard = async () => {
+  // Display columns only (participant keys stay on the server); is_you
+  // is decided by resolved identity, not by display name
+  const { data } = await supabase.rpc("get_quiz_leaderboard", {
+    _share_token: shareToken,
+    _group_id: rosterGroup || undefined,
+    _participant_name: participantName,
+    _identity_value: identityValue || undefined,
+  });
+
+  if (data) setLeaderboard(data);
+};
+
+useEffect(() => {
+  if (!openLeaderboard || !quizId) return;
+
+  // Fetch immediately when modal opens
+  fetchLeaderboard();
+
+  const interval = setInterval(() => {
+    fetchLeaderboard();
+  }, 5000);
+
+  return () => clearInterval(interval);
+}, [openLeaderboard, quizId, rosterGroup]);
+
+
+  /* --------------------------------------------
+   AUTO-DETECT CURRENT QUESTION ON SCROLL
+-------------------------------------------- */
+  useEffect(() => {
+    if (questions.length === 0) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        entries.forEach((entry) => {
+          if (entry.isIntersecting) {
+            const index = Number(entry.target.getAttribute("data-index"));
+
+            setCurrentQuestion(index);
+          }
+        });
+      },
+      {
+        threshold: 0.6, // 60% visible = active
+      },
+    );
+
+    // Observe all question cards
+    questions.forEach((_, index) => {
+      const el = document.getElementById(`question-${index}`);
+      if (el) observer.observe(el);
+    });
+
+    return () => observer.disconnect();
+  }, [questions, started]);
+
   /* --------------------------------------------
      NAME ENTRY GATE (Attempts removed here)
   -------------------------------------------- */
@@ -373,24 +773,234 @@ const [showScoreDetails, setShowScoreDetails] = useState(false);
     );
   }
 
+  if (availability?.state === "scheduled" && availability.opens_at) {
+    const days = Math.floor((opensIn ?? 0) / 86400);
+
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="glass-card p-8 rounded-xl text-center max-w-md space-y-3">
+          <CalendarClock className="h-10 w-10 text-primary mx-auto" />
+          <h2 className="text-2xl font-bold">Quiz Opens Soon</h2>
+          <p className="text-muted-foreground">
+            This quiz opens on{" "}
+            {format(new Date(availability.opens_at), "MMM d, yyyy 'at' HH:mm")}.
+          </p>
+          {opensIn !== null && (
+            <p className="font-display text-3xl font-bold tabular-nums">
+              {days > 0 && `${days}d `}
+              {new Date((opensIn % 86400) * 1000).toISOString().slice(11, 19)}
+            </p>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  if (availability?.state === "closed" && !hasSession && !submitted) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="glass-card p-8 rounded-xl text-center max-w-md space-y-3">
+          <Lock className="h-10 w-10 text-muted-foreground mx-auto" />
+          <h2 className="text-2xl font-bold">Quiz Closed</h2>
+          <p className="text-muted-foreground">
+            {availability.closes_at
+              ? `This quiz closed on ${format(new Date(availability.closes_at), "MMM d, yyyy 'at' HH:mm")}.`
+              : "This quiz is no longer accepting attempts."}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  if (linkState !== "active" && !started && !submitted) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="glass-card p-8 rounded-xl text-center max-w-md space-y-3">
+          <Lock className="h-10 w-10 text-muted-foreground mx-auto" />
+          <h2 className="text-2xl font-bold">Link No Longer Active</h2>
+          <p className="text-muted-foreground">
+            {linkState === "expired"
+              ? "This link has expired."
+              : linkState === "used_up"
+                ? "This link has already been used the maximum number of times."
+                : "This link has been switched off."}{" "}
+            Ask your teacher for a new one.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!started && identityMode === "account" && !user) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="glass-card p-8 rounded-xl text-center max-w-md space-y-4">
+          <Lock className="h-10 w-10 text-muted-foreground mx-auto" />
+          <h2 className="text-2xl font-bold">Sign In Required</h2>
+          <p className="text-muted-foreground">
+            This quiz is linked to your account. Sign in to take it.
+          </p>
+          <Button
+            className="w-full gradient-primary text-primary-foreground"
+            onClick={() =>
+              navigate(`/auth?redirect=/quiz/share/${shareToken}`)
+            }
+          >
+            Sign In
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
   if (!started) {
+    // ✅ What the gate asks for depends on the quiz's identity mode
+    const rosterPicker = identityMode === "roster" && roster.length > 0;
+    const pickable = roster.filter(
+      (m) =>
+        (!rosterGroup || m.group_id === rosterGroup) &&
+        m.name.toLowerCase().includes(rosterSearch.trim().toLowerCase()),
+    );
+
+    const gate: Record<IdentityMode, { title: string; hint: string; ready: boolean }> = {
+      name: {
+        title: "Enter Your Name",
+        hint: "You must enter your name before attempting this quiz.",
+        ready: !!participantName.trim(),
+      },
+      name_field: {
+        title: "Enter Your Name",
+        hint: "You must enter your name before attempting this quiz.",
+        ready: !!participantName.trim() && !!identityValue.trim(),
+      },
+      roster: rosterPicker
+        ? {
+            title: "Find Your Name",
+            hint: "Pick yourself from the class list, then enter your student ID.",
+            ready: picked?.state === "open" && !!identityValue.trim(),
+          }
+        : {
+            title: "Enter Your Student ID",
+            hint: "Use the ID from your class roster.",
+            ready: !!identityValue.trim(),
+          },
+      account: {
+        title: "Ready to Start",
+        hint: `Signed in as ${user?.email}.`,
+        ready: true,
+      },
+    };
+    const { title: gateTitle, hint: gateHint, ready } = gate[identityMode];
+    const identityReady = ready && (!requiresCode || !!accessCode.trim());
+
     return (
       <div className="min-h-screen flex items-center justify-center bg-background">
         <div className="glass-card rounded-xl p-8 w-full max-w-md space-y-4">
           <h1 className="font-display text-2xl font-bold text-center">
-            Enter Your Name
+            {gateTitle}
           </h1>
 
           <p className="text-muted-foreground text-center text-sm">
-            You must enter your name before attempting this quiz.
+            {gateHint}
           </p>
 
-          <input
-            value={participantName}
-            onChange={(e) => setParticipantName(e.target.value)}
-            placeholder="Your full name"
-            className="w-full border rounded-lg p-3"
-          />
+          {identityMode !== "roster" && (
+            <input
+              value={participantName}
+              onChange={(e) => setParticipantName(e.target.value)}
+              placeholder={
+                identityMode === "account"
+                  ? "Display name (optional)"
+                  : "Your full name"
+              }
+              className="w-full border rounded-lg p-3"
+            />
+          )}
+
+          {rosterPicker && (
+            <div className="space-y-3">
+              <GroupFilter
+                groups={groupsFrom(roster)}
+                value={rosterGroup}
+                onChange={setRosterGroup}
+              />
+
+              <input
+                value={rosterSearch}
+                onChange={(e) => setRosterSearch(e.target.value)}
+                placeholder="Search your name"
+                className="w-full border rounded-lg p-3"
+              />
+
+              <div className="max-h-64 overflow-y-auto space-y-1 rounded-lg border p-1">
+                {pickable.length === 0 ? (
+                  <p className="p-3 text-center text-sm text-muted-foreground">
+                    No matching names.
+                  </p>
+                ) : (
+                  pickable.map((m, i) => (
+                    <button
+                      key={`${m.group_id}-${m.name}-${i}`}
+                      type="button"
+                      disabled={m.state !== "open"}
+                      onClick={() => {
+                        setPicked(m);
+                        setParticipantName(m.name);
+                        setRosterGroup(m.group_id);
+                      }}
+                      className={`w-full flex items-center justify-between rounded-md px-3 py-2 text-left text-sm transition-all disabled:opacity-50 ${
+                        picked === m
+                          ? "bg-primary text-primary-foreground"
+                          : "hover:bg-muted"
+                      }`}
+                    >
+                      <span>{m.name}</span>
+                      <span className="text-xs opacity-80">
+                        {m.state === "scheduled" && m.opens_at
+                          ? `Opens ${format(new Date(m.opens_at), "MMM d, HH:mm")}`
+                          : m.state === "closed"
+                            ? "Closed"
+                            : m.group_name}
+                      </span>
+                    </button>
+                  ))
+                )}
+              </div>
+            </div>
+          )}
+
+          {(identityMode === "name_field" || identityMode === "roster") && (
+            <input
+              value={identityValue}
+              onChange={(e) => setIdentityValue(e.target.value)}
+              placeholder={
+                identityMode === "roster" ? "Student ID" : identityFieldLabel
+              }
+              className="w-full border rounded-lg p-3"
+            />
+          )}
+
+          {requiresCode && (
+            <input
+              type="password"
+              value={accessCode}
+              onChange={(e) => setAccessCode(e.target.value)}
+              placeholder="Access code"
+              autoComplete="off"
+              className="w-full border rounded-lg p-3"
+            />
+          )}
+
+          {requiresCode && identityMode === "roster" && !rosterPicker && (
+            <Button
+              variant="outline"
+              className="w-full"
+              disabled={!accessCode.trim()}
+              onClick={() => loadRoster(accessCode.trim())}
+            >
+              Find my name in the class list
+            </Button>
+          )}
 
           {blocked && (
             <p className="text-center text-destructive font-semibold">
@@ -400,23 +1010,37 @@ const [showScoreDetails, setShowScoreDetails] = useState(false);
 
           <Button
             className="w-full gradient-primary text-primary-foreground"
-            disabled={!participantName.trim() || blocked}
+            disabled={!identityReady || blocked}
             onClick={async () => {
-              localStorage.setItem("quiz_participant", participantName);
+              // Must happen straight from the click (user gesture)
+              if (requireFullscreen) await enterFullscreen();
+
+              // Without the picker, roster students only type their ID and
+              // the server fills in the name
+              localStorage.setItem(
+                "quiz_participant",
+                identityMode === "roster" && !picked ? "" : participantName,
+              );
+              localStorage.setItem("quiz_identity", identityValue);
+              localStorage.setItem("quiz_group", picked?.group_id ?? "");
+              if (shareToken) rememberAccessCode(shareToken, accessCode.trim());
 
               localStorage.setItem("quiz_tab_switches", "0");
+              localStorage.removeItem("quiz_question_times");
+              localStorage.removeItem(PROCTOR_STORAGE_KEY);
               setWarningCount(0);
 
               await checkAttempts();
 
               if (!blocked) {
+                // No reload: that would drop fullscreen. The load effect
+                // re-runs on `started` and opens the server session.
                 localStorage.setItem("quiz_started", "true");
-                localStorage.setItem("quiz_start_time", Date.now().toString());
-                window.location.reload();
+                setStarted(true);
               }
             }}
           >
-            Start Quiz
+            {requireFullscreen ? "Start Quiz in Fullscreen" : "Start Quiz"}
           </Button>
         </div>
       </div>
@@ -424,13 +1048,22 @@ const [showScoreDetails, setShowScoreDetails] = useState(false);
   }
 
   /* --------------------------------------------
-     SELECT ANSWER (unchanged)
+     SELECT ANSWER (checkbox toggle for multiple-select)
   -------------------------------------------- */
-  const selectAnswer = (questionId: string, optionIndex: number) => {
+  const selectAnswer = (question: Question, optionIndex: number) => {
     if (submitted) return;
 
     setAnswers((prev) => {
-      const updated = { ...prev, [questionId]: optionIndex };
+      const updated: Record<string, AnswerValue> = { ...prev };
+
+      if (question.question_type === "multiple") {
+        const next = toggleOption(prev[question.id], optionIndex);
+
+        if (next.length > 0) updated[question.id] = next;
+        else delete updated[question.id];
+      } else {
+        updated[question.id] = optionIndex;
+      }
 
       // ✅ Save instantly (so auto-submit never misses)
       localStorage.setItem("quiz_answers", JSON.stringify(updated));
@@ -439,6 +1072,22 @@ const [showScoreDetails, setShowScoreDetails] = useState(false);
     });
   };
 
+  // Numeric / short text answers are stored as typed
+  const setTextAnswer = (questionId: string, value: string) => {
+    if (submitted) return;
+
+    setAnswers((prev) => {
+      const updated: Record<string, AnswerValue> = { ...prev };
+
+      if (value.trim()) updated[questionId] = value;
+      else delete updated[questionId];
+
+      localStorage.setItem("quiz_answers", JSON.stringify(updated));
+
+      return updated;
+    });
+  };
+
   const incrementTabSwitch = () => {
     const current = Number(localStorage.getItem("quiz_tab_switches") || "0");
     const next = current + 1;
@@ -477,114 +1126,63 @@ const [showScoreDetails, setShowScoreDetails] = useState(false);
       return;
     }
 
-    const latestAnswers: Record<string, number> = auto
+    const latestAnswers: Record<string, AnswerValue> = auto
       ? JSON.parse(localStorage.getItem("quiz_answers") || "{}")
       : answers;
 
-    // ✅ Always use latest questions (state OR localStorage)
-    const latestQuestions: Question[] =
-      questions.length > 0
-        ? questions
-        : JSON.parse(localStorage.getItem("quiz_questions") || "[]");
-
-    let correct = 0;
-    let wrong = 0;
-
-    latestQuestions.forEach((q) => {
-      const selected = latestAnswers[q.id];
-
-      if (selected === q.correct_option_index) {
-        correct++;
-      } else if (selected !== undefined) {
-        wrong++;
-      }
-    });
-
-    let finalScore = correct;
-
-    if (negativeMarkingEnabled) {
-      finalScore = correct - wrong * negativeMarkValue;
-
-      // Prevent negative total score
-      finalScore = Math.max(finalScore, 0);
-    }
-
-    setCorrectCount(correct);
-    setWrongCount(wrong);
-    setScore(finalScore);
-    setSubmitted(true);
-
-    let timeTakenSeconds = 0;
-
-    // Read remaining time from localStorage (auto-submit safe)
-    const savedTimeLeft = localStorage.getItem("quiz_time_left");
-
-    // If quiz has a duration timer
-    if (durationMinutes && savedTimeLeft) {
-      timeTakenSeconds = durationMinutes * 60 - Number(savedTimeLeft);
-    }
-
-    // Backup fallback (only if duration not enabled)
-    else {
-      const startTime = localStorage.getItem("quiz_start_time");
-
-      if (startTime) {
-        timeTakenSeconds = Math.floor((Date.now() - Number(startTime)) / 1000);
-      }
-    }
-
-    // Never allow 0 seconds
-    timeTakenSeconds = Math.max(timeTakenSeconds, 1);
-    setTimeTaken(timeTakenSeconds);
-
     const switches = Number(
       localStorage.getItem("quiz_tab_switches") || "0"
     );
 
-    setTabSwitchCount(switches);
-
-    await supabase.from("quiz_attempts").insert({
-      quiz_id: quizId,
-      user_id: null,
-      participant_name: participantName,
-      answers: latestAnswers,
-      score: finalScore,
-      total_questions: latestQuestions.length,
-      time_taken_seconds: timeTakenSeconds,
-      tab_switch_count: switches,
-    });
-    if (leaderboardEnabled) {
-  const { data, error } = await supabase
-    .from("quiz_leaderboard")
-    .upsert(
+    // ✅ Graded server-side (attempt + leaderboard written by the function)
+    const { data, error } = await supabase.functions.invoke<SubmitResult>(
+      "submit-attempt",
       {
-        quiz_id: quizId,
-        participant_name: participantName,
-        score: finalScore,
-        correct_count: correct,
-        total_questions: latestQuestions.length,
-        time_taken_seconds: timeTakenSeconds,
-        updated_at: new Date(),
+        body: {
+          shareToken,
+          // ✅ Read from storage (auto-submit handlers may hold stale state)
+          sessionId: localStorage.getItem("quiz_session_id"),
+          answers: latestAnswers,
+          tabSwitchCount: switches,
+          questionTimes: readQuestionTimes("quiz_question_times"),
+          proctorEvents: readProctorEvents(),
+        },
       },
-      {
-        onConflict: "quiz_id,participant_name",
-      }
     );
 
-  if (error) {
-    console.error("Leaderboard Upsert Error:", error);
-  }
-}
+    if (error || !data) {
+      toast({
+        title: "Submission failed",
+        description: error?.message ?? "Please try again.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setCorrectCount(data.correct_count);
+    setWrongCount(data.wrong_count);
+    setScore(data.score);
+    setCorrectAnswers(data.correct_answers);
+    setQuestionCredits(data.question_credits);
+    setExplanations(data.explanations);
+    setTimeTaken(data.time_taken_seconds);
+    setTabSwitchCount(data.tab_switch_count);
+    setAnswers(latestAnswers);
+    setSubmitted(true);
+
+    if (data.is_late) {
+      toast({
+        title: "Submitted after the time limit",
+        description: "Your attempt has been flagged as late.",
+        variant: "destructive",
+      });
+    }
 
     await checkAttempts();
     setWarningCount(0);
 
     // ✅ Clear stored progress after submission
-    localStorage.removeItem("quiz_answers");
-    localStorage.removeItem("quiz_start_time");
-    localStorage.removeItem("quiz_time_left");
-    localStorage.removeItem("quiz_questions");
-    localStorage.removeItem("quiz_tab_switches");
+    clearAttemptProgress();
   };
 
   /* --------------------------------------------
@@ -604,39 +1202,13 @@ const [showScoreDetails, setShowScoreDetails] = useState(false);
 
     await checkAttempts();
 
+    clearAttemptProgress();
     localStorage.setItem("quiz_tab_switches", "0");
-    localStorage.removeItem("quiz_answers");
-    localStorage.removeItem("quiz_time_left");
-    localStorage.removeItem("quiz_start_time");
-    localStorage.removeItem("quiz_questions");
-
-    if (durationMinutes) {
-      const freshTime = durationMinutes * 60;
-
-      setTimeLeft(freshTime);
 
-      // Save fresh timer immediately
-      localStorage.setItem("quiz_time_left", freshTime.toString());
-    }
-
-    //  Reload page cleanly
+    //  Reload page cleanly (a fresh server session starts on load)
     window.location.reload();
   };
 
-  const fetchLeaderboard = async () => {
-  const { data } = await supabase
-    .from("quiz_leaderboard")
-    .select("*")
-    .eq("quiz_id", quizId)
-    .order("score", { ascending: false })
-    .order("time_taken_seconds", { ascending: true })
-    .limit(20);
-
-  if (data) setLeaderboard(data);
-};
-
-  const optionLabels = ["A", "B", "C", "D"];
-
   const scrollToQuestion = (index: number) => {
   setCurrentQuestion(index);
 
@@ -657,50 +1229,6 @@ const [showScoreDetails, setShowScoreDetails] = useState(false);
   setNavOpen(false);
 };
 
-useEffect(() => {
-  if (!openLeaderboard || !quizId) return;
-
-  // Fetch immediately when modal opens
-  fetchLeaderboard();
-
-  const interval = setInterval(() => {
-    fetchLeaderboard();
-  }, 5000);
-
-  return () => clearInterval(interval);
-}, [openLeaderboard, quizId]);
-
-
-  /* --------------------------------------------
-   AUTO-DETECT CURRENT QUESTION ON SCROLL
--------------------------------------------- */
-  useEffect(() => {
-    if (questions.length === 0) return;
-
-    const observer = new IntersectionObserver(
-      (entries) => {
-        entries.forEach((entry) => {
-          if (entry.isIntersecting) {
-            const index = Number(entry.target.getAttribute("data-index"));
-
-            setCurrentQuestion(index);
-          }
-        });
-      },
-      {
-        threshold: 0.6, // 60% visible = active
-      },
-    );
-
-    // Observe all question cards
-    questions.forEach((_, index) => {
-      const el = document.getElementById(`question-${index}`);
-      if (el) observer.observe(el);
-    });
-
-    return () => observer.disconnect();
-  }, [questions]);
-
   /* --------------------------------------------
      MAIN UI (STYLING UNCHANGED)
   -------------------------------------------- */
@@ -712,6 +1240,33 @@ useEffect(() => {
         WebkitUserSelect: preventCopyPaste ? "none" : "auto",
       }}
     >
+      {/* ✅ Fullscreen required: quiz stays hidden until re-entered */}
+      {requireFullscreen && !isFullscreen && !submitted && (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center bg-background p-4">
+          <div className="glass-card rounded-xl p-8 w-full max-w-md space-y-4 text-center">
+            <Maximize className="h-10 w-10 text-primary mx-auto" />
+            <h2 className="font-display text-2xl font-bold">
+              Fullscreen Required
+            </h2>
+            <p className="text-muted-foreground text-sm">
+              This quiz must be taken in fullscreen. It is paused until you
+              return, but the timer keeps running.
+            </p>
+            {warningCount > 0 && (
+              <p className="text-sm font-semibold text-destructive">
+                Warnings left: {Math.max(tabWarnings - warningCount, 0)}
+              </p>
+            )}
+            <Button
+              className="w-full gradient-primary text-primary-foreground"
+              onClick={enterFullscreen}
+            >
+              Return to Fullscreen
+            </Button>
+          </div>
+        </div>
+      )}
+
       <header className="border-b border-border bg-card/50 backdrop-blur-sm sticky top-0 z-10">
         <div className="container flex min-h-[4rem] py-3 items-center justify-between">
           <div className="flex items-center gap-3">
@@ -719,7 +1274,7 @@ useEffect(() => {
             <span className="font-display text-lg font-bold ">{quizTitle}</span>
           </div>
 
-          {durationMinutes && timeLeft !== null && !submitted && (
+          {timeLeft !== null && !submitted && (
             <div className="flex items-center gap-2 px-3 py-1 rounded-lg bg-muted text-sm font-semibold">
               <Timer className="h-4 w-4 text-primary" />
               {formatTime(timeLeft)}
@@ -891,68 +1446,132 @@ useEffect(() => {
                 {q.question_text}
               </p>
 
-              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-2 xl:grid-cols-4 gap-3">
-                {q.options.map((opt, oIndex) => {
-                  const isSelected = answers[q.id] === oIndex;
-                  const isCorrect = q.correct_option_index === oIndex;
+              {q.question_type === "multiple" && (
+                <p className="text-xs text-muted-foreground -mt-1 mb-3">
+                  Select all that apply
+                </p>
+              )}
 
-                  let borderClass = "border-border hover:border-primary/30";
+              {hasOptions(q.question_type) ? (
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-2 xl:grid-cols-4 gap-3">
+                  {q.options.map((opt, oIndex) => {
+                    const isSelected = isOptionSelected(answers[q.id], oIndex);
+                    const isCorrect = isCorrectOption(correctAnswers?.[q.id], oIndex);
 
-                  // ✅ Selected option always stays blue (before + after submit)
-                  if (isSelected) {
-                    borderClass =
-                      "border-primary bg-primary/10 ring-1 ring-primary";
-                  }
+                    let borderClass = "border-border hover:border-primary/30";
 
-                  // ✅ Only reveal correct/wrong if showAnswers is enabled
-                  if (submitted && showAnswers) {
-                    if (isCorrect) {
+                    // ✅ Selected option always stays blue (before + after submit)
+                    if (isSelected) {
                       borderClass =
-                        "border-accent bg-accent/10 ring-1 ring-accent";
-                    } else if (isSelected && !isCorrect) {
-                      borderClass =
-                        "border-destructive bg-destructive/10 ring-1 ring-destructive";
+                        "border-primary bg-primary/10 ring-1 ring-primary";
                     }
-                  }
 
-                  return (
-                    <button
-                      key={oIndex}
-                      onClick={() => selectAnswer(q.id, oIndex)}
-                      disabled={submitted}
-                      className={`flex items-center gap-2 rounded-lg border p-3 text-left transition-all ${borderClass}`}
-                    >
-                      <span
-                        className={`flex h-7 w-7 shrink-0 items-center justify-center rounded-full text-xs font-bold ${
-                          // ✅ Exam Mode: No correct/wrong reveal
-                          submitted && !showAnswers
-                            ? isSelected
-                              ? "bg-primary text-primary-foreground"
-                              : "bg-muted text-muted-foreground"
-                            : // ✅ Normal Mode: Show correct + wrong after submit
-                              submitted && showAnswers
-                              ? isCorrect
-                                ? "bg-accent text-accent-foreground"
-                                : isSelected
-                                  ? "bg-destructive text-destructive-foreground"
-                                  : "bg-muted text-muted-foreground"
-                              : // ✅ Before submission
-                                isSelected
+                    // ✅ Only reveal correct/wrong if showAnswers is enabled
+                    if (submitted && showAnswers) {
+                      if (isCorrect) {
+                        borderClass =
+                          "border-accent bg-accent/10 ring-1 ring-accent";
+                      } else if (isSelected && !isCorrect) {
+                        borderClass =
+                          "border-destructive bg-destructive/10 ring-1 ring-destructive";
+                      }
+                    }
+
+                    return (
+                      <button
+                        key={oIndex}
+                        onClick={() => selectAnswer(q, oIndex)}
+                        disabled={submitted}
+                        className={`flex items-center gap-2 rounded-lg border p-3 text-left transition-all ${borderClass}`}
+                      >
+                        <span
+                          className={`flex h-7 w-7 shrink-0 items-center justify-center text-xs font-bold ${
+                            // ✅ Square chip = checkbox, round chip = single choice
+                            q.question_type === "multiple" ? "rounded-md" : "rounded-full"
+                          } ${
+                            // ✅ Exam Mode: No correct/wrong reveal
+                            submitted && !showAnswers
+                              ? isSelected
                                 ? "bg-primary text-primary-foreground"
                                 : "bg-muted text-muted-foreground"
-                        }`}
-                      >
-                        {optionLabels[oIndex]}
-                      </span>
-                      <span
-                        className={`text-sm ${preventCopyPaste ? "no-copy" : ""}`}
-                      >
-                        {opt}
+                              : // ✅ Normal Mode: Show correct + wrong after submit
+                                submitted && showAnswers
+                                ? isCorrect
+                                  ? "bg-accent text-accent-foreground"
+                                  : isSelected
+                                    ? "bg-destructive text-destructive-foreground"
+                                    : "bg-muted text-muted-foreground"
+                                : // ✅ Before submission
+                                  isSelected
+                                  ? "bg-primary text-primary-foreground"
+                                  : "bg-muted text-muted-foreground"
+                          }`}
+                        >
+                          {optionLabel(oIndex)}
+                        </span>
+                        <span
+                          className={`text-sm ${preventCopyPaste ? "no-copy" : ""}`}
+                        >
+                          {opt}
+                        </span>
+                      </button>
+                    );
+                  })}
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <Input
+                    type={q.question_type === "numeric" ? "number" : "text"}
+                    step={q.question_type === "numeric" ? "any" : undefined}
+                    inputMode={q.question_type === "numeric" ? "decimal" : "text"}
+                    value={typeof answers[q.id] === "string" ? (answers[q.id] as string) : ""}
+                    onChange={(e) => setTextAnswer(q.id, e.target.value)}
+                    disabled={submitted}
+                    placeholder={
+                      q.question_type === "numeric"
+                        ? "Enter a number"
+                        : "Type your answer"
+                    }
+                    className={`max-w-md ${
+                      submitted && showAnswers && questionCredits
+                        ? questionCredits[q.id] === 1
+                          ? "border-accent ring-1 ring-accent"
+                          : "border-destructive ring-1 ring-destructive"
+                        : ""
+                    } ${preventCopyPaste ? "no-copy" : ""}`}
+                  />
+
+                  {/* ✅ Review: typed answers show the accepted answer */}
+                  {submitted && showAnswers && correctAnswers && (
+                    <p className="text-xs text-muted-foreground">
+                      Correct answer:{" "}
+                      <span className="font-semibold text-foreground">
+                        {String(correctAnswers[q.id] ?? "")}
                       </span>
-                    </button>
-                  );
-                })}
-              </div>
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {/* ✅ Partial credit note (multiple-select review) */}
+              {submitted &&
+                questionCredits?.[q.id] !== undefined &&
+                questionCredits[q.id] > 0 &&
+                questionCredits[q.id] < 1 && (
+                  <p className="mt-3 text-xs font-medium text-yellow-600">
+                    Partial credit: {Math.round(questionCredits[q.id] * 100)}%
+                  </p>
+                )}
+
+              {/* ✅ Explanation (only sent when answers are revealed) */}
+              {submitted && showAnswers && explanations?.[q.id] && (
+                <div className="mt-4 rounded-lg border border-border bg-muted/40 p-3">
+                  <p className="mb-1 text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+                    Explanation
+                  </p>
+                  <Markdown>{explanations[q.id]}</Markdown>
+                </div>
+              )}
             </div>
           ))}
         </div>
@@ -981,7 +1600,7 @@ useEffect(() => {
                 <div className="grid grid-cols-6 sm:grid-cols-8 gap-2 justify-items-center place-content-center">
 
                   {questions.map((q, i) => {
-                    const answered = answers[q.id] !== undefined;
+                    const answered = isAnswered(answers[q.id]);
                     const active = currentQuestion === i;
 
                     let pillClass =
@@ -1026,7 +1645,7 @@ useEffect(() => {
                 {/* Desktop Navigator */}
               <div className="hidden md:flex flex-1 justify-center gap-2 overflow-x-auto px-2">
                 {questions.map((q, i) => {
-                  const answered = answers[q.id] !== undefined;
+                  const answered = isAnswered(answers[q.id]);
                   const active = currentQuestion === i;
 
                   let pillClass =
@@ -1136,7 +1755,11 @@ useEffect(() => {
           </AlertDialogHeader>
 
           <div className="space-y-4 max-h-[420px] overflow-y-auto mt-4 pr-1">
-            
+            <GroupFilter
+              groups={groupsFrom(roster)}
+              value={rosterGroup}
+              onChange={setRosterGroup}
+            />
 
   {leaderboard.length === 0 ? (
     <p className="text-sm text-muted-foreground text-center py-8">
@@ -1145,8 +1768,7 @@ useEffect(() => {
   ) : (
     
     leaderboard.map((entry, index) => {
-  const isCurrentUser =
-    entry.participant_name === participantName;
+  const isCurrentUser = entry.is_you;
 
   const percentage =
     entry.total_questions > 0
@@ -0,0 +1,147 @@
+import { describe, it, expect } from "vitest";
+import {
+  analyseItems,
+  averageQuestionTimes,
+  discriminationLabel,
+  isFastAnswer,
+  type AnalysisAttempt,
+  type AnalysisQuestion,
+} from "@/lib/itemAnalysis";
+
+const single = (id: string): AnalysisQuestion => ({
+  id,
+  question_text: id,
+  question_type: "single",
+  options: ["a", "b", "c"],
+  correct_option_index: 0,
+});
+
+const attempt = (
+  answers: Record<string, number>,
+  credits: Record<string, number>
+): AnalysisAttempt => ({ answers, question_credits: credits });
+
+describe("analyseItems", () => {
+  const questions = [single("q1"), single("q2"), single("q3")];
+
+  // Totals 2, 1, 2, 1: A is the upper group and D the lower one
+  const attempts = [
+    attempt({ q1: 0, q2: 0, q3: 1 }, { q1: 1, q2: 1, q3: 0 }),
+    attempt({ q1: 0, q2: 1, q3: 1 }, { q1: 1, q2: 0, q3: 0 }),
+    attempt({ q1: 1, q2: 0, q3: 0 }, { q1: 0, q2: 1, q3: 1 }),
+    attempt({ q1: 2, q2: 1, q3: 0 }, { q1: 0, q2: 0, q3: 1 }),
+  ];
+
+  const [q1, q2, q3] = analyseItems(questions, attempts);
+
+  it("reports difficulty as mean credit", () => {
+    expect(q1.difficulty).toBe(0.5);
+    expect(q1.responses).toBe(4);
+    expect(q1.unanswered).toBe(0);
+  });
+
+  it("correlates credit with the rest of the score", () => {
+    // Credits 0,0,1,1 against rest scores 2,1,1,0
+    expect(q3.discrimination).toBeCloseTo(-Math.SQRT1_2);
+    expect(discriminationLabel(q3.discrimination)).toBe("Review");
+  });
+
+  it("leaves discrimination undefined when the rest scores are equal", () => {
+    expect(q2.discrimination).toBeNull();
+  });
+
+  it("counts picks and flags distractors that draw the upper group", () => {
+    expect(q3.options.map((o) => o.picked)).toEqual([2, 2, 0]);
+    expect(q3.options[0]).toMatchObject({ correct: true, flagged: false });
+    expect(q3.options[1]).toMatchObject({
+      correct: false,
+      upperRate: 1,
+      lowerRate: 0,
+      flagged: true,
+    });
+    expect(q1.options.some((o) => o.flagged)).toBe(false);
+  });
+
+  it("skips attempts that were not shown the question", () => {
+    const numeric: AnalysisQuestion = {
+      id: "n",
+      question_text: "n",
+      question_type: "numeric",
+      options: [],
+      correct_option_index: 0,
+    };
+
+    const [stats] = analyseItems(
+      [numeric],
+      [
+        { answers: { n: "4" }, question_credits: { n: 1 }, question_ids: ["n"] },
+        { answers: {}, question_credits: {} },
+        { answers: { x: 0 }, question_credits: { x: 1 }, question_ids: ["x"] },
+      ]
+    );
+
+    expect(stats.responses).toBe(2);
+    expect(stats.unanswered).toBe(1);
+    expect(stats.difficulty).toBe(0.5);
+    expect(stats.options).toEqual([]);
+  });
+
+  it("counts answers given in under a quarter of the average time", () => {
+    const [stats] = analyseItems(
+      [single("q1")],
+      [
+        { answers: { q1: 0 }, question_times: { q1: 2 } },
+        { answers: { q1: 0 }, question_times: { q1: 30 } },
+        { answers: { q1: 0 }, question_times: { q1: 28 } },
+        { answers: {}, question_times: { q1: 0 } },
+      ]
+    );
+
+    expect(stats.avgSeconds).toBe(15);
+    expect(stats.fastAnswers).toBe(1);
+  });
+
+  it("returns empty statistics without attempts", () => {
+    const [stats] = analyseItems([single("q1")], []);
+
+    expect(stats.difficulty).toBeNull();
+    expect(stats.discrimination).toBeNull();
+    expect(stats.avgSeconds).toBeNull();
+  });
+});
+
+describe("averageQuestionTimes", () => {
+  it("averages only the attempts that recorded timings", () => {
+    expect(
+      averageQuestionTimes([
+        { question_times: { q1: 10, q2: 4 } },
+        { question_times: { q1: 20 } },
+        {},
+      ])
+    ).toEqual({ q1: 15, q2: 4 });
+  });
+});
+
+describe("isFastAnswer", () => {
+  it.each([
+    [3, 20, true],
+    [5, 20, false],
+    [1, 0, false],
+    [1, undefined, false],
+  ])("%d seconds against an average of %s is %s", (seconds, average, fast) => {
+    expect(isFastAnswer(seconds, average)).toBe(fast);
+  });
+});
+
+describe("discriminationLabel", () => {
+  it.each([
+    [null, "n/a"],
+    [-0.1, "Review"],
+    [0, "Poor"],
+    [0.19, "Poor"],
+    [0.2, "Fair"],
+    [0.3, "Good"],
+  ])("labels %s as %s", (value, label) => {
+    expect(discriminationLabel(value)).toBe(label);
+  });
+});
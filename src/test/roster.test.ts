@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import {
+  emptiedGroups,
+  formatRosterText,
+  groupsFrom,
+  parseRosterText,
+  rosterGroupNames,
+} from "@/lib/roster";
+
+describe("parseRosterText", () => {
+  it("reads ID, name and group per line", () => {
+    expect(parseRosterText("S1, Ada Lovelace, 10A\nS2,Alan Turing\n\nS3")).toEqual({
+      members: [
+        { student_id: "S1", name: "Ada Lovelace", group: "10A" },
+        { student_id: "S2", name: "Alan Turing", group: "" },
+        { student_id: "S3", name: "S3", group: "" },
+      ],
+      duplicates: 0,
+    });
+  });
+
+  it.each([
+    ["a header row", "Student ID,Name,Group\nS1,Ada,10A"],
+    ["a roll number header", "Roll No\tName\nS1\tAda\t10A"],
+    ["a byte order mark", "\uFEFFstudent_id;name;group\r\nS1;Ada;10A"],
+  ])("skips %s", (_, text) => {
+    expect(parseRosterText(text).members.map((m) => m.student_id)).toEqual(["S1"]);
+  });
+
+  it("only treats the first line as a header", () => {
+    expect(parseRosterText("S1,Ada\nid,Someone").members).toHaveLength(2);
+  });
+
+  it("keeps commas and quotes inside quoted fields", () => {
+    expect(parseRosterText('S1,"Lovelace, Ada","Year ""10"""').members[0]).toEqual({
+      student_id: "S1",
+      name: "Lovelace, Ada",
+      group: 'Year "10"',
+    });
+  });
+
+  it("keeps the first line for repeated IDs", () => {
+    const { members, duplicates } = parseRosterText("S1,Ada\ns1,Someone else\nS2,Alan\nS1,Again");
+
+    expect(members.map((m) => m.name)).toEqual(["Ada", "Alan"]);
+    expect(duplicates).toBe(2);
+  });
+
+  it("round-trips formatted rosters", () => {
+    const { members } = parseRosterText('S1,"Lovelace, Ada",10A\nS2,Alan');
+
+    expect(parseRosterText(formatRosterText(members)).members).toEqual(members);
+  });
+});
+
+describe("rosterGroupNames", () => {
+  it("lists distinct groups in first-seen order", () => {
+    const { members } = parseRosterText("S1,A,10B\nS2,B,10a\nS3,C\nS4,D,10A");
+
+    expect(rosterGroupNames(members)).toEqual(["10B", "10a"]);
+  });
+});
+
+describe("emptiedGroups", () => {
+  it("lists saved groups no student is in any more", () => {
+    const { members } = parseRosterText("S1,A,10b\nS2,B");
+    const groups = ["10B", "10C"].map((name, i) => ({
+      id: `g${i}`,
+      roster_id: "r1",
+      name,
+    }));
+
+    expect(emptiedGroups(groups, members)).toEqual(["10C"]);
+  });
+});
+
+describe("groupsFrom", () => {
+  it("collects named groups sorted by name", () => {
+    expect(
+      groupsFrom([
+        { group_id: "g2", group_name: "Beta" },
+        { group_id: "g1", group_name: "Alpha" },
+        { group_id: "g2", group_name: "Beta" },
+        { group_id: null, group_name: null },
+      ])
+    ).toEqual([
+      { id: "g1", name: "Alpha" },
+      { id: "g2", name: "Beta" },
+    ]);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  clearAttemptProgress,
+  rememberAccessCode,
+  sessionStartArgs,
+} from "@/lib/shareSession";
+
+describe("share page session storage", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    sessionStorage.clear();
+  });
+
+  it("starts a retry through a coded link with the same code", () => {
+    localStorage.setItem("quiz_participant", "Ada");
+    localStorage.setItem("quiz_identity", "S1");
+    rememberAccessCode("link-1", "OWL42");
+
+    // First attempt: session started, then submitted
+    localStorage.setItem("quiz_session_id", "session-1");
+    localStorage.setItem("quiz_resume_token", "secret-1");
+    localStorage.setItem("quiz_answers", '{"q1":0}');
+    clearAttemptProgress();
+
+    expect(sessionStartArgs("link-1")).toEqual({
+      _share_token: "link-1",
+      _participant_name: "Ada",
+      _identity_value: "S1",
+      _access_code: "OWL42",
+      _resume_token: undefined,
+    });
+    expect(localStorage.getItem("quiz_session_id")).toBeNull();
+    expect(localStorage.getItem("quiz_answers")).toBeNull();
+  });
+
+  it("resumes with the session's token", () => {
+    localStorage.setItem("quiz_resume_token", "secret-1");
+
+    expect(sessionStartArgs("link-1")._resume_token).toBe("secret-1");
+  });
+
+  it("keeps codes per link", () => {
+    rememberAccessCode("link-1", "OWL42");
+
+    expect(sessionStartArgs("link-2")._access_code).toBeUndefined();
+
+    rememberAccessCode("link-1", "");
+    expect(sessionStartArgs("link-1")._access_code).toBeUndefined();
+  });
+});
@@ -0,0 +1,238 @@
+// -------------------------------
+// Grading and saving a session's attempt (used by submit-attempt and
+// finalise-sessions)
+// -------------------------------
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  gradeAttempt,
+  unshuffleAnswer,
+  type AnswerValue,
+  type GradableQuestion,
+  type GradingResult,
+  type MultiSelectScoring,
+  type OptionOrders,
+} from "./grading.ts";
+
+// Late auto-submits (slow network, throttled background tab) still count
+export const SUBMIT_GRACE_SECONDS = 30;
+
+export class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+export const SESSION_COLUMNS =
+  "id, quiz_id, user_id, participant_name, participant_key, participant_identity, group_id, share_link_id, version_id, started_at, expires_at, submitted_at, question_ids, option_orders, draft_answers, answers_saved_at";
+
+export interface QuizSession {
+  id: string;
+  quiz_id: string;
+  user_id: string | null;
+  participant_name: string;
+  participant_key: string;
+  participant_identity: string | null;
+  group_id: string | null;
+  share_link_id: string | null;
+  version_id: string | null;
+  started_at: string;
+  expires_at: string | null;
+  submitted_at: string | null;
+  question_ids: string[] | null;
+  option_orders: OptionOrders | null;
+  // Answers saved while the student went (displayed option positions)
+  draft_answers: Record<string, AnswerValue> | null;
+  answers_saved_at: string | null;
+}
+
+export const GRADING_QUIZ_COLUMNS =
+  "id, leaderboard_enabled, negative_marking_enabled, negative_mark_value, multi_select_scoring";
+
+export interface GradingQuiz {
+  id: string;
+  leaderboard_enabled: boolean | null;
+  negative_marking_enabled: boolean | null;
+  negative_mark_value: number | string | null;
+  multi_select_scoring: MultiSelectScoring | null;
+}
+
+export type SessionQuestion = GradableQuestion & { explanation?: string | null };
+
+// -------------------------------
+// Time Taken + Lateness (server clock)
+// -------------------------------
+export function sessionTiming(session: QuizSession, at: Date) {
+  const startedAt = new Date(session.started_at).getTime();
+  const elapsedSeconds = Math.floor((at.getTime() - startedAt) / 1000);
+
+  let isLate = false;
+  let timeTaken = Math.max(elapsedSeconds, 1);
+
+  if (session.expires_at) {
+    const expiresAt = new Date(session.expires_at).getTime();
+    const allowedSeconds = Math.floor((expiresAt - startedAt) / 1000);
+
+    isLate = at.getTime() > expiresAt + SUBMIT_GRACE_SECONDS * 1000;
+
+    // On-time submits inside the grace window count as the full duration
+    if (!isLate) timeTaken = Math.min(timeTaken, allowedSeconds);
+  }
+
+  return { elapsedSeconds, timeTaken, isLate };
+}
+
+// -------------------------------
+// Questions a session is graded against
+// -------------------------------
+// The session was pinned to the version live when it started, so edits
+// made during the attempt don't change what it is graded against.
+// Sessions from before pinning have no version and use live questions.
+// Only the questions this participant drew (random pools), in their order.
+export async function loadSessionQuestions(
+  supabase: SupabaseClient,
+  session: QuizSession,
+): Promise<{ versionId: string | null; questions: SessionQuestion[] }> {
+  const { data: version, error: vError } = session.version_id
+    ? await supabase
+        .from("quiz_versions")
+        .select("id, questions")
+        .eq("id", session.version_id)
+        .maybeSingle()
+    : { data: null, error: null };
+
+  if (vError) throw new Error(vError.message);
+
+  const { data: liveQuestions, error: qError } = version
+    ? { data: null, error: null }
+    : await supabase
+        .from("questions")
+        .select(
+          "id, question_type, options, correct_option_index, correct_option_indices, numeric_answer, numeric_tolerance, numeric_tolerance_type, accepted_answers, text_match_mode, explanation",
+        )
+        .eq("quiz_id", session.quiz_id)
+        .order("order_num");
+
+  if (qError) throw new Error(qError.message);
+
+  const quizQuestions: SessionQuestion[] =
+    (version ? version.questions : liveQuestions) || [];
+
+  const drawn = session.question_ids;
+  const questions = drawn
+    ? quizQuestions
+        .filter((q) => drawn.includes(q.id))
+        .sort((a, b) => drawn.indexOf(a.id) - drawn.indexOf(b.id))
+    : quizQuestions;
+
+  return { versionId: version?.id ?? null, questions };
+}
+
+export interface AttemptInput {
+  quiz: GradingQuiz;
+  session: QuizSession;
+  questions: SessionQuestion[];
+  versionId: string | null;
+  userId: string | null;
+  // As displayed (shuffled option positions)
+  answers: Record<string, AnswerValue>;
+  submittedAt: Date;
+  timeTaken: number;
+  isLate: boolean;
+  // Creator previews stay off the leaderboard
+  leaderboard: boolean;
+  // Browser-reported extras (tab switches, per-question times, proctoring)
+  extras?: Record<string, unknown>;
+}
+
+// -------------------------------
+// Grade + Save Attempt + Leaderboard
+// -------------------------------
+export async function saveAttempt(
+  supabase: SupabaseClient,
+  input: AttemptInput,
+): Promise<{ result: GradingResult; optionOrders: OptionOrders }> {
+  const { quiz, session, questions } = input;
+
+  // Shuffled options: answers arrive as displayed positions, so map them
+  // back to original indices before grading and storing
+  const optionOrders: OptionOrders = session.option_orders ?? {};
+  const answers: Record<string, AnswerValue> = Object.fromEntries(
+    Object.entries(input.answers).map(([id, answer]) => [
+      id,
+      unshuffleAnswer(answer, optionOrders[id]),
+    ]),
+  );
+
+  const result = gradeAttempt(questions, answers, {
+    negativeMarkingEnabled: quiz.negative_marking_enabled ?? false,
+    negativeMarkValue: Number(quiz.negative_mark_value ?? 0),
+    multiSelectScoring: quiz.multi_select_scoring ?? "all_or_nothing",
+  });
+
+  // Claim the session so a double submit cannot insert twice. Grading
+  // reads happen before this, and a failed insert releases the claim,
+  // so an error never leaves the attempt unsubmittable.
+  const { data: claimed, error: claimError } = await supabase
+    .from("quiz_sessions")
+    .update({ submitted_at: input.submittedAt.toISOString() })
+    .eq("id", session.id)
+    .is("submitted_at", null)
+    .select("id");
+
+  if (claimError) throw new Error(claimError.message);
+
+  if (!claimed?.length) {
+    throw new HttpError(409, "This attempt was already submitted");
+  }
+
+  const { error: insertError } = await supabase.from("quiz_attempts").insert({
+    ...input.extras,
+    quiz_id: quiz.id,
+    user_id: input.userId,
+    participant_name: session.participant_name,
+    participant_key: session.participant_key,
+    participant_identity: session.participant_identity,
+    group_id: session.group_id,
+    share_link_id: session.share_link_id,
+    answers,
+    score: result.score,
+    question_credits: result.credits,
+    total_questions: questions.length,
+    time_taken_seconds: input.timeTaken,
+    session_id: session.id,
+    question_ids: questions.map((q) => q.id),
+    option_orders: optionOrders,
+    version_id: input.versionId,
+    is_late: input.isLate,
+  });
+
+  if (insertError) {
+    await supabase
+      .from("quiz_sessions")
+      .update({ submitted_at: null })
+      .eq("id", session.id);
+
+    throw new Error(insertError.message);
+  }
+
+  if (input.leaderboard && (quiz.leaderboard_enabled ?? true)) {
+    const { error } = await supabase.from("quiz_leaderboard").upsert(
+      {
+        quiz_id: quiz.id,
+        participant_name: session.participant_name,
+        participant_key: session.participant_key,
+        group_id: session.group_id,
+        score: result.score,
+        correct_count: result.correctCount,
+        total_questions: questions.length,
+        time_taken_seconds: input.timeTaken,
+        updated_at: new Date(),
+      },
+      { onConflict: "quiz_id,participant_key" },
+    );
+
+    if (error) console.error("Leaderboard Upsert Error:", error);
+  }
+
+  return { result, optionOrders };
+}
@@ -0,0 +1,269 @@
+// -------------------------------
+// Shared grading logic (used by submit-attempt)
+// -------------------------------
+
+export type QuestionType =
+  | "single"
+  | "multiple"
+  | "true_false"
+  | "numeric"
+  | "short_text";
+
+export type MultiSelectScoring = "all_or_nothing" | "partial" | "partial_penalty";
+
+export type ToleranceType = "absolute" | "percent";
+
+export type TextMatchMode = "exact" | "normalized" | "regex";
+
+// Option types → option index (or indices), numeric / short text → typed string
+export type AnswerValue = number | number[] | string;
+
+export interface GradableQuestion {
+  id: string;
+  question_type?: QuestionType | null;
+  options?: string[];
+  correct_option_index: number;
+  correct_option_indices?: number[] | null;
+  numeric_answer?: number | string | null;
+  numeric_tolerance?: number | string | null;
+  numeric_tolerance_type?: ToleranceType | null;
+  accepted_answers?: string[] | null;
+  text_match_mode?: TextMatchMode | null;
+}
+
+export interface GradingSettings {
+  negativeMarkingEnabled: boolean;
+  negativeMarkValue: number;
+  multiSelectScoring?: MultiSelectScoring;
+}
+
+export interface GradingResult {
+  score: number;
+  correctCount: number;
+  wrongCount: number;
+  // question id → answered fully correctly
+  results: Record<string, boolean>;
+  // question id → credit earned (0..1)
+  credits: Record<string, number>;
+}
+
+const isAnswered = (value: AnswerValue | undefined | null) =>
+  value !== undefined &&
+  value !== null &&
+  (!Array.isArray(value) || value.length > 0) &&
+  (typeof value !== "string" || value.trim() !== "");
+
+const normalizeText = (text: string) =>
+  text.trim().replace(/\s+/g, " ").toLowerCase();
+
+// Credit (0..1) for a "select all that apply" question
+export function gradeMultiSelect(
+  selected: number[],
+  correct: number[],
+  optionCount: number,
+  scoring: MultiSelectScoring,
+): number {
+  const picked = new Set(selected);
+  const key = new Set(correct);
+
+  const rightPicks = [...picked].filter((i) => key.has(i)).length;
+  const wrongPicks = picked.size - rightPicks;
+
+  if (scoring === "partial") {
+    // Per option: each option judged right when its checked state matches the key
+    const total = Math.max(optionCount, key.size, 1);
+    const missed = key.size - rightPicks;
+    return (total - wrongPicks - missed) / total;
+  }
+
+  if (scoring === "partial_penalty") {
+    // Each correct pick earns a share, each wrong pick takes one back
+    if (key.size === 0) return 0;
+    return Math.max((rightPicks - wrongPicks) / key.size, 0);
+  }
+
+  // all_or_nothing
+  return rightPicks === key.size && wrongPicks === 0 ? 1 : 0;
+}
+
+export function gradeNumeric(
+  answer: string | number,
+  expected: number,
+  tolerance: number,
+  toleranceType: ToleranceType,
+): number {
+  const value = Number(String(answer).trim());
+  if (!Number.isFinite(value)) return 0;
+
+  const allowed =
+    toleranceType === "percent"
+      ? Math.abs(expected) * (tolerance / 100)
+      : tolerance;
+
+  // Small epsilon so 0.1 + 0.2 style float noise never fails an exact answer
+  return Math.abs(value - expected) <= allowed + 1e-9 ? 1 : 0;
+}
+
+export function gradeShortText(
+  answer: string,
+  accepted: string[],
+  mode: TextMatchMode,
+): number {
+  const given = String(answer);
+
+  const matched = accepted.some((candidate) => {
+    if (mode === "regex") {
+      try {
+        return new RegExp(`^(?:${candidate})$`, "i").test(given.trim());
+      } catch {
+        // An invalid pattern never matches
+        return false;
+      }
+    }
+
+    if (mode === "exact") return given.trim() === candidate.trim();
+
+    return normalizeText(given) === normalizeText(candidate);
+  });
+
+  return matched ? 1 : 0;
+}
+
+export function gradeQuestion(
+  question: GradableQuestion,
+  answer: AnswerValue,
+  settings: GradingSettings,
+): number {
+  if (question.question_type === "multiple") {
+    const selected = Array.isArray(answer) ? answer : [answer];
+
+    return gradeMultiSelect(
+      selected,
+      question.correct_option_indices || [],
+      question.options?.length ?? 0,
+      settings.multiSelectScoring ?? "all_or_nothing",
+    );
+  }
+
+  if (question.question_type === "numeric") {
+    if (Array.isArray(answer) || question.numeric_answer == null) return 0;
+
+    return gradeNumeric(
+      answer,
+      Number(question.numeric_answer),
+      Number(question.numeric_tolerance ?? 0),
+      question.numeric_tolerance_type ?? "absolute",
+    );
+  }
+
+  if (question.question_type === "short_text") {
+    if (typeof answer !== "string") return 0;
+
+    return gradeShortText(
+      answer,
+      question.accepted_answers || [],
+      question.text_match_mode ?? "normalized",
+    );
+  }
+
+  // single + true_false
+  return answer === question.correct_option_index ? 1 : 0;
+}
+
+export function gradeAttempt(
+  questions: GradableQuestion[],
+  answers: Record<string, AnswerValue>,
+  settings: GradingSettings,
+): GradingResult {
+  let earned = 0;
+  let correct = 0;
+  let wrong = 0;
+  const results: Record<string, boolean> = {};
+  const credits: Record<string, number> = {};
+
+  questions.forEach((q) => {
+    const selected = answers[q.id];
+
+    if (!isAnswered(selected)) return;
+
+    const credit = gradeQuestion(q, selected, settings);
+
+    earned += credit;
+    credits[q.id] = credit;
+    results[q.id] = credit === 1;
+
+    if (credit === 1) correct++;
+    // Partially correct answers are not penalised
+    else if (credit === 0) wrong++;
+  });
+
+  let score = earned;
+
+  if (settings.negativeMarkingEnabled) {
+    score = earned - wrong * settings.negativeMarkValue;
+
+    // Prevent negative total score
+    score = Math.max(score, 0);
+  }
+
+  // Keep fractional partial credit readable (e.g. 3.67)
+  score = Math.round(score * 100) / 100;
+
+  return { score, correctCount: correct, wrongCount: wrong, results, credits };
+}
+
+// Answer key as sent back for review (only when answers may be shown).
+// Numeric / short text keys are display strings, e.g. "9.81 (± 1%)".
+export function answerKey(question: GradableQuestion): AnswerValue {
+  if (question.question_type === "multiple") {
+    return question.correct_option_indices || [];
+  }
+
+  if (question.question_type === "numeric") {
+    const tolerance = Number(question.numeric_tolerance ?? 0);
+    const unit = question.numeric_tolerance_type === "percent" ? "%" : "";
+
+    return tolerance > 0
+      ? `${question.numeric_answer} (± ${tolerance}${unit})`
+      : String(question.numeric_answer ?? "");
+  }
+
+  if (question.question_type === "short_text") {
+    return (question.accepted_answers || []).join(" / ");
+  }
+
+  return question.correct_option_index;
+}
+
+// -------------------------------
+// Option shuffling (randomise_options)
+// order[displayIndex] = originalIndex, per question id
+// -------------------------------
+export type OptionOrders = Record<string, number[]>;
+
+// Participant's displayed choice(s) → original option indices
+export function unshuffleAnswer(answer: AnswerValue, order?: number[]): AnswerValue {
+  if (!order || typeof answer === "string") return answer;
+
+  if (Array.isArray(answer)) {
+    return answer.map((i) => order[i] ?? i).sort((a, b) => a - b);
+  }
+
+  return order[answer] ?? answer;
+}
+
+// Original answer key → indices as the participant saw them
+export function shuffleAnswerKey(key: AnswerValue, order?: number[]): AnswerValue {
+  if (!order || typeof key === "string") return key;
+
+  const toDisplay = (i: number) => {
+    const pos = order.indexOf(i);
+    return pos === -1 ? i : pos;
+  };
+
+  if (Array.isArray(key)) {
+    return key.map(toDisplay).sort((a, b) => a - b);
+  }
+
+  return toDisplay(key);
+}
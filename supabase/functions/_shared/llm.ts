@@ -0,0 +1,186 @@
+// -------------------------------
+// LLM providers (used by generate-quiz)
+// -------------------------------
+//
+// LLM_PROVIDER picks the backend:
+//   gemini (default)  GEMINI_API_KEY, optional GEMINI_MODEL
+//   openai            any OpenAI-compatible /chat/completions endpoint
+//                     (OpenAI, llama.cpp server, Ollama, ...):
+//                     LLM_MODEL, optional LLM_BASE_URL and LLM_API_KEY
+//   mock              deterministic fixtures, no network; LLM_MOCK_RESPONSE
+//                     replaces the generated reply when set
+
+export type LlmProviderName = "gemini" | "openai" | "mock";
+
+export interface LlmProvider {
+  name: LlmProviderName;
+  // Plain-text reply to a single user prompt
+  complete(prompt: string): Promise<string>;
+}
+
+const DEFAULT_GEMINI_MODEL = "gemini-2.5-flash";
+const DEFAULT_OPENAI_BASE_URL = "https://api.openai.com/v1";
+
+// -------------------------------
+// Gemini
+// -------------------------------
+export const geminiProvider = (
+  apiKey: string,
+  model = DEFAULT_GEMINI_MODEL
+): LlmProvider => ({
+  name: "gemini",
+  async complete(prompt) {
+    const response = await fetch(
+      `https://generativelanguage.googleapis.com/v1/models/${model}:generateContent?key=${apiKey}`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          contents: [
+            {
+              role: "user",
+              parts: [{ text: prompt }],
+            },
+          ],
+        }),
+      }
+    );
+
+    if (!response.ok) {
+      const errText = await response.text();
+      console.error("Gemini API Error:", errText);
+      throw new Error("Gemini generation failed");
+    }
+
+    const data = await response.json();
+
+    // Gemini returns text output inside:
+    const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
+
+    if (!text) {
+      throw new Error("No response text from Gemini");
+    }
+
+    return text;
+  },
+});
+
+// -------------------------------
+// OpenAI-compatible
+// -------------------------------
+export const openAiProvider = (
+  model: string,
+  baseUrl = DEFAULT_OPENAI_BASE_URL,
+  apiKey?: string
+): LlmProvider => ({
+  name: "openai",
+  async complete(prompt) {
+    const response = await fetch(`${baseUrl.replace(/\/+$/, "")}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        // Local servers usually run without a key
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        messages: [{ role: "user", content: prompt }],
+      }),
+    });
+
+    if (!response.ok) {
+      const errText = await response.text();
+      console.error("OpenAI-compatible API Error:", errText);
+      throw new Error("LLM generation failed");
+    }
+
+    const data = await response.json();
+    const text = data.choices?.[0]?.message?.content;
+
+    if (!text) {
+      throw new Error("No response text from LLM");
+    }
+
+    return text;
+  },
+});
+
+// -------------------------------
+// Mock (fixtures)
+// -------------------------------
+
+// Same prompt in, same quiz out. Prompts that embed a quiz (e.g. the
+// rewrite pass) get that quiz back; otherwise the question count and
+// topic are read from the prompt, and material prompts ("[12] text")
+// get questions citing their passages in turn. Explanation prompts get
+// an explanation.
+const mockQuiz = (prompt: string) => {
+  const embedded = prompt.match(/^\{"title".*\}$/m);
+  if (embedded) return embedded[0];
+
+  if (/^\{"explanation"/m.test(prompt)) {
+    return JSON.stringify({ explanation: "Mock explanation from the fixture provider." });
+  }
+
+  const count = Number(prompt.match(/exactly (\d+) (?:new |quiz )?questions?\b/)?.[1] ?? 3);
+  const topic = prompt.match(/about "([^"]*)"/)?.[1] ?? "the document";
+  const passages = [...prompt.matchAll(/^\[(\d+)\] (.+)$/gm)];
+
+  return JSON.stringify({
+    title: `Mock Quiz: ${topic}`,
+    questions: Array.from({ length: count }, (_, i) => ({
+      question_text: `Mock question ${i + 1} about ${topic}?`,
+      question_type: "single",
+      options: ["Option A", "Option B", "Option C", "Option D"],
+      correct_option_index: i % 4,
+      correct_option_indices: [],
+      explanation: `Option ${"ABCD"[i % 4]} is correct in this fixture.`,
+      ...(passages.length
+        ? {
+            source_passage: Number(passages[i % passages.length][1]),
+            source_quote: passages[i % passages.length][2].split(" ").slice(0, 8).join(" "),
+          }
+        : {}),
+    })),
+  });
+};
+
+export const mockProvider = (fixedResponse?: string): LlmProvider => ({
+  name: "mock",
+  complete(prompt) {
+    return Promise.resolve(fixedResponse ?? mockQuiz(prompt));
+  },
+});
+
+// -------------------------------
+// Selection
+// -------------------------------
+export const providerFromEnv = (): LlmProvider => {
+  const name = (Deno.env.get("LLM_PROVIDER") || "gemini").toLowerCase();
+
+  if (name === "gemini") {
+    const apiKey = Deno.env.get("GEMINI_API_KEY");
+    if (!apiKey) throw new Error("GEMINI_API_KEY not configured");
+
+    return geminiProvider(apiKey, Deno.env.get("GEMINI_MODEL") || undefined);
+  }
+
+  if (name === "openai") {
+    const model = Deno.env.get("LLM_MODEL");
+    if (!model) throw new Error("LLM_MODEL not configured");
+
+    return openAiProvider(
+      model,
+      Deno.env.get("LLM_BASE_URL") || undefined,
+      Deno.env.get("LLM_API_KEY") || undefined
+    );
+  }
+
+  if (name === "mock") {
+    return mockProvider(Deno.env.get("LLM_MOCK_RESPONSE") || undefined);
+  }
+
+  throw new Error(`Unknown LLM_PROVIDER: ${name}. Use 'gemini', 'openai' or 'mock'`);
+};
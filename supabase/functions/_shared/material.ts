@@ -0,0 +1,158 @@
+// -------------------------------
+// Study material chunking (used by generate-quiz)
+// -------------------------------
+//
+// Material is split into numbered passages (about a paragraph each) so
+// questions can cite where they came from, and passages are grouped into
+// chunks small enough for one prompt. Questions are then spread across
+// the chunks so a long chapter is not quizzed only on its first pages.
+
+import { extractText, getDocumentProxy } from "https://esm.sh/unpdf@0.12.1";
+
+export interface Passage {
+  id: number;
+  text: string;
+}
+
+export interface MaterialChunk {
+  passages: Passage[];
+  length: number;
+}
+
+export const MAX_MATERIAL_CHARS = 200_000;
+const MIN_MATERIAL_CHARS = 200;
+
+const PASSAGE_CHARS = 800;
+const CHUNK_CHARS = 6_000;
+
+// -------------------------------
+// PDF text layer
+// -------------------------------
+
+// Text already in the PDF (no OCR): scanned pages come back empty
+export const pdfText = async (dataUrl: string) => {
+  const base64 = dataUrl.slice(dataUrl.indexOf(",") + 1);
+  const bytes = Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+
+  const pdf = await getDocumentProxy(bytes);
+  const { text } = await extractText(pdf, { mergePages: false });
+
+  return (text as string[]).join("\n\n");
+};
+
+// -------------------------------
+// Passages
+// -------------------------------
+
+// Paragraphs longer than a passage are cut at sentence ends
+const splitLong = (paragraph: string) => {
+  if (paragraph.length <= PASSAGE_CHARS) return [paragraph];
+
+  const pieces: string[] = [];
+  let current = "";
+
+  for (const sentence of paragraph.match(/[^.!?]+[.!?]+["')\]]*\s*|[^.!?]+$/g) ?? [paragraph]) {
+    if (current && current.length + sentence.length > PASSAGE_CHARS) {
+      pieces.push(current.trim());
+      current = "";
+    }
+    current += sentence;
+  }
+
+  if (current.trim()) pieces.push(current.trim());
+  return pieces;
+};
+
+// Short neighbouring paragraphs (headings, list items) share a passage
+export const splitPassages = (material: string): Passage[] => {
+  const paragraphs = material
+    .replace(/\r\n?/g, "\n")
+    .split(/\n\s*\n/)
+    .map((p) => p.replace(/\s+/g, " ").trim())
+    .filter(Boolean)
+    .flatMap(splitLong);
+
+  const passages: Passage[] = [];
+  let current = "";
+
+  for (const paragraph of paragraphs) {
+    if (current && current.length + paragraph.length + 1 > PASSAGE_CHARS) {
+      passages.push({ id: passages.length + 1, text: current });
+      current = "";
+    }
+    current = current ? `${current}\n${paragraph}` : paragraph;
+  }
+
+  if (current) passages.push({ id: passages.length + 1, text: current });
+  return passages;
+};
+
+export const chunkPassages = (passages: Passage[]): MaterialChunk[] => {
+  const chunks: MaterialChunk[] = [];
+  let current: MaterialChunk = { passages: [], length: 0 };
+
+  for (const passage of passages) {
+    if (current.passages.length && current.length + passage.text.length > CHUNK_CHARS) {
+      chunks.push(current);
+      current = { passages: [], length: 0 };
+    }
+    current.passages.push(passage);
+    current.length += passage.text.length;
+  }
+
+  if (current.passages.length) chunks.push(current);
+  return chunks;
+};
+
+// -------------------------------
+// Spreading questions
+// -------------------------------
+
+// Questions per chunk (same order as the chunks). With fewer questions
+// than chunks, evenly spaced chunks get one each; otherwise every chunk
+// gets one and the rest follow chunk length (largest remainder).
+export const spreadQuestions = (chunks: MaterialChunk[], total: number) => {
+  const counts = chunks.map(() => 0);
+  if (!chunks.length || total <= 0) return counts;
+
+  if (total < chunks.length) {
+    for (let i = 0; i < total; i++) {
+      counts[Math.floor(((i + 0.5) * chunks.length) / total)] = 1;
+    }
+    return counts;
+  }
+
+  const extra = total - chunks.length;
+  const length = chunks.reduce((sum, c) => sum + c.length, 0);
+  const shares = chunks.map((c) => (extra * c.length) / length);
+
+  shares.forEach((share, i) => (counts[i] = 1 + Math.floor(share)));
+
+  let left = total - counts.reduce((sum, n) => sum + n, 0);
+  const byRemainder = shares
+    .map((share, i) => ({ i, remainder: share - Math.floor(share) }))
+    .sort((a, b) => b.remainder - a.remainder);
+
+  for (const { i } of byRemainder) {
+    if (left-- <= 0) break;
+    counts[i]++;
+  }
+
+  return counts;
+};
+
+// -------------------------------
+// Checks
+// -------------------------------
+export const checkMaterialLength = (material: string) => {
+  if (material.trim().length < MIN_MATERIAL_CHARS) {
+    throw new Error(
+      "Not enough material to generate questions from (scanned PDFs have no text layer; use Document Import for those)"
+    );
+  }
+  if (material.length > MAX_MATERIAL_CHARS) {
+    throw new Error(
+      `Material is too long (${material.length.toLocaleString()} characters, max ${MAX_MATERIAL_CHARS.toLocaleString()})`
+    );
+  }
+};
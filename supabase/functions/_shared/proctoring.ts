@@ -0,0 +1,72 @@
+// -------------------------------
+// Proctoring event log (used by submit-attempt)
+// -------------------------------
+
+export const PROCTOR_EVENT_TYPES = [
+  "tab_hidden",
+  "tab_visible",
+  "window_blur",
+  "fullscreen_exit",
+  "copy_blocked",
+  "paste_blocked",
+  "right_click",
+  "devtools_suspected",
+] as const;
+
+export type ProctorEventType = (typeof PROCTOR_EVENT_TYPES)[number];
+
+export interface ProctorEvent {
+  type: ProctorEventType;
+  at: string;
+}
+
+// Capped per type, so a flood of one harmless event (say tab_visible)
+// cannot push the suspicious ones out of the log
+const MAX_EVENTS_PER_TYPE = 100;
+
+// Allow for clocks that are slightly off
+const CLOCK_SLACK_MS = 5 * 60 * 1000;
+
+// -------------------------------
+// The log is written by the browser, so keep only well-formed events of a
+// known type that fall inside the session, oldest first. Over the cap, the
+// newest events of each type are kept and the rest are counted as dropped.
+// -------------------------------
+export function sanitizeProctorEvents(
+  raw: unknown,
+  startedAt: Date,
+  now: Date,
+): { events: ProctorEvent[]; dropped: number } {
+  if (!Array.isArray(raw)) return { events: [], dropped: 0 };
+
+  const from = startedAt.getTime() - CLOCK_SLACK_MS;
+  const to = now.getTime() + CLOCK_SLACK_MS;
+
+  const valid = raw
+    .filter(
+      (e): e is ProctorEvent =>
+        !!e &&
+        typeof e === "object" &&
+        (PROCTOR_EVENT_TYPES as readonly string[]).includes(e.type) &&
+        typeof e.at === "string",
+    )
+    .map((e) => ({ type: e.type, at: new Date(e.at) }))
+    .filter(({ at }) => !isNaN(at.getTime()) && at.getTime() >= from && at.getTime() <= to)
+    .sort((a, b) => a.at.getTime() - b.at.getTime());
+
+  // Newest first while counting, then back to oldest first
+  const perType: Partial<Record<ProctorEventType, number>> = {};
+  const kept = [...valid]
+    .reverse()
+    .filter(({ type }) => {
+      const count = (perType[type] ?? 0) + 1;
+      perType[type] = count;
+      return count <= MAX_EVENTS_PER_TYPE;
+    })
+    .reverse();
+
+  return {
+    events: kept.map(({ type, at }) => ({ type, at: at.toISOString() })),
+    dropped: valid.length - kept.length,
+  };
+}
@@ -0,0 +1,227 @@
+// -------------------------------
+// Generated quiz validation (used by generate-quiz)
+// -------------------------------
+
+import { z } from "https://esm.sh/zod@3.25.76";
+
+// Standard assertion-reason answer set; the builder's editor splits
+// "Assertion: ... Reason: ..." onto two lines
+export const ASSERTION_REASON_OPTIONS = [
+  "Both A and R are true, and R is the correct explanation of A",
+  "Both A and R are true, but R is not the correct explanation of A",
+  "A is true, but R is false",
+  "A is false, but R is true",
+];
+
+const GENERATED_TYPES = ["single", "multiple", "true_false"] as const;
+
+export type GeneratedType = (typeof GENERATED_TYPES)[number];
+
+export interface QuizRules {
+  // Requested number of questions (AI mode); extraction keeps what it finds
+  expectedCount?: number;
+  minOptions: number;
+  maxOptions: number;
+  types: readonly GeneratedType[];
+  // Every question must be assertion-reason
+  assertionReasonOnly?: boolean;
+  // Material mode: passage number → text. Every question must cite one of
+  // these passages with a quote that actually appears in it.
+  passages?: Record<number, string>;
+  // Question texts already in the quiz (builder actions); repeats are flagged
+  existing?: string[];
+}
+
+// Problem with one question (index into the returned questions) or with
+// the quiz as a whole (null)
+export interface GenerationWarning {
+  question: number | null;
+  message: string;
+}
+
+// -------------------------------
+// Schemas
+// -------------------------------
+
+// Structure only: anything that fails this cannot be shown in the editor
+const questionShape = z.object({
+  question_text: z.string(),
+  question_type: z.enum(GENERATED_TYPES).nullish().transform((t) => t ?? "single"),
+  options: z.array(z.string()),
+  correct_option_index: z.number().int().nullish(),
+  correct_option_indices: z.array(z.number().int()).nullish(),
+  explanation: z.string().nullish().transform((e) => e ?? ""),
+  source_passage: z.number().int().nullish(),
+  source_quote: z.string().nullish(),
+});
+
+const quizShape = z.object({
+  title: z.string(),
+  questions: z.array(z.unknown()),
+});
+
+export type GeneratedQuestion = z.infer<typeof questionShape>;
+
+export interface GeneratedQuiz {
+  title: string;
+  questions: GeneratedQuestion[];
+}
+
+const normalize = (text: string) => text.trim().replace(/\s+/g, " ").toLowerCase();
+
+const isAssertionReason = (text: string) =>
+  /^\s*assertion\s*:/i.test(text) && /reason\s*:/i.test(text);
+
+// Content rules on top of the structure
+const questionSchema = (rules: QuizRules) =>
+  questionShape.superRefine((q, ctx) => {
+    const issue = (message: string) =>
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+
+    const count = q.options.length;
+    const inRange = (i: number) => i >= 0 && i < count;
+
+    if (!q.question_text.trim()) issue("question_text is empty");
+
+    if (!rules.types.includes(q.question_type)) {
+      issue(`question_type "${q.question_type}" is not allowed here (use ${rules.types.join(", ")})`);
+    }
+
+    if (q.options.some((o) => !o.trim())) issue("an option is empty");
+
+    const distinct = new Set(q.options.map(normalize));
+    if (distinct.size < count) issue("options repeat");
+
+    if (q.question_type === "true_false") {
+      if (count !== 2 || normalize(q.options[0]) !== "true" || normalize(q.options[1]) !== "false") {
+        issue('true/false options must be exactly ["True", "False"]');
+      }
+    } else if (count < rules.minOptions || count > rules.maxOptions) {
+      issue(`has ${count} options (needs ${rules.minOptions}-${rules.maxOptions})`);
+    }
+
+    if (q.question_type === "multiple") {
+      const picked = q.correct_option_indices ?? [];
+
+      if (!picked.length) issue("correct_option_indices is empty");
+      if (picked.some((i) => !inRange(i))) {
+        issue(`correct_option_indices ${JSON.stringify(picked)} out of range (${count} options)`);
+      }
+      if (new Set(picked).size < picked.length) issue("correct_option_indices repeat");
+    } else if (q.correct_option_index == null) {
+      issue("correct_option_index is missing");
+    } else if (!inRange(q.correct_option_index)) {
+      issue(`correct_option_index ${q.correct_option_index} out of range (${count} options)`);
+    }
+
+    if (isAssertionReason(q.question_text)) {
+      const standard =
+        count === ASSERTION_REASON_OPTIONS.length &&
+        q.options.every((o, i) => normalize(o) === normalize(ASSERTION_REASON_OPTIONS[i]));
+
+      if (!standard) issue("assertion-reason options must be the four standard options, in order");
+    } else if (rules.assertionReasonOnly) {
+      issue('is not in "Assertion: ... Reason: ..." form');
+    }
+
+    if (rules.passages) {
+      const passage =
+        q.source_passage == null ? undefined : rules.passages[q.source_passage];
+
+      if (q.source_passage == null) {
+        issue("source_passage is missing");
+      } else if (passage === undefined) {
+        issue(`source_passage ${q.source_passage} is not one of the given passages`);
+      } else if (!q.source_quote?.trim()) {
+        issue("source_quote is missing");
+      } else if (!normalize(passage).includes(normalize(q.source_quote))) {
+        issue(`source_quote is not an exact quote from passage ${q.source_passage}`);
+      }
+    }
+  });
+
+// -------------------------------
+// Validation
+// -------------------------------
+
+// Keeps every question the editor can show and reports what is wrong with
+// them; questions too broken to show are dropped (and reported).
+export const validateGeneratedQuiz = (
+  raw: unknown,
+  rules: QuizRules
+): { quiz: GeneratedQuiz; warnings: GenerationWarning[] } => {
+  const shaped = quizShape.safeParse(raw);
+
+  if (!shaped.success) {
+    return {
+      quiz: { title: "", questions: [] },
+      warnings: [
+        {
+          question: null,
+          message: `Reply is not a quiz: ${shaped.error.issues
+            .map((i) => `${i.path.join(".") || "root"} ${i.message}`)
+            .join("; ")}`,
+        },
+      ],
+    };
+  }
+
+  const warnings: GenerationWarning[] = [];
+  const questions: GeneratedQuestion[] = [];
+  const schema = questionSchema(rules);
+  const seen = new Map<string, number>();
+  const existing = new Set((rules.existing ?? []).map(normalize));
+
+  if (!shaped.data.title.trim()) warnings.push({ question: null, message: "title is empty" });
+
+  shaped.data.questions.forEach((rawQuestion, i) => {
+    const structure = questionShape.safeParse(rawQuestion);
+
+    if (!structure.success) {
+      warnings.push({
+        question: null,
+        message: `Generated question ${i + 1} was malformed and dropped (${structure.error.issues
+          .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+          .join("; ")})`,
+      });
+      return;
+    }
+
+    const index = questions.length;
+    questions.push(structure.data);
+
+    const checked = schema.safeParse(rawQuestion);
+    if (!checked.success) {
+      checked.error.issues.forEach((issue) =>
+        warnings.push({ question: index, message: issue.message })
+      );
+    }
+
+    const key = normalize(structure.data.question_text);
+    if (existing.has(key)) {
+      warnings.push({ question: index, message: "repeats a question already in the quiz" });
+    } else if (key && seen.has(key)) {
+      warnings.push({
+        question: index,
+        message: `duplicates question ${seen.get(key)! + 1}`,
+      });
+    } else {
+      seen.set(key, index);
+    }
+  });
+
+  if (rules.expectedCount && questions.length !== rules.expectedCount) {
+    warnings.push({
+      question: null,
+      message: `has ${questions.length} questions (${rules.expectedCount} were requested)`,
+    });
+  }
+
+  return { quiz: { title: shaped.data.title, questions }, warnings };
+};
+
+// One line per problem, for re-prompting the model
+export const describeWarnings = (warnings: GenerationWarning[]) =>
+  warnings
+    .map((w) => `- ${w.question === null ? "Quiz" : `Question ${w.question + 1}`}: ${w.message}`)
+    .join("\n");
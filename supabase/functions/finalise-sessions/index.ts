@@ -0,0 +1,100 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  GRADING_QUIZ_COLUMNS,
+  HttpError,
+  loadSessionQuestions,
+  saveAttempt,
+  sessionTiming,
+  type GradingQuiz,
+  type QuizSession,
+} from "../_shared/attempts.ts";
+
+// Called every minute by pg_cron (see the finalise-closed-sessions job).
+// Sessions still open once their (group's) closing time plus the submit
+// grace period has passed can no longer be submitted, so the answers they
+// saved as the student went are graded here instead.
+serve(async (req) => {
+  try {
+    const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+    const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+      throw new Error("Supabase service credentials not configured");
+    }
+
+    // Only the scheduler (holding the service role key) may run this
+    const jwt = req.headers.get("Authorization")?.replace("Bearer ", "");
+    if (jwt !== SUPABASE_SERVICE_ROLE_KEY) {
+      throw new HttpError(401, "Not allowed");
+    }
+
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+    const { data: sessions, error } = await supabase.rpc("list_closed_sessions");
+    if (error) throw new Error(error.message);
+
+    const quizzes = new Map<string, GradingQuiz | null>();
+    let finalised = 0;
+
+    for (const session of (sessions || []) as QuizSession[]) {
+      try {
+        if (!quizzes.has(session.quiz_id)) {
+          const { data: quiz } = await supabase
+            .from("quizzes")
+            .select(GRADING_QUIZ_COLUMNS)
+            .eq("id", session.quiz_id)
+            .maybeSingle<GradingQuiz>();
+
+          quizzes.set(session.quiz_id, quiz);
+        }
+
+        const quiz = quizzes.get(session.quiz_id);
+        if (!quiz) continue;
+
+        // Timed up to the last saved answer (or the time limit, or now,
+        // when nothing was saved)
+        const now = new Date();
+        const { timeTaken, isLate } = sessionTiming(
+          session,
+          new Date(session.answers_saved_at ?? session.expires_at ?? now),
+        );
+
+        const { versionId, questions } = await loadSessionQuestions(supabase, session);
+
+        await saveAttempt(supabase, {
+          quiz,
+          session,
+          questions,
+          versionId,
+          userId: session.user_id,
+          answers: session.draft_answers ?? {},
+          submittedAt: now,
+          timeTaken,
+          isLate,
+          leaderboard: true,
+        });
+
+        finalised++;
+      } catch (e) {
+        // Submitted meanwhile, or a bad row: the others still get graded
+        console.error(`finalise-sessions error (session ${session.id}):`, e);
+      }
+    }
+
+    return new Response(JSON.stringify({ finalised }), {
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (e) {
+    console.error("finalise-sessions error:", e);
+
+    return new Response(
+      JSON.stringify({
+        error: e instanceof Error ? e.message : "Unknown error",
+      }),
+      {
+        status: e instanceof HttpError ? e.status : 500,
+        headers: { "Content-Type": "application/json" },
+      },
+    );
+  }
+});
@@ -0,0 +1,705 @@
+import { z } from "https://esm.sh/zod@3.25.76";
+import { type LlmProvider, providerFromEnv } from "../_shared/llm.ts";
+import {
+  ASSERTION_REASON_OPTIONS,
+  type GeneratedQuestion,
+  type GeneratedQuiz,
+  type GenerationWarning,
+  type QuizRules,
+  describeWarnings,
+  validateGeneratedQuiz,
+} from "../_shared/quizSchema.ts";
+import {
+  type MaterialChunk,
+  checkMaterialLength,
+  chunkPassages,
+  pdfText,
+  splitPassages,
+  spreadQuestions,
+} from "../_shared/material.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+// -------------------------------
+// Builder Options
+// -------------------------------
+
+// "Difficulty Level" in the AI builder
+const DIFFICULTY_GUIDES: Record<string, string> = {
+  Easy: `- Difficulty: EASY. Test recall and basic understanding of core facts and definitions
+- Keep questions short and direct; wrong options should be clearly wrong to someone who studied the topic`,
+  Medium: `- Difficulty: MEDIUM. Mix recall with application: most questions should need one step of reasoning
+- Wrong options should be plausible and reflect common misconceptions`,
+  Competitive: `- Difficulty: COMPETITIVE (entrance-exam level). Questions should need multi-step reasoning, analysis or applying concepts to unfamiliar situations
+- Avoid pure recall; wrong options must be close distractors that only careful reasoning rules out`,
+};
+
+const ASSERTION_REASON_RULES = `- An assertion-reason question has "question_text" of the form "Assertion: <statement A> Reason: <statement R>"
+- Its options are exactly, in this order: ${JSON.stringify(ASSERTION_REASON_OPTIONS)}`;
+
+// "Question Format" in the AI builder
+const QUESTION_STYLES: Record<string, string> = {
+  MCQ: `- Every question is a single-answer multiple choice question ("question_type": "single")
+- Each question must have between 2 and 6 options (4 is typical)
+- Only one option is correct`,
+  "Assertion-Reason": `- Every question is an assertion-reason question ("question_type": "single")
+${ASSERTION_REASON_RULES}`,
+  Mixed: `- Mix these styles, using each at least once when there are enough questions:
+  - single-answer multiple choice ("question_type": "single", 2-6 options, one correct)
+  - assertion-reason ("question_type": "single")
+  - true/false ("question_type": "true_false", options exactly ["True", "False"])
+  - select all that apply ("question_type": "multiple", 4-6 options, two or more correct, listed in "correct_option_indices")
+${ASSERTION_REASON_RULES}`,
+};
+
+const ORIGINAL_WORDING_RULE = `- Write every question and option in your own words; do not copy well-known textbook, exam or website questions verbatim`;
+
+// Reply format; material mode also asks where each question came from
+const quizFormat = (withSource = false) => `{
+  "title": "Quiz Title",
+  "questions": [
+    {
+      "question_text": "Question?",
+      "question_type": "single",
+      "options": ["A", "B", "C", "D"],
+      "correct_option_index": 0,
+      "correct_option_indices": [],
+      "explanation": "Why the correct option is right"${
+        withSource
+          ? `,
+      "source_passage": 3,
+      "source_quote": "exact words copied from passage 3"`
+          : ""
+      }
+    }
+  ]
+}
+
+"correct_option_indices" is only filled for "multiple" questions; "correct_option_index" is used otherwise.`;
+
+// What each format is checked against (see _shared/quizSchema.ts)
+const FORMAT_RULES: Record<string, Omit<QuizRules, "expectedCount">> = {
+  MCQ: { minOptions: 2, maxOptions: 6, types: ["single"] },
+  "Assertion-Reason": {
+    minOptions: 4,
+    maxOptions: 4,
+    types: ["single"],
+    assertionReasonOnly: true,
+  },
+  Mixed: { minOptions: 2, maxOptions: 6, types: ["single", "true_false", "multiple"] },
+};
+
+// Extraction keeps every option the document has (up to the editor's limit)
+const EXTRACTION_RULES: QuizRules = {
+  minOptions: 2,
+  maxOptions: 10,
+  types: ["single", "true_false", "multiple"],
+};
+
+// First reply plus up to two repair rounds
+const MAX_ATTEMPTS = 3;
+
+// -------------------------------
+// Model Call
+// -------------------------------
+const parseReply = (rawText: string): unknown => {
+  // ✅ FIX: Clean Markdown Fences
+  const cleanedText = rawText
+    .replace(/```json/gi, "")
+    .replace(/```/g, "")
+    .trim();
+
+  try {
+    return JSON.parse(cleanedText);
+  } catch {
+    console.error("Invalid JSON returned:", rawText);
+    return undefined;
+  }
+};
+
+// Asks for the quiz and, while the reply breaks the rules, asks again
+// with the problems listed. The best reply (fewest problems) wins; its
+// remaining problems go back to the builder as warnings.
+const generateChecked = async (
+  provider: LlmProvider,
+  prompt: string,
+  rules: QuizRules
+) => {
+  let request = prompt;
+  let best: { quiz: GeneratedQuiz; warnings: GenerationWarning[] } | null = null;
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const reply = await provider.complete(request);
+    const parsed = parseReply(reply);
+
+    const result =
+      parsed === undefined ? null : validateGeneratedQuiz(parsed, rules);
+
+    if (result && (!best || result.warnings.length < best.warnings.length)) {
+      best = result;
+    }
+    if (result && result.warnings.length === 0) break;
+
+    const problems = result
+      ? describeWarnings(result.warnings)
+      : "- The reply was not valid JSON";
+
+    console.error(`generate-quiz attempt ${attempt} had problems:\n${problems}`);
+
+    request = `${prompt}
+
+Your previous reply was:
+
+${reply}
+
+It had these problems:
+${problems}
+
+Fix every problem and return the complete corrected quiz. Return ONLY JSON (no markdown, no backticks).
+`;
+  }
+
+  if (!best || best.quiz.questions.length === 0) {
+    throw new Error("The model did not return a usable quiz");
+  }
+
+  return best;
+};
+
+// -------------------------------
+// Material Mode
+// -------------------------------
+
+const passageRange = (chunk: MaterialChunk) => {
+  const first = chunk.passages[0].id;
+  const last = chunk.passages[chunk.passages.length - 1].id;
+  return first === last ? `passage ${first}` : `passages ${first}-${last}`;
+};
+
+// One prompt per chunk with its share of the questions; every question
+// must cite a passage of its own chunk
+const generateFromMaterial = async (
+  provider: LlmProvider,
+  material: string,
+  total: number,
+  rules: Omit<QuizRules, "expectedCount">,
+  guides: string
+) => {
+  checkMaterialLength(material);
+
+  const chunks = chunkPassages(splitPassages(material));
+  const counts = spreadQuestions(chunks, total);
+
+  let title = "";
+  const questions: GeneratedQuiz["questions"] = [];
+  const warnings: GenerationWarning[] = [];
+
+  for (const [i, chunk] of chunks.entries()) {
+    if (!counts[i]) continue;
+
+    const where = passageRange(chunk);
+    const prompt = `
+Generate exactly ${counts[i]} quiz questions from the study material below.
+
+Material (numbered passages):
+
+${chunk.passages.map((p) => `[${p.id}] ${p.text}`).join("\n\n")}
+
+Rules:
+- Ask only about facts, ideas and examples stated in the material; do not add outside knowledge
+- Each question is answered by one passage: set "source_passage" to that passage's number and "source_quote" to a short exact quote (at most 25 words, copied word for word) from it that supports the answer
+- Spread the questions over different passages instead of asking several about the same sentence
+${guides}
+- Every question needs a short "explanation" (1-3 sentences, markdown allowed) of why the answer is correct
+- Give the quiz a short title describing the material
+- Return ONLY valid JSON (no markdown, no backticks) in this format:
+
+${quizFormat(true)}
+`;
+
+    try {
+      const result = await generateChecked(provider, prompt, {
+        ...rules,
+        expectedCount: counts[i],
+        passages: Object.fromEntries(chunk.passages.map((p) => [p.id, p.text])),
+      });
+
+      title ||= result.quiz.title;
+
+      result.warnings.forEach((w) =>
+        warnings.push(
+          w.question === null
+            ? { question: null, message: chunks.length > 1 ? `From ${where}: ${w.message}` : w.message }
+            : { question: w.question + questions.length, message: w.message }
+        )
+      );
+      questions.push(...result.quiz.questions);
+    } catch (e) {
+      console.error(`Material chunk (${where}) failed:`, e);
+      warnings.push({
+        question: null,
+        message: `No questions could be generated from ${where}`,
+      });
+    }
+  }
+
+  if (!questions.length) {
+    throw new Error("The model did not return a usable quiz");
+  }
+
+  return { quiz: { title, questions }, warnings };
+};
+
+// -------------------------------
+// OCR Rewrite Pass
+// -------------------------------
+
+// Rephrases extracted questions so they cannot be searched up verbatim.
+// Answers must survive unchanged, so a rewrite that changes the shape or
+// adds problems keeps the extracted wording instead.
+const rewriteQuiz = async (
+  provider: LlmProvider,
+  extracted: { quiz: GeneratedQuiz; warnings: GenerationWarning[] },
+  rules: QuizRules
+) => {
+  const { quiz } = extracted;
+
+  const prompt = `
+Rephrase this quiz so no question can be found by searching its exact wording:
+
+${JSON.stringify(quiz)}
+
+Rules:
+- Reword every "question_text" and every option while keeping its exact meaning, difficulty and any numbers, units or formulas
+- Keep the same number of questions, in the same order
+- Keep every question's options in the same order, so every "correct_option_index" and "correct_option_indices" stays valid
+- Do not change "question_type"; leave True/False options as "True" and "False"
+- Keep the "Assertion: ... Reason: ..." structure of assertion-reason questions and their standard options unchanged
+- Keep each "explanation", reworded to match
+- Return ONLY JSON in the same format (no markdown, no backticks)
+`;
+
+  try {
+    const rewritten = validateGeneratedQuiz(
+      parseReply(await provider.complete(prompt)),
+      rules
+    );
+    const before = quiz.questions;
+    const after = rewritten.quiz.questions;
+
+    const sameShape =
+      after.length === before.length &&
+      after.every((q, i) => q.options.length === before[i].options.length);
+
+    if (!sameShape) {
+      console.error("Rewrite changed the quiz shape, keeping original");
+      return extracted;
+    }
+
+    // Only wording comes from the rewrite; answer keys stay as extracted
+    const merged = validateGeneratedQuiz(
+      {
+        ...quiz,
+        questions: before.map((q, i) => ({
+          ...q,
+          question_text: after[i].question_text,
+          options: after[i].options,
+          explanation: after[i].explanation || q.explanation,
+        })),
+      },
+      rules
+    );
+
+    if (merged.warnings.length > extracted.warnings.length) {
+      console.error("Rewrite introduced problems, keeping original");
+      return extracted;
+    }
+
+    return merged;
+  } catch (e) {
+    console.error("Rewrite failed, keeping original:", e);
+    return extracted;
+  }
+};
+
+// -------------------------------
+// Builder Actions (one question at a time)
+// -------------------------------
+
+// What each per-question mode asks for
+const QUESTION_ACTIONS: Record<string, string> = {
+  regenerate:
+    "Write a different question on the same topic and at the same level that tests a different fact or idea than the current one",
+  harder:
+    "Rewrite the question to be noticeably harder: require deeper reasoning or application, and make the wrong options closer to the right one",
+  easier:
+    "Rewrite the question to be noticeably easier: test the core idea directly with clearer wording, and make the wrong options more clearly wrong",
+  distractors:
+    "Keep the question text and the correct option(s) exactly as they are, and replace every wrong option with a more plausible distractor based on a common misconception",
+};
+
+// A builder question as it arrives; only option-type questions are edited
+interface BuilderQuestion extends GeneratedQuestion {
+  question_type: "single" | "multiple" | "true_false";
+}
+
+const correctTexts = (q: GeneratedQuestion) =>
+  (q.question_type === "multiple"
+    ? q.correct_option_indices ?? []
+    : [q.correct_option_index ?? -1]
+  )
+    .map((i) => q.options[i]?.trim().toLowerCase())
+    .sort();
+
+const otherQuestions = (existing: string[]) =>
+  existing.length
+    ? `Other questions in the quiz (do not repeat or rephrase any of them):
+${existing.map((t) => `- ${t}`).join("\n")}`
+    : "";
+
+const runQuestionAction = async (
+  provider: LlmProvider,
+  action: string,
+  question: BuilderQuestion,
+  quizTitle: string,
+  existing: string[]
+) => {
+  const type = question.question_type;
+  const keepCount = action !== "regenerate" && type !== "true_false";
+  const count = question.options.length;
+
+  const prompt = `
+You are editing one question of the quiz "${quizTitle || "Untitled quiz"}".
+
+Current question:
+${JSON.stringify({
+  question_text: question.question_text,
+  question_type: type,
+  options: question.options,
+  correct_option_index: question.correct_option_index,
+  correct_option_indices: question.correct_option_indices,
+  explanation: question.explanation,
+})}
+
+${otherQuestions(existing)}
+
+Task: ${QUESTION_ACTIONS[action]}.
+
+Rules:
+- Reply with exactly 1 question
+- Keep "question_type": "${type}"${
+    type === "true_false"
+      ? ' with options exactly ["True", "False"]'
+      : keepCount
+        ? ` with exactly ${count} options`
+        : " with 2-6 options"
+  }
+- Keep the "Assertion: ... Reason: ..." form and standard options if the current question uses them
+- Every question needs a short "explanation" (1-3 sentences, markdown allowed) of why the answer is correct
+- Return ONLY valid JSON (no markdown, no backticks) in this format:
+
+${quizFormat()}
+`;
+
+  const result = await generateChecked(provider, prompt, {
+    minOptions: keepCount ? count : 2,
+    maxOptions: keepCount ? count : 6,
+    types: [type],
+    expectedCount: 1,
+    existing,
+  });
+
+  // Only the wrong options may change, whatever the model did
+  if (action === "distractors" && result.quiz.questions[0]) {
+    const next = result.quiz.questions[0];
+    next.question_text = question.question_text;
+
+    if (correctTexts(next).join("\n") !== correctTexts(question).join("\n")) {
+      result.warnings.push({
+        question: 0,
+        message: "the correct answer changed; check it before saving",
+      });
+    }
+  }
+
+  result.quiz.questions = result.quiz.questions.slice(0, 1);
+  return result;
+};
+
+const explanationReply = z.object({ explanation: z.string().trim().min(1) });
+
+// Explanations work for every question type, so the answer comes in as
+// text (formatAnswerKey in the builder)
+const writeExplanation = async (
+  provider: LlmProvider,
+  question: { question_text: string; options?: string[] },
+  answer: string
+) => {
+  const prompt = `
+Write a short explanation (1-3 sentences, markdown allowed) of why the answer to this quiz question is correct.
+
+Question: ${question.question_text}
+${question.options?.length ? `Options: ${JSON.stringify(question.options)}\n` : ""}Correct answer: ${answer}
+
+Return ONLY JSON (no markdown, no backticks) in this format:
+{"explanation": "..."}
+`;
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const checked = explanationReply.safeParse(
+      parseReply(await provider.complete(prompt))
+    );
+    if (checked.success) return checked.data.explanation;
+  }
+
+  throw new Error("The model did not return an explanation");
+};
+
+// -------------------------------
+// Handler
+// -------------------------------
+
+// Takes the provider as an argument so tests can drive it with the mock
+// provider (no network); index.ts serves it with the configured one
+export const handleGenerateQuiz = async (
+  req: Request,
+  getProvider: () => LlmProvider = providerFromEnv
+) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const {
+      mode,
+      topic,
+      numQuestions,
+      fileData,
+      material,
+      questionType = "MCQ",
+      difficulty = "Medium",
+      rewriteEnabled = false,
+      question,
+      quizTitle = "",
+      existing = [],
+      count,
+      answer,
+    } = await req.json();
+
+    const style = QUESTION_STYLES[questionType];
+    if (!style) throw new Error(`Unknown question format: ${questionType}`);
+
+    const difficultyGuide = DIFFICULTY_GUIDES[difficulty];
+    if (!difficultyGuide) throw new Error(`Unknown difficulty: ${difficulty}`);
+
+    // ✅ LLM provider (LLM_PROVIDER, see _shared/llm.ts)
+    const provider = getProvider();
+
+    let prompt = "";
+    let rules = EXTRACTION_RULES;
+    let result: { quiz: GeneratedQuiz; warnings: GenerationWarning[] } | null = null;
+
+    // -------------------------------
+    // MODE 1: AI Quiz Generation
+    // -------------------------------
+    if (mode === "ai") {
+      rules = {
+        ...FORMAT_RULES[questionType],
+        expectedCount: Number(numQuestions) || 5,
+      };
+
+      prompt = `
+Generate a quiz about "${topic}" with exactly ${numQuestions || 5} questions.
+
+Rules:
+${style}
+${difficultyGuide}
+- Every question needs a short "explanation" (1-3 sentences, markdown allowed) of why the answer is correct
+${rewriteEnabled ? `${ORIGINAL_WORDING_RULE}\n` : ""}- Return ONLY valid JSON (no markdown, no backticks) in this format:
+
+${quizFormat()}
+`;
+    }
+
+    // -------------------------------
+    // MODE 2: OCR Quiz Extraction (OCR.space)
+    // -------------------------------
+    else if (mode === "ocr") {
+      const OCR_SPACE_API_KEY = Deno.env.get("OCR_SPACE_API_KEY");
+      if (!OCR_SPACE_API_KEY)
+        throw new Error("OCR_SPACE_API_KEY not configured");
+
+      // -------------------------------
+      // Step 1: Extract Text using OCR.space
+      // -------------------------------
+      const formData = new FormData();
+      formData.append("base64Image", fileData); // full data URL
+      formData.append("language", "eng");
+      formData.append("OCREngine", "2");
+
+      const ocrResponse = await fetch("https://api.ocr.space/parse/image", {
+        method: "POST",
+        headers: {
+          apikey: OCR_SPACE_API_KEY,
+        },
+        body: formData,
+      });
+
+      const ocrResult = await ocrResponse.json();
+
+      const extractedText =
+        ocrResult?.ParsedResults?.[0]?.ParsedText;
+
+      if (!extractedText || extractedText.trim().length < 10) {
+        console.error("OCR Result:", ocrResult);
+        throw new Error("OCR failed: Could not extract readable text");
+      }
+
+      // -------------------------------
+      // Step 2: Convert Extracted Text → Quiz JSON using the model
+      // -------------------------------
+      prompt = `
+The following text was extracted from a quiz document:
+
+${extractedText}
+
+Convert it into valid JSON quiz format:
+
+{
+  "title": "Extracted Quiz",
+  "questions": [
+    {
+      "question_text": "...",
+      "options": ["A","B","C","D"],
+      "correct_option_index": 0,
+      "explanation": "..."
+    }
+  ]
+}
+
+Rules:
+- Keep every option from the source; do not add or drop options to reach a fixed count
+- Add a short "explanation" (1-3 sentences, markdown allowed) for each question; reuse the document's own explanation when it has one
+- Return ONLY JSON (no markdown, no backticks)
+`;
+    }
+
+    // -------------------------------
+    // MODE 3: From the Teacher's Material (pasted text / notes / PDF text layer)
+    // -------------------------------
+    else if (mode === "material") {
+      const text =
+        typeof material === "string" && material.trim()
+          ? material
+          : fileData
+            ? await pdfText(fileData)
+            : "";
+
+      result = await generateFromMaterial(
+        provider,
+        text,
+        Number(numQuestions) || 5,
+        FORMAT_RULES[questionType],
+        `${style}\n${difficultyGuide}`
+      );
+    }
+
+    // -------------------------------
+    // MODE 4: Builder Actions on One Question
+    // -------------------------------
+    else if (Object.hasOwn(QUESTION_ACTIONS, mode)) {
+      if (!question?.question_text || !Array.isArray(question.options)) {
+        throw new Error("A question with options is required");
+      }
+
+      result = await runQuestionAction(provider, mode, question, quizTitle, existing);
+    }
+
+    // -------------------------------
+    // MODE 5: Explanation for One Question
+    // -------------------------------
+    else if (mode === "explain") {
+      if (!question?.question_text || !answer) {
+        throw new Error("A question and its answer are required");
+      }
+
+      const explanation = await writeExplanation(provider, question, answer);
+
+      return new Response(JSON.stringify({ explanation }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // -------------------------------
+    // MODE 6: More Questions for the Builder
+    // -------------------------------
+    else if (mode === "more") {
+      const wanted = Math.min(Math.max(Number(count) || 3, 1), 20);
+
+      rules = { ...FORMAT_RULES[questionType], expectedCount: wanted, existing };
+
+      prompt = `
+Add exactly ${wanted} new questions to the quiz "${quizTitle || "Untitled quiz"}", on the same topic and at the same level as its current questions.
+
+${otherQuestions(existing)}
+
+Rules:
+- Each new question must test something none of the existing questions already test
+${style}
+${difficultyGuide}
+- Every question needs a short "explanation" (1-3 sentences, markdown allowed) of why the answer is correct
+- Return ONLY valid JSON (no markdown, no backticks) in this format:
+
+${quizFormat()}
+`;
+    }
+
+    // -------------------------------
+    // Invalid Mode
+    // -------------------------------
+    else {
+      throw new Error(
+        "Invalid mode. Use 'ai', 'ocr', 'material', 'more', 'explain' or a question action (regenerate, harder, easier, distractors)"
+      );
+    }
+
+    // -------------------------------
+    // ✅ Model Call (Text Only)
+    // -------------------------------
+    if (!result) {
+      result = await generateChecked(provider, prompt, rules);
+    }
+
+    // -------------------------------
+    // ✅ Optional rewrite of extracted questions
+    // -------------------------------
+    if (mode === "ocr" && rewriteEnabled) {
+      result = await rewriteQuiz(provider, result, rules);
+    }
+
+    // ✅ Remaining problems are highlighted in the builder before saving
+    return new Response(
+      JSON.stringify({ ...result.quiz, warnings: result.warnings }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (e) {
+    console.error("generate-quiz error:", e);
+
+    return new Response(
+      JSON.stringify({
+        error: e instanceof Error ? e.message : "Unknown error",
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+};
+
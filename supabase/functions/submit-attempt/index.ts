@@ -0,0 +1,277 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { answerKey, shuffleAnswerKey, type AnswerValue } from "../_shared/grading.ts";
+import {
+  HttpError,
+  SESSION_COLUMNS,
+  SUBMIT_GRACE_SECONDS,
+  loadSessionQuestions,
+  saveAttempt,
+  sessionTiming,
+  type QuizSession,
+} from "../_shared/attempts.ts";
+import { sanitizeProctorEvents } from "../_shared/proctoring.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const {
+      shareToken,
+      quizId,
+      sessionId,
+      answers,
+      tabSwitchCount,
+      questionTimes,
+      proctorEvents,
+    } = await req.json();
+
+    const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+    const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+      throw new Error("Supabase service credentials not configured");
+    }
+
+    // Service role: answer keys and attempt writes never go through the browser
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+    // -------------------------------
+    // Resolve Quiz (share link OR creator)
+    // -------------------------------
+    const quizColumns =
+      "id, user_id, max_retries, sharing_enabled, show_answers, leaderboard_enabled, negative_marking_enabled, negative_mark_value, multi_select_scoring";
+
+    let quiz;
+    let userId: string | null = null;
+    const isCreator = !shareToken && !!quizId;
+
+    if (shareToken) {
+      // The quiz's own token, or one of its extra share links. The link's
+      // state and access code were checked when the session started.
+      const { data: link } = await supabase
+        .from("quiz_share_links")
+        .select("quiz_id")
+        .eq("token", shareToken)
+        .maybeSingle();
+
+      const { data } = link
+        ? await supabase
+            .from("quizzes")
+            .select(quizColumns)
+            .eq("id", link.quiz_id)
+            .maybeSingle()
+        : await supabase
+            .from("quizzes")
+            .select(quizColumns)
+            .eq("share_token", shareToken)
+            .maybeSingle();
+
+      if (!data || data.sharing_enabled === false) {
+        throw new HttpError(404, "Quiz not available");
+      }
+
+      quiz = data;
+    } else if (quizId) {
+      // Creator attempts: caller must own the quiz
+      const jwt = req.headers.get("Authorization")?.replace("Bearer ", "");
+      const { data: auth } = await supabase.auth.getUser(jwt);
+
+      const { data } = await supabase
+        .from("quizzes")
+        .select(quizColumns)
+        .eq("id", quizId)
+        .maybeSingle();
+
+      if (!data || !auth?.user || data.user_id !== auth.user.id) {
+        throw new HttpError(403, "Not allowed to submit this quiz");
+      }
+
+      quiz = data;
+      userId = auth.user.id;
+    } else {
+      throw new HttpError(400, "shareToken or quizId is required");
+    }
+
+    // -------------------------------
+    // Session (server clock decides time taken + lateness)
+    // -------------------------------
+    if (!sessionId) throw new HttpError(400, "sessionId is required");
+
+    const { data: session } = await supabase
+      .from("quiz_sessions")
+      .select(SESSION_COLUMNS)
+      .eq("id", sessionId)
+      .maybeSingle<QuizSession>();
+
+    if (
+      !session ||
+      session.quiz_id !== quiz.id ||
+      (isCreator && session.participant_key !== `user:${userId}`)
+    ) {
+      throw new HttpError(400, "Invalid session");
+    }
+
+    // Identity was resolved when the session started (name, roster ID,
+    // custom field or account), so it cannot be changed at submit time
+    const participantKey = session.participant_key;
+
+    // -------------------------------
+    // Retry Limit (keyed on the resolved identity; a group
+    // assignment may set its own limit)
+    // -------------------------------
+    if (!isCreator) {
+      const { count } = await supabase
+        .from("quiz_attempts")
+        .select("*", { count: "exact", head: true })
+        .eq("quiz_id", quiz.id)
+        .eq("participant_key", participantKey);
+
+      const { data: assignment } = session.group_id
+        ? await supabase
+            .from("quiz_group_assignments")
+            .select("max_retries")
+            .eq("quiz_id", quiz.id)
+            .eq("group_id", session.group_id)
+            .maybeSingle()
+        : { data: null };
+
+      const maxRetries = assignment?.max_retries ?? quiz.max_retries;
+      const allowed = maxRetries > 0 ? maxRetries : 1;
+
+      if ((count || 0) >= allowed) {
+        throw new HttpError(403, "Maximum retries reached");
+      }
+    }
+
+    if (session.submitted_at) {
+      throw new HttpError(409, "This attempt was already submitted");
+    }
+
+    const now = new Date();
+
+    // Nothing is accepted once the (group's) closing time plus grace has
+    // passed; sessions left open are graded by finalise-sessions
+    if (!isCreator) {
+      const { data: windows, error: windowError } = await supabase.rpc(
+        "quiz_group_window",
+        { _quiz_id: quiz.id, _group_id: session.group_id },
+      );
+
+      if (windowError) throw new Error(windowError.message);
+
+      const closesAt = windows?.[0]?.closes_at;
+      if (
+        closesAt &&
+        now.getTime() > new Date(closesAt).getTime() + SUBMIT_GRACE_SECONDS * 1000
+      ) {
+        throw new HttpError(403, "This quiz has closed");
+      }
+    }
+
+    const { elapsedSeconds, timeTaken, isLate } = sessionTiming(session, now);
+
+    // -------------------------------
+    // Grade Against Stored Answer Key
+    // -------------------------------
+    const { versionId, questions } = await loadSessionQuestions(supabase, session);
+
+    const raw: Record<string, AnswerValue> =
+      answers && typeof answers === "object" ? answers : {};
+
+    const totalQuestions = questions.length;
+
+    const switches = Math.max(Number(tabSwitchCount) || 0, 0);
+
+    // Browser-measured, so keep drawn questions only, whole seconds, and
+    // nothing longer than the attempt itself
+    const times: Record<string, number> = {};
+    if (questionTimes && typeof questionTimes === "object") {
+      questions.forEach((q) => {
+        const seconds = Math.floor(Number(questionTimes[q.id]));
+        if (seconds > 0) times[q.id] = Math.min(seconds, elapsedSeconds);
+      });
+    }
+
+    const proctor = sanitizeProctorEvents(
+      proctorEvents,
+      new Date(session.started_at),
+      now,
+    );
+
+    const { result, optionOrders } = await saveAttempt(supabase, {
+      quiz,
+      session,
+      questions,
+      versionId,
+      userId,
+      answers: raw,
+      submittedAt: now,
+      timeTaken,
+      isLate,
+      leaderboard: !isCreator,
+      extras: {
+        tab_switch_count: switches,
+        question_times: times,
+        proctor_events: proctor.events,
+        proctor_events_dropped: proctor.dropped,
+      },
+    });
+
+    // Answer key is only revealed when the creator allows it
+    const revealAnswers = isCreator || (quiz.show_answers ?? true);
+
+    const correctAnswers = revealAnswers
+      ? Object.fromEntries(
+          // Keys are returned in the participant's display order
+          questions.map((q) => [
+            q.id,
+            shuffleAnswerKey(answerKey(q), optionOrders[q.id]),
+          ]),
+        )
+      : null;
+
+    const explanations = revealAnswers
+      ? Object.fromEntries(
+          questions
+            .filter((q) => q.explanation?.trim())
+            .map((q) => [q.id, q.explanation]),
+        )
+      : null;
+
+    return new Response(
+      JSON.stringify({
+        score: result.score,
+        correct_count: result.correctCount,
+        wrong_count: result.wrongCount,
+        total_questions: totalQuestions,
+        time_taken_seconds: timeTaken,
+        tab_switch_count: switches,
+        is_late: isLate,
+        question_credits: revealAnswers ? result.credits : null,
+        correct_answers: correctAnswers,
+        explanations,
+      }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } },
+    );
+  } catch (e) {
+    console.error("submit-attempt error:", e);
+
+    return new Response(
+      JSON.stringify({
+        error: e instanceof Error ? e.message : "Unknown error",
+      }),
+      {
+        status: e instanceof HttpError ? e.status : 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      },
+    );
+  }
+});
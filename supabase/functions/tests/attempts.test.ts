@@ -0,0 +1,40 @@
+import { describe, it, expect } from "vitest";
+import { type QuizSession, sessionTiming } from "../_shared/attempts.ts";
+
+const session = (expiresAt: string | null) =>
+  ({
+    started_at: "2026-10-18T10:00:00Z",
+    expires_at: expiresAt,
+  }) as QuizSession;
+
+const at = (time: string) => new Date(`2026-10-18T${time}Z`);
+
+describe("sessionTiming", () => {
+  it("counts elapsed seconds when there is no time limit", () => {
+    expect(sessionTiming(session(null), at("10:12:30"))).toEqual({
+      elapsedSeconds: 750,
+      timeTaken: 750,
+      isLate: false,
+    });
+  });
+
+  it("caps on-time submits inside the grace period at the time limit", () => {
+    expect(sessionTiming(session("2026-10-18T10:10:00Z"), at("10:10:20"))).toEqual({
+      elapsedSeconds: 620,
+      timeTaken: 600,
+      isLate: false,
+    });
+  });
+
+  it("flags submits after the grace period as late", () => {
+    expect(sessionTiming(session("2026-10-18T10:10:00Z"), at("10:11:00"))).toEqual({
+      elapsedSeconds: 660,
+      timeTaken: 660,
+      isLate: true,
+    });
+  });
+
+  it("never reports less than a second", () => {
+    expect(sessionTiming(session(null), at("10:00:00")).timeTaken).toBe(1);
+  });
+});
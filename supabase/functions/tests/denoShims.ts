@@ -0,0 +1,14 @@
+// -------------------------------
+// Stand-ins for Deno-only imports (used by vitest.config.ts)
+// -------------------------------
+//
+// Lets the edge function modules load under vitest. Tests drive exported
+// handlers and helpers directly, so none of these are ever called.
+
+const unavailable = (name: string) => () => {
+  throw new Error(`${name} is not available under vitest`);
+};
+
+// https://esm.sh/unpdf
+export const getDocumentProxy = unavailable("getDocumentProxy");
+export const extractText = unavailable("extractText");
@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { handleGenerateQuiz } from "../generate-quiz/handler.ts";
+import { type LlmProvider, mockProvider } from "../_shared/llm.ts";
+
+const request = (body: Record<string, unknown>) =>
+  new Request("http://localhost/generate-quiz", {
+    method: "POST",
+    body: JSON.stringify(body),
+  });
+
+const generate = async (body: Record<string, unknown>, provider: LlmProvider) => {
+  const response = await handleGenerateQuiz(request(body), () => provider);
+  return { status: response.status, json: await response.json() };
+};
+
+// Replies in order (the last one repeats), recording every prompt
+const scripted = (...replies: string[]) => {
+  const prompts: string[] = [];
+  const provider: LlmProvider = {
+    name: "mock",
+    complete(prompt) {
+      prompts.push(prompt);
+      return Promise.resolve(replies[Math.min(prompts.length, replies.length) - 1]);
+    },
+  };
+  return { provider, prompts };
+};
+
+const quiz = (correct: number) =>
+  JSON.stringify({
+    title: "Plants",
+    questions: [
+      {
+        question_text: "What do plants absorb for photosynthesis?",
+        options: ["Carbon dioxide", "Helium", "Neon"],
+        correct_option_index: correct,
+        explanation: "Plants take in carbon dioxide.",
+      },
+    ],
+  });
+
+const aiRequest = { mode: "ai", topic: "Photosynthesis", numQuestions: 1 };
+
+describe("handleGenerateQuiz", () => {
+  beforeEach(() => {
+    // Retries and failures are logged on purpose
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  it("returns the generated quiz from the mock provider", async () => {
+    const { status, json } = await generate({ ...aiRequest, numQuestions: 4 }, mockProvider());
+
+    expect(status).toBe(200);
+    expect(json.title).toBe("Mock Quiz: Photosynthesis");
+    expect(json.questions).toHaveLength(4);
+    expect(json.warnings).toEqual([]);
+  });
+
+  it("reports provider errors", async () => {
+    const failing: LlmProvider = {
+      name: "mock",
+      complete: () => Promise.reject(new Error("Gemini API error: quota exceeded")),
+    };
+
+    const { status, json } = await generate(aiRequest, failing);
+
+    expect(status).toBe(500);
+    expect(json).toEqual({ error: "Gemini API error: quota exceeded" });
+  });
+
+  it("gives up after three replies that are not JSON", async () => {
+    const { provider, prompts } = scripted("Sure! Here is your quiz.");
+
+    const { status, json } = await generate(aiRequest, provider);
+
+    expect(status).toBe(500);
+    expect(json).toEqual({ error: "The model did not return a usable quiz" });
+    expect(prompts).toHaveLength(3);
+    expect(prompts[1]).toContain("- The reply was not valid JSON");
+  });
+
+  it("re-prompts with the problems and keeps the corrected reply", async () => {
+    const { provider, prompts } = scripted(`\`\`\`json\n${quiz(5)}\n\`\`\``, quiz(0));
+
+    const { status, json } = await generate(aiRequest, provider);
+
+    expect(status).toBe(200);
+    expect(json.questions[0].correct_option_index).toBe(0);
+    expect(json.warnings).toEqual([]);
+    expect(prompts).toHaveLength(2);
+    expect(prompts[1]).toContain("- Question 1: correct_option_index 5 out of range (3 options)");
+  });
+
+  it("returns remaining problems as warnings", async () => {
+    const { provider, prompts } = scripted(quiz(5));
+
+    const { status, json } = await generate(aiRequest, provider);
+
+    expect(status).toBe(200);
+    expect(json.questions).toHaveLength(1);
+    expect(json.warnings).toEqual([
+      { question: 0, message: "correct_option_index 5 out of range (3 options)" },
+    ]);
+    expect(prompts).toHaveLength(3);
+  });
+
+  it("rejects unknown modes and formats", async () => {
+    const mode = await generate({ mode: "poem" }, mockProvider());
+    const format = await generate({ ...aiRequest, questionType: "Essay" }, mockProvider());
+
+    expect(mode.status).toBe(500);
+    expect(mode.json.error).toMatch(/^Invalid mode/);
+    expect(format.json).toEqual({ error: "Unknown question format: Essay" });
+  });
+
+  it("answers CORS preflight requests", async () => {
+    const response = await handleGenerateQuiz(
+      new Request("http://localhost/generate-quiz", { method: "OPTIONS" }),
+      () => mockProvider()
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Access-Control-Allow-Origin")).toBe("*");
+  });
+});
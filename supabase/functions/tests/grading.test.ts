@@ -0,0 +1,181 @@
+import { describe, it, expect } from "vitest";
+import {
+  answerKey,
+  gradeAttempt,
+  gradeMultiSelect,
+  gradeNumeric,
+  gradeShortText,
+  shuffleAnswerKey,
+  unshuffleAnswer,
+  type GradableQuestion,
+  type MultiSelectScoring,
+  type TextMatchMode,
+  type ToleranceType,
+} from "../_shared/grading.ts";
+
+describe("gradeMultiSelect", () => {
+  // Key: options 0 and 2 of 4
+  const cases: [MultiSelectScoring, number[], number][] = [
+    ["all_or_nothing", [0, 2], 1],
+    ["all_or_nothing", [2, 0], 1],
+    ["all_or_nothing", [0], 0],
+    ["all_or_nothing", [0, 1, 2], 0],
+    ["partial", [0, 2], 1],
+    ["partial", [0], 0.75],
+    ["partial", [0, 1, 2], 0.75],
+    ["partial", [1, 3], 0],
+    ["partial_penalty", [0, 2], 1],
+    ["partial_penalty", [0], 0.5],
+    ["partial_penalty", [0, 1], 0],
+    ["partial_penalty", [0, 1, 2], 0.5],
+    ["partial_penalty", [1, 3], 0],
+  ];
+
+  it.each(cases)("%s scores %j as %d", (scoring, selected, expected) => {
+    expect(gradeMultiSelect(selected, [0, 2], 4, scoring)).toBe(expected);
+  });
+
+  it("gives no credit under partial_penalty when the key is empty", () => {
+    expect(gradeMultiSelect([0], [], 4, "partial_penalty")).toBe(0);
+  });
+});
+
+describe("gradeNumeric", () => {
+  const cases: [string, number, number, ToleranceType, number][] = [
+    ["9.81", 9.81, 0, "absolute", 1],
+    [" 9.81 ", 9.81, 0, "absolute", 1],
+    ["9.8", 9.81, 0, "absolute", 0],
+    ["10", 9.81, 0.2, "absolute", 1],
+    ["10.1", 9.81, 0.2, "absolute", 0],
+    ["0.3", 0.1 + 0.2, 0, "absolute", 1],
+    ["105", 100, 5, "percent", 1],
+    ["95", 100, 5, "percent", 1],
+    ["105.1", 100, 5, "percent", 0],
+    ["-95", -100, 5, "percent", 1],
+    ["abc", 1, 10, "absolute", 0],
+  ];
+
+  it.each(cases)("%j against %d (± %d %s) is %d", (answer, expected, tolerance, type, credit) => {
+    expect(gradeNumeric(answer, expected, tolerance, type)).toBe(credit);
+  });
+});
+
+describe("gradeShortText", () => {
+  const cases: [string, string[], TextMatchMode, number][] = [
+    ["  Paris ", ["paris"], "normalized", 1],
+    ["new   york", ["New York"], "normalized", 1],
+    ["Lyon", ["Paris", "Lyon"], "normalized", 1],
+    ["Pariss", ["Paris"], "normalized", 0],
+    [" Paris ", ["Paris"], "exact", 1],
+    ["paris", ["Paris"], "exact", 0],
+    ["colour", ["colou?r"], "regex", 1],
+    ["COLOR", ["colou?r"], "regex", 1],
+    ["colors", ["colou?r"], "regex", 0],
+    ["anything", ["("], "regex", 0],
+  ];
+
+  it.each(cases)("%j against %j (%s) is %d", (answer, accepted, mode, credit) => {
+    expect(gradeShortText(answer, accepted, mode)).toBe(credit);
+  });
+});
+
+describe("gradeAttempt", () => {
+  const questions: GradableQuestion[] = [
+    { id: "q1", question_type: "single", options: ["a", "b"], correct_option_index: 1 },
+    { id: "q2", question_type: "true_false", options: ["True", "False"], correct_option_index: 0 },
+    {
+      id: "q3",
+      question_type: "multiple",
+      options: ["a", "b", "c"],
+      correct_option_index: 0,
+      correct_option_indices: [0, 1],
+    },
+    {
+      id: "q4",
+      question_type: "numeric",
+      correct_option_index: 0,
+      numeric_answer: "42",
+      numeric_tolerance: 0,
+    },
+  ];
+
+  it("adds partial credit and only penalises fully wrong answers", () => {
+    const result = gradeAttempt(
+      questions,
+      { q1: 1, q2: 1, q3: [0], q4: "" },
+      { negativeMarkingEnabled: true, negativeMarkValue: 0.25, multiSelectScoring: "partial" },
+    );
+
+    // 1 + 0 + 2/3 - 0.25, rounded to two places; q4 was left blank
+    expect(result.score).toBe(1.42);
+    expect(result.correctCount).toBe(1);
+    expect(result.wrongCount).toBe(1);
+    expect(result.results).toEqual({ q1: true, q2: false, q3: false });
+    expect(Object.keys(result.credits)).toEqual(["q1", "q2", "q3"]);
+  });
+
+  it("never goes below zero with negative marking", () => {
+    const result = gradeAttempt(
+      questions,
+      { q1: 0, q2: 1 },
+      { negativeMarkingEnabled: true, negativeMarkValue: 1 },
+    );
+
+    expect(result.score).toBe(0);
+    expect(result.wrongCount).toBe(2);
+  });
+});
+
+describe("answerKey", () => {
+  it("formats numeric and short-text keys for review", () => {
+    expect(
+      answerKey({
+        id: "n",
+        question_type: "numeric",
+        correct_option_index: 0,
+        numeric_answer: 9.81,
+        numeric_tolerance: 1,
+        numeric_tolerance_type: "percent",
+      }),
+    ).toBe("9.81 (± 1%)");
+
+    expect(
+      answerKey({
+        id: "t",
+        question_type: "short_text",
+        correct_option_index: 0,
+        accepted_answers: ["Paris", "paris, france"],
+      }),
+    ).toBe("Paris / paris, france");
+  });
+});
+
+describe("option shuffling", () => {
+  // Display position → original index: the participant sees C, A, D, B
+  const order = [2, 0, 3, 1];
+
+  it("maps displayed choices back to original indices", () => {
+    expect(unshuffleAnswer(0, order)).toBe(2);
+    expect(unshuffleAnswer([0, 3], order)).toEqual([1, 2]);
+  });
+
+  it("maps the original key to displayed positions", () => {
+    expect(shuffleAnswerKey(2, order)).toBe(0);
+    expect(shuffleAnswerKey([1, 2], order)).toEqual([0, 3]);
+  });
+
+  it.each([0, 1, 2, 3])("round-trips displayed choice %d", (display) => {
+    expect(shuffleAnswerKey(unshuffleAnswer(display, order), order)).toBe(display);
+  });
+
+  it("round-trips multi-select answers", () => {
+    const displayed = [1, 2];
+    expect(shuffleAnswerKey(unshuffleAnswer(displayed, order), order)).toEqual(displayed);
+  });
+
+  it("leaves text answers and unshuffled questions alone", () => {
+    expect(unshuffleAnswer("42", order)).toBe("42");
+    expect(unshuffleAnswer(3, undefined)).toBe(3);
+    expect(shuffleAnswerKey([0, 1], undefined)).toEqual([0, 1]);
+  });
+});
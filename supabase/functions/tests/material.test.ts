@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import {
+  MAX_MATERIAL_CHARS,
+  chunkPassages,
+  checkMaterialLength,
+  spreadQuestions,
+  splitPassages,
+  type MaterialChunk,
+  type Passage,
+} from "../_shared/material.ts";
+
+// A sentence of exactly 50 characters
+const sentence = (n: number) => `Sentence ${String(n).padStart(3, "0")} ${"x".repeat(36)}.`;
+
+const chunk = (length: number): MaterialChunk => ({ passages: [], length });
+
+describe("splitPassages", () => {
+  it("joins short paragraphs and normalises whitespace", () => {
+    expect(splitPassages("Heading\r\n\r\nFirst   line\nwraps here.\n  \nLast one.")).toEqual([
+      { id: 1, text: "Heading\nFirst line wraps here.\nLast one." },
+    ]);
+  });
+
+  it("starts a new passage when the next paragraph would not fit", () => {
+    const paragraph = "a".repeat(500);
+    const passages = splitPassages(`${paragraph}\n\n${paragraph}`);
+
+    expect(passages.map((p) => p.id)).toEqual([1, 2]);
+    expect(passages.map((p) => p.text)).toEqual([paragraph, paragraph]);
+  });
+
+  it("cuts long paragraphs at sentence ends", () => {
+    const sentences = Array.from({ length: 40 }, (_, i) => sentence(i));
+    const passages = splitPassages(sentences.join(" "));
+
+    expect(passages).toHaveLength(3);
+    passages.forEach((p) => {
+      expect(p.text.length).toBeLessThanOrEqual(800);
+      expect(p.text.endsWith(".")).toBe(true);
+    });
+    expect(passages.map((p) => p.text).join(" ")).toBe(sentences.join(" "));
+  });
+
+  it("returns nothing for blank material", () => {
+    expect(splitPassages(" \n\n \n")).toEqual([]);
+  });
+});
+
+describe("chunkPassages", () => {
+  it("groups passages up to the chunk size without splitting them", () => {
+    const passages: Passage[] = Array.from({ length: 20 }, (_, i) => ({
+      id: i + 1,
+      text: "p".repeat(800),
+    }));
+
+    const chunks = chunkPassages(passages);
+
+    expect(chunks.map((c) => c.passages.length)).toEqual([7, 7, 6]);
+    expect(chunks.map((c) => c.length)).toEqual([5600, 5600, 4800]);
+    expect(chunks.flatMap((c) => c.passages.map((p) => p.id))).toEqual(passages.map((p) => p.id));
+  });
+
+  it("returns no chunks without passages", () => {
+    expect(chunkPassages([])).toEqual([]);
+  });
+});
+
+describe("spreadQuestions", () => {
+  const cases: [string, number[], number, number[]][] = [
+    ["no chunks", [], 5, []],
+    ["no questions", [100, 100], 0, [0, 0]],
+    ["fewer questions than chunks", [100, 100, 100, 100], 2, [0, 1, 0, 1]],
+    ["one question per chunk", [6000, 10, 10], 3, [1, 1, 1]],
+    ["the rest by chunk length", [6000, 3000, 1000], 10, [5, 3, 2]],
+    ["equal chunks", [500, 500], 7, [4, 3]],
+  ];
+
+  it.each(cases)("handles %s", (_, lengths, total, expected) => {
+    const counts = spreadQuestions(lengths.map(chunk), total);
+
+    expect(counts).toEqual(expected);
+    expect(counts.reduce((sum, n) => sum + n, 0)).toBe(lengths.length ? total : 0);
+  });
+});
+
+describe("checkMaterialLength", () => {
+  it("rejects material without enough text", () => {
+    expect(() => checkMaterialLength(`  ${"a".repeat(199)}  `)).toThrow(/^Not enough material/);
+  });
+
+  it("rejects material over the limit", () => {
+    expect(() => checkMaterialLength("a".repeat(MAX_MATERIAL_CHARS + 1))).toThrow(
+      /^Material is too long/
+    );
+  });
+
+  it.each([200, MAX_MATERIAL_CHARS])("accepts %d characters", (length) => {
+    expect(() => checkMaterialLength("a".repeat(length))).not.toThrow();
+  });
+});
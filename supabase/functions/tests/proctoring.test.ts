@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import { sanitizeProctorEvents } from "../_shared/proctoring.ts";
+
+const startedAt = new Date("2026-10-18T10:00:00Z");
+const now = new Date("2026-10-18T10:30:00Z");
+
+const at = (minutes: number, seconds = 0) =>
+  new Date(startedAt.getTime() + (minutes * 60 + seconds) * 1000).toISOString();
+
+describe("sanitizeProctorEvents", () => {
+  it("keeps known events inside the session, oldest first", () => {
+    const { events, dropped } = sanitizeProctorEvents(
+      [
+        { type: "window_blur", at: at(5) },
+        { type: "tab_hidden", at: at(1) },
+        { type: "made_up", at: at(2) },
+        { type: "right_click", at: "yesterday" },
+        { type: "copy_blocked", at: at(-60) },
+        null,
+      ],
+      startedAt,
+      now
+    );
+
+    expect(events.map((e) => e.type)).toEqual(["tab_hidden", "window_blur"]);
+    expect(dropped).toBe(0);
+  });
+
+  it("keeps late suspicious events when an early type floods the log", () => {
+    const flood = Array.from({ length: 600 }, (_, i) => ({
+      type: "tab_visible",
+      at: at(0, i),
+    }));
+
+    const { events, dropped } = sanitizeProctorEvents(
+      [...flood, { type: "devtools_suspected", at: at(25) }],
+      startedAt,
+      now
+    );
+
+    expect(dropped).toBe(500);
+    expect(events).toHaveLength(101);
+    expect(events[0].at).toBe(at(0, 500));
+    expect(events[events.length - 1]).toEqual({ type: "devtools_suspected", at: at(25) });
+  });
+
+  it("ignores anything that is not a list", () => {
+    expect(sanitizeProctorEvents({ type: "tab_hidden" }, startedAt, now)).toEqual({
+      events: [],
+      dropped: 0,
+    });
+  });
+});
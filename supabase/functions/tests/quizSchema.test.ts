@@ -0,0 +1,192 @@
+import { describe, it, expect } from "vitest";
+import {
+  ASSERTION_REASON_OPTIONS,
+  describeWarnings,
+  validateGeneratedQuiz,
+  type QuizRules,
+} from "../_shared/quizSchema.ts";
+
+const rules: QuizRules = {
+  minOptions: 3,
+  maxOptions: 4,
+  types: ["single", "multiple", "true_false"],
+};
+
+const question = (overrides: Record<string, unknown> = {}) => ({
+  question_text: "What is 2 + 2?",
+  question_type: "single",
+  options: ["3", "4", "5"],
+  correct_option_index: 1,
+  explanation: "",
+  ...overrides,
+});
+
+const passages = { 1: "Two and two make four." };
+
+// Warnings for a one-question quiz
+const warningsFor = (q: Record<string, unknown>, extra: Partial<QuizRules> = {}) =>
+  validateGeneratedQuiz({ title: "Maths", questions: [q] }, { ...rules, ...extra }).warnings.map(
+    (w) => w.message
+  );
+
+describe("validateGeneratedQuiz", () => {
+  it("accepts a well-formed quiz and fills in defaults", () => {
+    const { quiz, warnings } = validateGeneratedQuiz(
+      { title: "Maths", questions: [question({ question_type: null, explanation: null })] },
+      { ...rules, expectedCount: 1 }
+    );
+
+    expect(warnings).toEqual([]);
+    expect(quiz.title).toBe("Maths");
+    expect(quiz.questions[0]).toMatchObject({ question_type: "single", explanation: "" });
+  });
+
+  const cases: [string, Record<string, unknown>, Partial<QuizRules>, string][] = [
+    ["an empty question", { question_text: "  " }, {}, "question_text is empty"],
+    [
+      "a disallowed type",
+      { question_type: "multiple", correct_option_indices: [0] },
+      { types: ["single"] },
+      'question_type "multiple" is not allowed here (use single)',
+    ],
+    ["an empty option", { options: ["3", " ", "5"] }, {}, "an option is empty"],
+    ["repeated options", { options: ["4", " 4", "5"] }, {}, "options repeat"],
+    ["too few options", { options: ["3", "4"] }, {}, "has 2 options (needs 3-4)"],
+    ["too many options", { options: ["1", "2", "3", "4", "5"] }, {}, "has 5 options (needs 3-4)"],
+    ["a missing answer", { correct_option_index: null }, {}, "correct_option_index is missing"],
+    [
+      "an answer out of range",
+      { correct_option_index: 3 },
+      {},
+      "correct_option_index 3 out of range (3 options)",
+    ],
+    [
+      "bad true/false options",
+      { question_type: "true_false", options: ["Yes", "No"], correct_option_index: 0 },
+      {},
+      'true/false options must be exactly ["True", "False"]',
+    ],
+    [
+      "an empty multi-select key",
+      { question_type: "multiple", correct_option_indices: [] },
+      {},
+      "correct_option_indices is empty",
+    ],
+    [
+      "a multi-select key out of range",
+      { question_type: "multiple", correct_option_indices: [0, 3] },
+      {},
+      "correct_option_indices [0,3] out of range (3 options)",
+    ],
+    [
+      "a repeated multi-select key",
+      { question_type: "multiple", correct_option_indices: [1, 1] },
+      {},
+      "correct_option_indices repeat",
+    ],
+    [
+      "non-standard assertion-reason options",
+      { question_text: "Assertion: A. Reason: R." },
+      {},
+      "assertion-reason options must be the four standard options, in order",
+    ],
+    [
+      "a plain question in assertion-reason mode",
+      {},
+      { assertionReasonOnly: true },
+      'is not in "Assertion: ... Reason: ..." form',
+    ],
+    ["a missing passage", {}, { passages }, "source_passage is missing"],
+    [
+      "an unknown passage",
+      { source_passage: 2, source_quote: "four" },
+      { passages },
+      "source_passage 2 is not one of the given passages",
+    ],
+    ["a missing quote", { source_passage: 1 }, { passages }, "source_quote is missing"],
+    [
+      "an invented quote",
+      { source_passage: 1, source_quote: "two and two make five" },
+      { passages },
+      "source_quote is not an exact quote from passage 1",
+    ],
+    [
+      "a repeat of an existing question",
+      {},
+      { existing: ["what is 2 + 2?"] },
+      "repeats a question already in the quiz",
+    ],
+  ];
+
+  it.each(cases)("flags %s", (_, overrides, extra, message) => {
+    expect(warningsFor(question(overrides), extra)).toEqual([message]);
+  });
+
+  const accepted: [string, Record<string, unknown>, Partial<QuizRules>][] = [
+    [
+      "true/false",
+      { question_type: "true_false", options: ["True", "false"], correct_option_index: 1 },
+      {},
+    ],
+    ["multi-select", { question_type: "multiple", correct_option_indices: [0, 2] }, {}],
+    [
+      "assertion-reason",
+      {
+        question_text: "Assertion: A. Reason: R.",
+        options: ASSERTION_REASON_OPTIONS,
+        correct_option_index: 0,
+      },
+      { assertionReasonOnly: true },
+    ],
+    ["a quoted passage", { source_passage: 1, source_quote: "two  and two make FOUR" }, { passages }],
+  ];
+
+  it.each(accepted)("accepts %s questions", (_, overrides, extra) => {
+    expect(warningsFor(question(overrides), extra)).toEqual([]);
+  });
+
+  it("flags duplicates within the reply", () => {
+    const { warnings } = validateGeneratedQuiz(
+      { title: "Maths", questions: [question(), question({ question_text: "what is 2 +  2?" })] },
+      rules
+    );
+
+    expect(warnings).toEqual([{ question: 1, message: "duplicates question 1" }]);
+  });
+
+  it("drops malformed questions and checks the count", () => {
+    const { quiz, warnings } = validateGeneratedQuiz(
+      { title: "", questions: [question(), { question_text: "No options" }] },
+      { ...rules, expectedCount: 3 }
+    );
+
+    expect(quiz.questions).toHaveLength(1);
+    expect(warnings.map((w) => w.question)).toEqual([null, null, null]);
+    expect(warnings[0].message).toBe("title is empty");
+    expect(warnings[1].message).toMatch(/^Generated question 2 was malformed and dropped/);
+    expect(warnings[2].message).toBe("has 1 questions (3 were requested)");
+  });
+
+  it.each([
+    ["a string", "not a quiz"],
+    ["a quiz without questions", { title: "Maths" }],
+    ["null", null],
+  ])("rejects %s", (_, raw) => {
+    const { quiz, warnings } = validateGeneratedQuiz(raw, rules);
+
+    expect(quiz).toEqual({ title: "", questions: [] });
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0].message).toMatch(/^Reply is not a quiz: /);
+  });
+});
+
+describe("describeWarnings", () => {
+  it("lists one problem per line", () => {
+    expect(
+      describeWarnings([
+        { question: null, message: "title is empty" },
+        { question: 0, message: "options repeat" },
+      ])
+    ).toBe("- Quiz: title is empty\n- Question 1: options repeat");
+  });
+});
@@ -0,0 +1,34 @@
+-- Questions (with answer keys) are only readable by the quiz owner
+DROP POLICY IF EXISTS "Users can view questions of accessible quizzes" ON public.questions;
+
+CREATE POLICY "Users can view questions of own quizzes" ON public.questions
+  FOR SELECT USING (public.is_quiz_owner(quiz_id));
+
+-- Participants load questions through this RPC, which leaves out the key
+CREATE OR REPLACE FUNCTION public.get_shared_quiz_questions(_share_token TEXT)
+RETURNS TABLE (
+  id UUID,
+  question_text TEXT,
+  options TEXT[],
+  order_num INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT q.id, q.question_text, q.options, q.order_num
+  FROM public.questions q
+  JOIN public.quizzes z ON z.id = q.quiz_id
+  WHERE z.share_token = _share_token
+    AND COALESCE(z.sharing_enabled, true)
+  ORDER BY q.order_num
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_shared_quiz_questions(TEXT) TO anon, authenticated;
+
+-- Attempts and leaderboard rows are graded and written by the
+-- submit-attempt edge function (service role) only
+DROP POLICY IF EXISTS "Anyone can create quiz attempts" ON public.quiz_attempts;
+
+REVOKE INSERT, UPDATE ON public.quiz_leaderboard FROM anon, authenticated;
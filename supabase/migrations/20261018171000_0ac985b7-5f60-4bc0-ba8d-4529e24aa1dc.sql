@@ -0,0 +1,96 @@
+-- Server-authoritative attempt sessions (timer lives on the server clock)
+CREATE TABLE public.quiz_sessions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  quiz_id UUID NOT NULL REFERENCES public.quizzes(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  participant_name TEXT NOT NULL,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  expires_at TIMESTAMP WITH TIME ZONE,
+  submitted_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX quiz_sessions_quiz_participant_idx
+  ON public.quiz_sessions (quiz_id, participant_name);
+
+-- No client policies: sessions are only touched through
+-- start_quiz_session() and the submit-attempt function
+ALTER TABLE public.quiz_sessions ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE public.quiz_attempts
+  ADD COLUMN IF NOT EXISTS session_id UUID REFERENCES public.quiz_sessions(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS is_late BOOLEAN NOT NULL DEFAULT false;
+
+-- Start (or resume) a session. An unsubmitted session is returned as-is,
+-- so refreshing or clearing storage never resets the timer.
+-- Shared attempts pass _share_token + _participant_name,
+-- creator attempts pass _quiz_id.
+CREATE OR REPLACE FUNCTION public.start_quiz_session(
+  _share_token TEXT DEFAULT NULL,
+  _participant_name TEXT DEFAULT NULL,
+  _quiz_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  session_id UUID,
+  started_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  server_now TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _quiz RECORD;
+  _name TEXT;
+  _session public.quiz_sessions%ROWTYPE;
+BEGIN
+  IF _share_token IS NOT NULL THEN
+    SELECT id, duration_minutes INTO _quiz
+    FROM public.quizzes
+    WHERE share_token = _share_token AND COALESCE(sharing_enabled, true);
+
+    _name := btrim(COALESCE(_participant_name, ''));
+  ELSE
+    SELECT id, duration_minutes INTO _quiz
+    FROM public.quizzes
+    WHERE id = _quiz_id AND user_id = auth.uid();
+
+    _name := 'Creator';
+  END IF;
+
+  IF _quiz.id IS NULL THEN
+    RAISE EXCEPTION 'Quiz not available';
+  END IF;
+
+  IF _name = '' THEN
+    RAISE EXCEPTION 'Participant name is required';
+  END IF;
+
+  SELECT * INTO _session
+  FROM public.quiz_sessions s
+  WHERE s.quiz_id = _quiz.id
+    AND s.participant_name = _name
+    AND s.submitted_at IS NULL
+  ORDER BY s.started_at DESC
+  LIMIT 1;
+
+  IF _session.id IS NULL THEN
+    INSERT INTO public.quiz_sessions (quiz_id, user_id, participant_name, expires_at)
+    VALUES (
+      _quiz.id,
+      auth.uid(),
+      _name,
+      CASE
+        WHEN COALESCE(_quiz.duration_minutes, 0) > 0
+          THEN now() + make_interval(mins => _quiz.duration_minutes)
+      END
+    )
+    RETURNING * INTO _session;
+  END IF;
+
+  RETURN QUERY SELECT _session.id, _session.started_at, _session.expires_at, now();
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.start_quiz_session(TEXT, TEXT, UUID) TO anon, authenticated;
@@ -0,0 +1,46 @@
+-- Question types: "single" (one correct option) and "multiple" (select all that apply)
+ALTER TABLE public.questions
+  ADD COLUMN IF NOT EXISTS question_type TEXT NOT NULL DEFAULT 'single',
+  ADD COLUMN IF NOT EXISTS correct_option_indices INTEGER[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.questions
+  ADD CONSTRAINT questions_question_type_check
+  CHECK (question_type IN ('single', 'multiple'));
+
+-- How multiple-select questions earn credit
+ALTER TABLE public.quizzes
+  ADD COLUMN IF NOT EXISTS multi_select_scoring TEXT NOT NULL DEFAULT 'all_or_nothing';
+
+ALTER TABLE public.quizzes
+  ADD CONSTRAINT quizzes_multi_select_scoring_check
+  CHECK (multi_select_scoring IN ('all_or_nothing', 'partial', 'partial_penalty'));
+
+-- Partial credit produces fractional scores
+ALTER TABLE public.quiz_attempts ALTER COLUMN score TYPE NUMERIC;
+ALTER TABLE public.quiz_leaderboard ALTER COLUMN score TYPE NUMERIC;
+
+-- Participants need the question type to render checkboxes
+DROP FUNCTION IF EXISTS public.get_shared_quiz_questions(TEXT);
+
+CREATE FUNCTION public.get_shared_quiz_questions(_share_token TEXT)
+RETURNS TABLE (
+  id UUID,
+  question_text TEXT,
+  question_type TEXT,
+  options TEXT[],
+  order_num INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT q.id, q.question_text, q.question_type, q.options, q.order_num
+  FROM public.questions q
+  JOIN public.quizzes z ON z.id = q.quiz_id
+  WHERE z.share_token = _share_token
+    AND COALESCE(z.sharing_enabled, true)
+  ORDER BY q.order_num
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_shared_quiz_questions(TEXT) TO anon, authenticated;
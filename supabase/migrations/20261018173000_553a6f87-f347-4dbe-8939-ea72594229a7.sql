@@ -0,0 +1,23 @@
+-- True/false, numeric and short-text question types
+ALTER TABLE public.questions DROP CONSTRAINT IF EXISTS questions_question_type_check;
+
+ALTER TABLE public.questions
+  ADD CONSTRAINT questions_question_type_check
+  CHECK (question_type IN ('single', 'multiple', 'true_false', 'numeric', 'short_text'));
+
+-- Numeric: correct value plus an absolute or percentage tolerance
+ALTER TABLE public.questions
+  ADD COLUMN IF NOT EXISTS numeric_answer NUMERIC,
+  ADD COLUMN IF NOT EXISTS numeric_tolerance NUMERIC NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS numeric_tolerance_type TEXT NOT NULL DEFAULT 'absolute'
+    CHECK (numeric_tolerance_type IN ('absolute', 'percent'));
+
+-- Short text: accepted answers, matched exactly, case/whitespace-insensitively or as regex
+ALTER TABLE public.questions
+  ADD COLUMN IF NOT EXISTS accepted_answers TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS text_match_mode TEXT NOT NULL DEFAULT 'normalized'
+    CHECK (text_match_mode IN ('exact', 'normalized', 'regex'));
+
+-- Per-question credit (0..1) as graded at submit time, for history review
+ALTER TABLE public.quiz_attempts
+  ADD COLUMN IF NOT EXISTS question_credits JSONB NOT NULL DEFAULT '{}';
@@ -0,0 +1,5 @@
+-- Optional markdown explanation shown in post-submit review.
+-- Not returned by get_shared_quiz_questions: participants only get it from
+-- submit-attempt, and only when the quiz reveals answers.
+ALTER TABLE public.questions
+  ADD COLUMN IF NOT EXISTS explanation TEXT;
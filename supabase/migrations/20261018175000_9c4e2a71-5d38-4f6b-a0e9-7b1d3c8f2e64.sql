@@ -0,0 +1,89 @@
+-- Per-user question bank: reusable questions tagged by topic and difficulty
+CREATE TABLE public.question_bank (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  question_text TEXT NOT NULL,
+  question_type TEXT NOT NULL DEFAULT 'single'
+    CHECK (question_type IN ('single', 'multiple', 'true_false', 'numeric', 'short_text')),
+  options TEXT[] NOT NULL DEFAULT '{}',
+  correct_option_index INTEGER NOT NULL DEFAULT 0,
+  correct_option_indices INTEGER[] NOT NULL DEFAULT '{}',
+  numeric_answer NUMERIC,
+  numeric_tolerance NUMERIC NOT NULL DEFAULT 0,
+  numeric_tolerance_type TEXT NOT NULL DEFAULT 'absolute'
+    CHECK (numeric_tolerance_type IN ('absolute', 'percent')),
+  accepted_answers TEXT[] NOT NULL DEFAULT '{}',
+  text_match_mode TEXT NOT NULL DEFAULT 'normalized'
+    CHECK (text_match_mode IN ('exact', 'normalized', 'regex')),
+  explanation TEXT,
+  tags TEXT[] NOT NULL DEFAULT '{}',
+  difficulty TEXT CHECK (difficulty IN ('easy', 'medium', 'hard')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX question_bank_user_idx ON public.question_bank (user_id);
+CREATE INDEX question_bank_tags_idx ON public.question_bank USING GIN (tags);
+
+ALTER TABLE public.question_bank ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own bank questions" ON public.question_bank
+  FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create bank questions" ON public.question_bank
+  FOR INSERT WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own bank questions" ON public.question_bank
+  FOR UPDATE USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own bank questions" ON public.question_bank
+  FOR DELETE USING (user_id = auth.uid());
+
+CREATE TRIGGER update_question_bank_updated_at
+  BEFORE UPDATE ON public.question_bank
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Quiz questions inserted "as link" point back at their bank question.
+-- Copies (and questions whose bank entry was deleted) have NULL here.
+ALTER TABLE public.questions
+  ADD COLUMN IF NOT EXISTS bank_question_id UUID
+    REFERENCES public.question_bank(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS questions_bank_question_idx
+  ON public.questions (bank_question_id);
+
+-- Editing a bank question updates every linked quiz question
+-- (only in quizzes owned by the bank question's owner)
+CREATE OR REPLACE FUNCTION public.sync_linked_questions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.questions q
+  SET question_text = NEW.question_text,
+      question_type = NEW.question_type,
+      options = NEW.options,
+      correct_option_index = NEW.correct_option_index,
+      correct_option_indices = NEW.correct_option_indices,
+      numeric_answer = NEW.numeric_answer,
+      numeric_tolerance = NEW.numeric_tolerance,
+      numeric_tolerance_type = NEW.numeric_tolerance_type,
+      accepted_answers = NEW.accepted_answers,
+      text_match_mode = NEW.text_match_mode,
+      explanation = NEW.explanation
+  FROM public.quizzes z
+  WHERE q.bank_question_id = NEW.id
+    AND z.id = q.quiz_id
+    AND z.user_id = NEW.user_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_linked_questions
+  AFTER UPDATE ON public.question_bank
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_linked_questions();
@@ -0,0 +1,191 @@
+-- Random question pools: each participant gets their own drawn subset.
+-- pool_size draws N from the whole quiz; pool_quotas ({"Section": n, ...})
+-- draws n per section instead and takes precedence when set.
+ALTER TABLE public.questions
+  ADD COLUMN IF NOT EXISTS section TEXT;
+
+ALTER TABLE public.quizzes
+  ADD COLUMN IF NOT EXISTS pool_size INTEGER,
+  ADD COLUMN IF NOT EXISTS pool_quotas JSONB NOT NULL DEFAULT '{}';
+
+-- The drawn (and ordered) question set lives on the session and is copied
+-- onto the attempt, so grading and history use exactly what was shown
+ALTER TABLE public.quiz_sessions
+  ADD COLUMN IF NOT EXISTS question_ids UUID[];
+
+ALTER TABLE public.quiz_attempts
+  ADD COLUMN IF NOT EXISTS question_ids UUID[];
+
+CREATE OR REPLACE FUNCTION public.draw_quiz_questions(_quiz_id UUID)
+RETURNS UUID[]
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _quiz RECORD;
+  _quota RECORD;
+  _drawn UUID[] := '{}';
+BEGIN
+  SELECT pool_size, pool_quotas, COALESCE(randomise_questions, false) AS shuffle
+  INTO _quiz
+  FROM public.quizzes
+  WHERE id = _quiz_id;
+
+  IF _quiz.pool_quotas IS NOT NULL AND _quiz.pool_quotas <> '{}'::jsonb THEN
+    FOR _quota IN
+      SELECT key AS section, value::int AS n
+      FROM jsonb_each_text(_quiz.pool_quotas)
+      WHERE value::int > 0
+    LOOP
+      _drawn := _drawn || ARRAY(
+        SELECT q.id FROM public.questions q
+        WHERE q.quiz_id = _quiz_id
+          AND COALESCE(q.section, '') = _quota.section
+        ORDER BY random()
+        LIMIT _quota.n
+      );
+    END LOOP;
+  ELSIF COALESCE(_quiz.pool_size, 0) > 0 THEN
+    _drawn := ARRAY(
+      SELECT q.id FROM public.questions q
+      WHERE q.quiz_id = _quiz_id
+      ORDER BY random()
+      LIMIT _quiz.pool_size
+    );
+  ELSE
+    _drawn := ARRAY(SELECT q.id FROM public.questions q WHERE q.quiz_id = _quiz_id);
+  END IF;
+
+  -- Presentation order: shuffled, or the quiz's own order
+  RETURN ARRAY(
+    SELECT q.id FROM public.questions q
+    WHERE q.id = ANY(_drawn)
+    ORDER BY CASE WHEN _quiz.shuffle THEN random() END, q.order_num
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.draw_quiz_questions(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Sessions now carry their drawn question set
+DROP FUNCTION IF EXISTS public.start_quiz_session(TEXT, TEXT, UUID);
+
+CREATE FUNCTION public.start_quiz_session(
+  _share_token TEXT DEFAULT NULL,
+  _participant_name TEXT DEFAULT NULL,
+  _quiz_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  session_id UUID,
+  started_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  server_now TIMESTAMP WITH TIME ZONE,
+  question_ids UUID[]
+)
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _quiz RECORD;
+  _name TEXT;
+  _session public.quiz_sessions%ROWTYPE;
+BEGIN
+  IF _share_token IS NOT NULL THEN
+    SELECT id, duration_minutes INTO _quiz
+    FROM public.quizzes
+    WHERE share_token = _share_token AND COALESCE(sharing_enabled, true);
+
+    _name := btrim(COALESCE(_participant_name, ''));
+  ELSE
+    SELECT id, duration_minutes INTO _quiz
+    FROM public.quizzes
+    WHERE id = _quiz_id AND user_id = auth.uid();
+
+    _name := 'Creator';
+  END IF;
+
+  IF _quiz.id IS NULL THEN
+    RAISE EXCEPTION 'Quiz not available';
+  END IF;
+
+  IF _name = '' THEN
+    RAISE EXCEPTION 'Participant name is required';
+  END IF;
+
+  SELECT * INTO _session
+  FROM public.quiz_sessions s
+  WHERE s.quiz_id = _quiz.id
+    AND s.participant_name = _name
+    AND s.submitted_at IS NULL
+  ORDER BY s.started_at DESC
+  LIMIT 1;
+
+  IF _session.id IS NULL THEN
+    INSERT INTO public.quiz_sessions (quiz_id, user_id, participant_name, expires_at, question_ids)
+    VALUES (
+      _quiz.id,
+      auth.uid(),
+      _name,
+      CASE
+        WHEN COALESCE(_quiz.duration_minutes, 0) > 0
+          THEN now() + make_interval(mins => _quiz.duration_minutes)
+      END,
+      public.draw_quiz_questions(_quiz.id)
+    )
+    RETURNING * INTO _session;
+  ELSIF _session.question_ids IS NULL THEN
+    -- Sessions opened before pools existed
+    UPDATE public.quiz_sessions s
+    SET question_ids = public.draw_quiz_questions(_quiz.id)
+    WHERE s.id = _session.id
+    RETURNING * INTO _session;
+  END IF;
+
+  RETURN QUERY
+  SELECT _session.id, _session.started_at, _session.expires_at, now(), _session.question_ids;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.start_quiz_session(TEXT, TEXT, UUID) TO anon, authenticated;
+
+-- With a session: exactly that participant's drawn set, in their order.
+-- Without one, pooled quizzes return nothing (the pool is never listed).
+DROP FUNCTION IF EXISTS public.get_shared_quiz_questions(TEXT);
+
+CREATE FUNCTION public.get_shared_quiz_questions(
+  _share_token TEXT,
+  _session_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  question_text TEXT,
+  question_type TEXT,
+  options TEXT[],
+  order_num INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT q.id, q.question_text, q.question_type, q.options, q.order_num
+  FROM public.questions q
+  JOIN public.quizzes z ON z.id = q.quiz_id
+  LEFT JOIN public.quiz_sessions s
+    ON s.id = _session_id AND s.quiz_id = z.id
+  WHERE z.share_token = _share_token
+    AND COALESCE(z.sharing_enabled, true)
+    AND (
+      CASE
+        WHEN s.question_ids IS NOT NULL THEN q.id = ANY(s.question_ids)
+        ELSE COALESCE(z.pool_size, 0) = 0 AND z.pool_quotas = '{}'::jsonb
+      END
+    )
+  ORDER BY array_position(s.question_ids, q.id), q.order_num
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_shared_quiz_questions(TEXT, UUID) TO anon, authenticated;
@@ -0,0 +1,178 @@
+-- Per-participant option shuffling.
+-- option_orders maps question id → original option indices in display
+-- order, e.g. {"<id>": [2, 0, 3, 1]} shows original option C first.
+ALTER TABLE public.quizzes
+  ADD COLUMN IF NOT EXISTS randomise_options BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.quiz_sessions
+  ADD COLUMN IF NOT EXISTS option_orders JSONB;
+
+-- Kept with the attempt; answers on the attempt are already mapped back
+-- to original indices by submit-attempt
+ALTER TABLE public.quiz_attempts
+  ADD COLUMN IF NOT EXISTS option_orders JSONB NOT NULL DEFAULT '{}';
+
+-- True/false keeps its fixed order; numeric/short text have no options
+CREATE OR REPLACE FUNCTION public.draw_option_orders(_quiz_id UUID, _question_ids UUID[])
+RETURNS JSONB
+LANGUAGE sql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    jsonb_object_agg(
+      q.id::text,
+      (
+        SELECT jsonb_agg(i ORDER BY random())
+        FROM generate_series(0, array_length(q.options, 1) - 1) AS i
+      )
+    ),
+    '{}'::jsonb
+  )
+  FROM public.questions q
+  JOIN public.quizzes z ON z.id = q.quiz_id
+  WHERE q.quiz_id = _quiz_id
+    AND q.id = ANY(_question_ids)
+    AND z.randomise_options
+    AND q.question_type IN ('single', 'multiple')
+    AND array_length(q.options, 1) > 1
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.draw_option_orders(UUID, UUID[]) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.start_quiz_session(
+  _share_token TEXT DEFAULT NULL,
+  _participant_name TEXT DEFAULT NULL,
+  _quiz_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  session_id UUID,
+  started_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  server_now TIMESTAMP WITH TIME ZONE,
+  question_ids UUID[]
+)
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _quiz RECORD;
+  _name TEXT;
+  _session public.quiz_sessions%ROWTYPE;
+BEGIN
+  IF _share_token IS NOT NULL THEN
+    SELECT id, duration_minutes INTO _quiz
+    FROM public.quizzes
+    WHERE share_token = _share_token AND COALESCE(sharing_enabled, true);
+
+    _name := btrim(COALESCE(_participant_name, ''));
+  ELSE
+    SELECT id, duration_minutes INTO _quiz
+    FROM public.quizzes
+    WHERE id = _quiz_id AND user_id = auth.uid();
+
+    _name := 'Creator';
+  END IF;
+
+  IF _quiz.id IS NULL THEN
+    RAISE EXCEPTION 'Quiz not available';
+  END IF;
+
+  IF _name = '' THEN
+    RAISE EXCEPTION 'Participant name is required';
+  END IF;
+
+  SELECT * INTO _session
+  FROM public.quiz_sessions s
+  WHERE s.quiz_id = _quiz.id
+    AND s.participant_name = _name
+    AND s.submitted_at IS NULL
+  ORDER BY s.started_at DESC
+  LIMIT 1;
+
+  IF _session.id IS NULL THEN
+    INSERT INTO public.quiz_sessions (quiz_id, user_id, participant_name, expires_at, question_ids)
+    VALUES (
+      _quiz.id,
+      auth.uid(),
+      _name,
+      CASE
+        WHEN COALESCE(_quiz.duration_minutes, 0) > 0
+          THEN now() + make_interval(mins => _quiz.duration_minutes)
+      END,
+      public.draw_quiz_questions(_quiz.id)
+    )
+    RETURNING * INTO _session;
+  ELSIF _session.question_ids IS NULL THEN
+    -- Sessions opened before pools existed
+    UPDATE public.quiz_sessions s
+    SET question_ids = public.draw_quiz_questions(_quiz.id)
+    WHERE s.id = _session.id
+    RETURNING * INTO _session;
+  END IF;
+
+  -- Creator previews keep the authored option order
+  IF _session.option_orders IS NULL THEN
+    UPDATE public.quiz_sessions s
+    SET option_orders = CASE
+      WHEN _share_token IS NOT NULL
+        THEN public.draw_option_orders(_quiz.id, _session.question_ids)
+      ELSE '{}'::jsonb
+    END
+    WHERE s.id = _session.id
+    RETURNING * INTO _session;
+  END IF;
+
+  RETURN QUERY
+  SELECT _session.id, _session.started_at, _session.expires_at, now(), _session.question_ids;
+END;
+$$;
+
+-- Options come back in the participant's display order
+CREATE OR REPLACE FUNCTION public.get_shared_quiz_questions(
+  _share_token TEXT,
+  _session_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  question_text TEXT,
+  question_type TEXT,
+  options TEXT[],
+  order_num INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    q.id,
+    q.question_text,
+    q.question_type,
+    CASE
+      WHEN s.option_orders ? q.id::text THEN ARRAY(
+        SELECT q.options[o.value::int + 1]
+        FROM jsonb_array_elements_text(s.option_orders -> q.id::text)
+          WITH ORDINALITY AS o(value, pos)
+        ORDER BY o.pos
+      )
+      ELSE q.options
+    END,
+    q.order_num
+  FROM public.questions q
+  JOIN public.quizzes z ON z.id = q.quiz_id
+  LEFT JOIN public.quiz_sessions s
+    ON s.id = _session_id AND s.quiz_id = z.id
+  WHERE z.share_token = _share_token
+    AND COALESCE(z.sharing_enabled, true)
+    AND (
+      CASE
+        WHEN s.question_ids IS NOT NULL THEN q.id = ANY(s.question_ids)
+        ELSE COALESCE(z.pool_size, 0) = 0 AND z.pool_quotas = '{}'::jsonb
+      END
+    )
+  ORDER BY array_position(s.question_ids, q.id), q.order_num
+$$;
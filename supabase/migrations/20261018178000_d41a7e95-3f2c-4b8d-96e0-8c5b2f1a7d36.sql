@@ -0,0 +1,108 @@
+-- Atomic quiz save. Questions are upserted by id (so ids referenced by
+-- quiz_attempts.answers stay valid), removed ones are deleted, and it all
+-- happens in one transaction. Pass _quiz_id = NULL to create a new quiz.
+-- Runs as the caller, so the usual quiz/question RLS policies apply.
+CREATE OR REPLACE FUNCTION public.save_quiz(
+  _quiz_id UUID,
+  _title TEXT,
+  _questions JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+VOLATILE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  _id UUID := _quiz_id;
+  _item JSONB;
+  _q public.questions%ROWTYPE;
+  _pos INTEGER := 0;
+  _kept UUID[] := '{}';
+BEGIN
+  IF btrim(COALESCE(_title, '')) = '' THEN
+    RAISE EXCEPTION 'Quiz title is required';
+  END IF;
+
+  IF jsonb_typeof(_questions) IS DISTINCT FROM 'array'
+     OR jsonb_array_length(_questions) = 0 THEN
+    RAISE EXCEPTION 'A quiz needs at least one question';
+  END IF;
+
+  IF _id IS NULL THEN
+    INSERT INTO public.quizzes (title, user_id)
+    VALUES (_title, auth.uid())
+    RETURNING id INTO _id;
+  ELSE
+    UPDATE public.quizzes SET title = _title
+    WHERE id = _id AND user_id = auth.uid();
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Quiz not found';
+    END IF;
+  END IF;
+
+  FOR _item IN SELECT value FROM jsonb_array_elements(_questions) LOOP
+    _q := jsonb_populate_record(NULL::public.questions, _item);
+
+    IF _q.id IS NOT NULL AND EXISTS (
+      SELECT 1 FROM public.questions WHERE id = _q.id AND quiz_id = _id
+    ) THEN
+      UPDATE public.questions SET
+        question_text = _q.question_text,
+        question_type = COALESCE(_q.question_type, 'single'),
+        options = COALESCE(_q.options, '{}'),
+        correct_option_index = COALESCE(_q.correct_option_index, 0),
+        correct_option_indices = COALESCE(_q.correct_option_indices, '{}'),
+        numeric_answer = _q.numeric_answer,
+        numeric_tolerance = COALESCE(_q.numeric_tolerance, 0),
+        numeric_tolerance_type = COALESCE(_q.numeric_tolerance_type, 'absolute'),
+        accepted_answers = COALESCE(_q.accepted_answers, '{}'),
+        text_match_mode = COALESCE(_q.text_match_mode, 'normalized'),
+        explanation = _q.explanation,
+        bank_question_id = _q.bank_question_id,
+        section = _q.section,
+        order_num = _pos
+      WHERE id = _q.id;
+    ELSE
+      -- New question (or an id from another quiz, which is never reused)
+      INSERT INTO public.questions (
+        quiz_id, question_text, question_type, options,
+        correct_option_index, correct_option_indices,
+        numeric_answer, numeric_tolerance, numeric_tolerance_type,
+        accepted_answers, text_match_mode, explanation,
+        bank_question_id, section, order_num
+      )
+      VALUES (
+        _id,
+        _q.question_text,
+        COALESCE(_q.question_type, 'single'),
+        COALESCE(_q.options, '{}'),
+        COALESCE(_q.correct_option_index, 0),
+        COALESCE(_q.correct_option_indices, '{}'),
+        _q.numeric_answer,
+        COALESCE(_q.numeric_tolerance, 0),
+        COALESCE(_q.numeric_tolerance_type, 'absolute'),
+        COALESCE(_q.accepted_answers, '{}'),
+        COALESCE(_q.text_match_mode, 'normalized'),
+        _q.explanation,
+        _q.bank_question_id,
+        _q.section,
+        _pos
+      )
+      RETURNING id INTO _q.id;
+    END IF;
+
+    _kept := _kept || _q.id;
+    _pos := _pos + 1;
+  END LOOP;
+
+  DELETE FROM public.questions
+  WHERE quiz_id = _id AND NOT (id = ANY(_kept));
+
+  RETURN _id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.save_quiz(UUID, TEXT, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.save_quiz(UUID, TEXT, JSONB) TO authenticated;
@@ -0,0 +1,234 @@
+-- Immutable quiz versions. Every save that changes the quiz publishes a new
+-- snapshot (title + full question rows incl. answer keys); attempts record
+-- the version they were graded against so history renders what was taken.
+CREATE TABLE public.quiz_versions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  quiz_id UUID NOT NULL REFERENCES public.quizzes(id) ON DELETE CASCADE,
+  version_number INTEGER NOT NULL,
+  title TEXT NOT NULL,
+  questions JSONB NOT NULL DEFAULT '[]',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (quiz_id, version_number)
+);
+
+-- Read-only for owners; rows are only written by snapshot_quiz_version()
+ALTER TABLE public.quiz_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can view quiz versions" ON public.quiz_versions
+  FOR SELECT USING (public.is_quiz_owner(quiz_id));
+
+ALTER TABLE public.quiz_attempts
+  ADD COLUMN IF NOT EXISTS version_id UUID REFERENCES public.quiz_versions(id) ON DELETE SET NULL;
+
+CREATE OR REPLACE FUNCTION public.quiz_snapshot(_quiz_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    jsonb_agg(to_jsonb(q) - 'quiz_id' - 'created_at' ORDER BY q.order_num),
+    '[]'::jsonb
+  )
+  FROM public.questions q
+  WHERE q.quiz_id = _quiz_id
+$$;
+
+-- Publishes a new version when the quiz differs from its latest one;
+-- returns the latest version id either way
+CREATE OR REPLACE FUNCTION public.snapshot_quiz_version(_quiz_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _title TEXT;
+  _questions JSONB;
+  _latest public.quiz_versions%ROWTYPE;
+  _id UUID;
+BEGIN
+  SELECT title INTO _title
+  FROM public.quizzes
+  WHERE id = _quiz_id AND user_id = auth.uid();
+
+  IF _title IS NULL THEN
+    RAISE EXCEPTION 'Quiz not found';
+  END IF;
+
+  _questions := public.quiz_snapshot(_quiz_id);
+
+  SELECT * INTO _latest
+  FROM public.quiz_versions
+  WHERE quiz_id = _quiz_id
+  ORDER BY version_number DESC
+  LIMIT 1;
+
+  IF _latest.id IS NOT NULL
+     AND _latest.title = _title
+     AND _latest.questions = _questions THEN
+    RETURN _latest.id;
+  END IF;
+
+  INSERT INTO public.quiz_versions (quiz_id, version_number, title, questions)
+  VALUES (_quiz_id, COALESCE(_latest.version_number, 0) + 1, _title, _questions)
+  RETURNING id INTO _id;
+
+  RETURN _id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.quiz_snapshot(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.snapshot_quiz_version(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.snapshot_quiz_version(UUID) TO authenticated;
+
+-- Existing quizzes start at version 1 (older attempts stay unversioned)
+INSERT INTO public.quiz_versions (quiz_id, version_number, title, questions)
+SELECT z.id, 1, z.title, public.quiz_snapshot(z.id)
+FROM public.quizzes z;
+
+-- Linked bank edits change questions outside save_quiz, so they publish too
+CREATE OR REPLACE FUNCTION public.sync_linked_questions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _quiz_id UUID;
+BEGIN
+  UPDATE public.questions q
+  SET question_text = NEW.question_text,
+      question_type = NEW.question_type,
+      options = NEW.options,
+      correct_option_index = NEW.correct_option_index,
+      correct_option_indices = NEW.correct_option_indices,
+      numeric_answer = NEW.numeric_answer,
+      numeric_tolerance = NEW.numeric_tolerance,
+      numeric_tolerance_type = NEW.numeric_tolerance_type,
+      accepted_answers = NEW.accepted_answers,
+      text_match_mode = NEW.text_match_mode,
+      explanation = NEW.explanation
+  FROM public.quizzes z
+  WHERE q.bank_question_id = NEW.id
+    AND z.id = q.quiz_id
+    AND z.user_id = NEW.user_id;
+
+  FOR _quiz_id IN
+    SELECT DISTINCT q.quiz_id FROM public.questions q
+    JOIN public.quizzes z ON z.id = q.quiz_id
+    WHERE q.bank_question_id = NEW.id AND z.user_id = NEW.user_id
+  LOOP
+    PERFORM public.snapshot_quiz_version(_quiz_id);
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Saving publishes a version in the same transaction
+CREATE OR REPLACE FUNCTION public.save_quiz(
+  _quiz_id UUID,
+  _title TEXT,
+  _questions JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+VOLATILE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  _id UUID := _quiz_id;
+  _item JSONB;
+  _q public.questions%ROWTYPE;
+  _pos INTEGER := 0;
+  _kept UUID[] := '{}';
+BEGIN
+  IF btrim(COALESCE(_title, '')) = '' THEN
+    RAISE EXCEPTION 'Quiz title is required';
+  END IF;
+
+  IF jsonb_typeof(_questions) IS DISTINCT FROM 'array'
+     OR jsonb_array_length(_questions) = 0 THEN
+    RAISE EXCEPTION 'A quiz needs at least one question';
+  END IF;
+
+  IF _id IS NULL THEN
+    INSERT INTO public.quizzes (title, user_id)
+    VALUES (_title, auth.uid())
+    RETURNING id INTO _id;
+  ELSE
+    UPDATE public.quizzes SET title = _title
+    WHERE id = _id AND user_id = auth.uid();
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Quiz not found';
+    END IF;
+  END IF;
+
+  FOR _item IN SELECT value FROM jsonb_array_elements(_questions) LOOP
+    _q := jsonb_populate_record(NULL::public.questions, _item);
+
+    IF _q.id IS NOT NULL AND EXISTS (
+      SELECT 1 FROM public.questions WHERE id = _q.id AND quiz_id = _id
+    ) THEN
+      UPDATE public.questions SET
+        question_text = _q.question_text,
+        question_type = COALESCE(_q.question_type, 'single'),
+        options = COALESCE(_q.options, '{}'),
+        correct_option_index = COALESCE(_q.correct_option_index, 0),
+        correct_option_indices = COALESCE(_q.correct_option_indices, '{}'),
+        numeric_answer = _q.numeric_answer,
+        numeric_tolerance = COALESCE(_q.numeric_tolerance, 0),
+        numeric_tolerance_type = COALESCE(_q.numeric_tolerance_type, 'absolute'),
+        accepted_answers = COALESCE(_q.accepted_answers, '{}'),
+        text_match_mode = COALESCE(_q.text_match_mode, 'normalized'),
+        explanation = _q.explanation,
+        bank_question_id = _q.bank_question_id,
+        section = _q.section,
+        order_num = _pos
+      WHERE id = _q.id;
+    ELSE
+      -- New question (or an id from another quiz, which is never reused)
+      INSERT INTO public.questions (
+        quiz_id, question_text, question_type, options,
+        correct_option_index, correct_option_indices,
+        numeric_answer, numeric_tolerance, numeric_tolerance_type,
+        accepted_answers, text_match_mode, explanation,
+        bank_question_id, section, order_num
+      )
+      VALUES (
+        _id,
+        _q.question_text,
+        COALESCE(_q.question_type, 'single'),
+        COALESCE(_q.options, '{}'),
+        COALESCE(_q.correct_option_index, 0),
+        COALESCE(_q.correct_option_indices, '{}'),
+        _q.numeric_answer,
+        COALESCE(_q.numeric_tolerance, 0),
+        COALESCE(_q.numeric_tolerance_type, 'absolute'),
+        COALESCE(_q.accepted_answers, '{}'),
+        COALESCE(_q.text_match_mode, 'normalized'),
+        _q.explanation,
+        _q.bank_question_id,
+        _q.section,
+        _pos
+      )
+      RETURNING id INTO _q.id;
+    END IF;
+
+    _kept := _kept || _q.id;
+    _pos := _pos + 1;
+  END LOOP;
+
+  DELETE FROM public.questions
+  WHERE quiz_id = _id AND NOT (id = ANY(_kept));
+
+  PERFORM public.snapshot_quiz_version(_id);
+
+  RETURN _id;
+END;
+$$;
@@ -0,0 +1,230 @@
+-- Draft / scheduled / open / closed lifecycle.
+-- Only `status` (draft | published) is stored; scheduled, open and closed
+-- follow from opens_at / closes_at, so nothing has to flip at the boundary.
+-- Existing quizzes were already live, so they start out published;
+-- new quizzes start as drafts.
+ALTER TABLE public.quizzes
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'published'
+    CHECK (status IN ('draft', 'published')),
+  ADD COLUMN IF NOT EXISTS opens_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS closes_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.quizzes ALTER COLUMN status SET DEFAULT 'draft';
+
+CREATE OR REPLACE FUNCTION public.quiz_state(
+  _status TEXT,
+  _opens_at TIMESTAMP WITH TIME ZONE,
+  _closes_at TIMESTAMP WITH TIME ZONE
+)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE
+    WHEN _status = 'draft' THEN 'draft'
+    WHEN _closes_at IS NOT NULL AND now() >= _closes_at THEN 'closed'
+    WHEN _opens_at IS NOT NULL AND now() < _opens_at THEN 'scheduled'
+    ELSE 'open'
+  END
+$$;
+
+-- What the share page needs before anything else (server clock included,
+-- so the opening countdown is not thrown off by a wrong device clock)
+CREATE OR REPLACE FUNCTION public.get_quiz_availability(_share_token TEXT)
+RETURNS TABLE (
+  state TEXT,
+  opens_at TIMESTAMP WITH TIME ZONE,
+  closes_at TIMESTAMP WITH TIME ZONE,
+  server_now TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.quiz_state(z.status, z.opens_at, z.closes_at), z.opens_at, z.closes_at, now()
+  FROM public.quizzes z
+  WHERE z.share_token = _share_token
+    AND COALESCE(z.sharing_enabled, true)
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_quiz_availability(TEXT) TO anon, authenticated;
+
+-- Moving the closing time earlier (e.g. "Close now") pulls in the deadline
+-- of every participant session still in progress, so their clients
+-- auto-submit when it passes
+CREATE OR REPLACE FUNCTION public.cap_sessions_at_close()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.closes_at IS NOT NULL
+     AND NEW.closes_at IS DISTINCT FROM OLD.closes_at THEN
+    UPDATE public.quiz_sessions s
+    SET expires_at = LEAST(COALESCE(s.expires_at, NEW.closes_at), NEW.closes_at)
+    WHERE s.quiz_id = NEW.id
+      AND s.submitted_at IS NULL
+      AND s.user_id IS DISTINCT FROM NEW.user_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER cap_sessions_at_close
+  AFTER UPDATE OF closes_at ON public.quizzes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.cap_sessions_at_close();
+
+-- New sessions need an open quiz and end no later than closes_at
+CREATE OR REPLACE FUNCTION public.start_quiz_session(
+  _share_token TEXT DEFAULT NULL,
+  _participant_name TEXT DEFAULT NULL,
+  _quiz_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  session_id UUID,
+  started_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  server_now TIMESTAMP WITH TIME ZONE,
+  question_ids UUID[]
+)
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _quiz RECORD;
+  _name TEXT;
+  _session public.quiz_sessions%ROWTYPE;
+BEGIN
+  IF _share_token IS NOT NULL THEN
+    SELECT id, duration_minutes, closes_at,
+           public.quiz_state(status, opens_at, closes_at) AS state
+    INTO _quiz
+    FROM public.quizzes
+    WHERE share_token = _share_token AND COALESCE(sharing_enabled, true);
+
+    _name := btrim(COALESCE(_participant_name, ''));
+  ELSE
+    -- Creators can preview in any state, with no close cap
+    SELECT id, duration_minutes, NULL::timestamptz AS closes_at, 'open' AS state
+    INTO _quiz
+    FROM public.quizzes
+    WHERE id = _quiz_id AND user_id = auth.uid();
+
+    _name := 'Creator';
+  END IF;
+
+  IF _quiz.id IS NULL THEN
+    RAISE EXCEPTION 'Quiz not available';
+  END IF;
+
+  IF _name = '' THEN
+    RAISE EXCEPTION 'Participant name is required';
+  END IF;
+
+  SELECT * INTO _session
+  FROM public.quiz_sessions s
+  WHERE s.quiz_id = _quiz.id
+    AND s.participant_name = _name
+    AND s.submitted_at IS NULL
+  ORDER BY s.started_at DESC
+  LIMIT 1;
+
+  -- Only open quizzes start new sessions (in-progress ones may resume)
+  IF _session.id IS NULL AND _quiz.state <> 'open' THEN
+    RAISE EXCEPTION 'Quiz is not open';
+  END IF;
+
+  IF _session.id IS NULL THEN
+    INSERT INTO public.quiz_sessions (quiz_id, user_id, participant_name, expires_at, question_ids)
+    VALUES (
+      _quiz.id,
+      auth.uid(),
+      _name,
+      -- The time limit never runs past the closing time
+      CASE
+        WHEN COALESCE(_quiz.duration_minutes, 0) > 0 AND _quiz.closes_at IS NOT NULL
+          THEN LEAST(now() + make_interval(mins => _quiz.duration_minutes), _quiz.closes_at)
+        WHEN COALESCE(_quiz.duration_minutes, 0) > 0
+          THEN now() + make_interval(mins => _quiz.duration_minutes)
+        ELSE _quiz.closes_at
+      END,
+      public.draw_quiz_questions(_quiz.id)
+    )
+    RETURNING * INTO _session;
+  ELSIF _session.question_ids IS NULL THEN
+    -- Sessions opened before pools existed
+    UPDATE public.quiz_sessions s
+    SET question_ids = public.draw_quiz_questions(_quiz.id)
+    WHERE s.id = _session.id
+    RETURNING * INTO _session;
+  END IF;
+
+  -- Creator previews keep the authored option order
+  IF _session.option_orders IS NULL THEN
+    UPDATE public.quiz_sessions s
+    SET option_orders = CASE
+      WHEN _share_token IS NOT NULL
+        THEN public.draw_option_orders(_quiz.id, _session.question_ids)
+      ELSE '{}'::jsonb
+    END
+    WHERE s.id = _session.id
+    RETURNING * INTO _session;
+  END IF;
+
+  RETURN QUERY
+  SELECT _session.id, _session.started_at, _session.expires_at, now(), _session.question_ids;
+END;
+$$;
+
+-- Questions are only served while open, or to a session already in progress
+CREATE OR REPLACE FUNCTION public.get_shared_quiz_questions(
+  _share_token TEXT,
+  _session_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  question_text TEXT,
+  question_type TEXT,
+  options TEXT[],
+  order_num INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    q.id,
+    q.question_text,
+    q.question_type,
+    CASE
+      WHEN s.option_orders ? q.id::text THEN ARRAY(
+        SELECT q.options[o.value::int + 1]
+        FROM jsonb_array_elements_text(s.option_orders -> q.id::text)
+          WITH ORDINALITY AS o(value, pos)
+        ORDER BY o.pos
+      )
+      ELSE q.options
+    END,
+    q.order_num
+  FROM public.questions q
+  JOIN public.quizzes z ON z.id = q.quiz_id
+  LEFT JOIN public.quiz_sessions s
+    ON s.id = _session_id AND s.quiz_id = z.id
+  WHERE z.share_token = _share_token
+    AND COALESCE(z.sharing_enabled, true)
+    AND (public.quiz_state(z.status, z.opens_at, z.closes_at) = 'open' OR s.id IS NOT NULL)
+    AND (
+      CASE
+        WHEN s.question_ids IS NOT NULL THEN q.id = ANY(s.question_ids)
+        ELSE COALESCE(z.pool_size, 0) = 0 AND z.pool_quotas = '{}'::jsonb
+      END
+    )
+  ORDER BY array_position(s.question_ids, q.id), q.order_num
+$$;
@@ -0,0 +1,4 @@
+-- Seconds spent on each question (question id → seconds), measured in the
+-- browser while that question was the one in view
+ALTER TABLE public.quiz_attempts
+  ADD COLUMN IF NOT EXISTS question_times JSONB NOT NULL DEFAULT '{}'::jsonb;
@@ -0,0 +1,4 @@
+-- Timestamped proctoring events recorded during the attempt
+-- ([{ "type": "tab_hidden", "at": "<iso timestamp>" }, ...])
+ALTER TABLE public.quiz_attempts
+  ADD COLUMN IF NOT EXISTS proctor_events JSONB NOT NULL DEFAULT '[]'::jsonb;
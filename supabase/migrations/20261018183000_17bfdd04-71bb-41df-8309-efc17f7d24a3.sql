@@ -0,0 +1,3 @@
+-- Fullscreen exam mode: exits count toward tab_switch_warnings
+ALTER TABLE public.quizzes
+  ADD COLUMN IF NOT EXISTS require_fullscreen BOOLEAN NOT NULL DEFAULT false;
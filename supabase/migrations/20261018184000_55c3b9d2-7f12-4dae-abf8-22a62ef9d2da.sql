@@ -0,0 +1,398 @@
+-- Class rosters: named lists of students (ID + name) owned by a teacher
+CREATE TABLE public.rosters (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX rosters_user_idx ON public.rosters (user_id);
+
+ALTER TABLE public.rosters ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own rosters" ON public.rosters
+  FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create rosters" ON public.rosters
+  FOR INSERT WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own rosters" ON public.rosters
+  FOR UPDATE USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own rosters" ON public.rosters
+  FOR DELETE USING (user_id = auth.uid());
+
+CREATE TABLE public.roster_members (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  roster_id UUID NOT NULL REFERENCES public.rosters(id) ON DELETE CASCADE,
+  student_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- IDs are matched case-insensitively
+CREATE UNIQUE INDEX roster_members_roster_student_idx
+  ON public.roster_members (roster_id, lower(student_id));
+
+ALTER TABLE public.roster_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage members of own rosters" ON public.roster_members
+  FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM public.rosters r WHERE r.id = roster_id AND r.user_id = auth.uid()
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.rosters r WHERE r.id = roster_id AND r.user_id = auth.uid()
+  ));
+
+-- How participants identify themselves:
+--   name        free-text name (the original behaviour)
+--   name_field  name + a required custom field (roll number, email, ...)
+--   roster      an ID that must be on the quiz's roster
+--   account     a signed-in account
+ALTER TABLE public.quizzes
+  ADD COLUMN IF NOT EXISTS identity_mode TEXT NOT NULL DEFAULT 'name'
+    CHECK (identity_mode IN ('name', 'name_field', 'roster', 'account')),
+  ADD COLUMN IF NOT EXISTS identity_field_label TEXT,
+  ADD COLUMN IF NOT EXISTS roster_id UUID REFERENCES public.rosters(id) ON DELETE SET NULL;
+
+-- participant_key is the resolved identity that sessions, retry limits
+-- and the leaderboard are keyed on; participant_identity is the
+-- human-readable ID (roll number / roster ID / email) shown to creators
+ALTER TABLE public.quiz_sessions
+  ADD COLUMN IF NOT EXISTS participant_key TEXT,
+  ADD COLUMN IF NOT EXISTS participant_identity TEXT;
+
+ALTER TABLE public.quiz_attempts
+  ADD COLUMN IF NOT EXISTS participant_key TEXT,
+  ADD COLUMN IF NOT EXISTS participant_identity TEXT;
+
+ALTER TABLE public.quiz_leaderboard
+  ADD COLUMN IF NOT EXISTS participant_key TEXT;
+
+-- Existing rows were free-name participants (or the creator)
+CREATE OR REPLACE FUNCTION public.name_participant_key(_name TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT 'name:' || lower(regexp_replace(btrim(COALESCE(_name, '')), '\s+', ' ', 'g'))
+$$;
+
+UPDATE public.quiz_sessions
+SET participant_key = CASE
+  WHEN participant_name = 'Creator' AND user_id IS NOT NULL THEN 'user:' || user_id
+  ELSE public.name_participant_key(participant_name)
+END
+WHERE participant_key IS NULL;
+
+UPDATE public.quiz_attempts
+SET participant_key = CASE
+  WHEN participant_name = 'Creator' AND user_id IS NOT NULL THEN 'user:' || user_id
+  ELSE public.name_participant_key(participant_name)
+END
+WHERE participant_key IS NULL;
+
+UPDATE public.quiz_leaderboard
+SET participant_key = public.name_participant_key(participant_name)
+WHERE participant_key IS NULL;
+
+-- "Rahul" and "rahul " were separate rows before; keep the best one
+DELETE FROM public.quiz_leaderboard l
+USING public.quiz_leaderboard better
+WHERE better.quiz_id = l.quiz_id
+  AND better.participant_key = l.participant_key
+  AND better.id <> l.id
+  AND (better.score > l.score OR (better.score = l.score AND better.id < l.id));
+
+ALTER TABLE public.quiz_sessions ALTER COLUMN participant_key SET NOT NULL;
+ALTER TABLE public.quiz_attempts ALTER COLUMN participant_key SET NOT NULL;
+ALTER TABLE public.quiz_leaderboard ALTER COLUMN participant_key SET NOT NULL;
+
+-- Two participants with the same display name are now different rows
+DO $$
+DECLARE
+  _index RECORD;
+BEGIN
+  FOR _index IN
+    SELECT i.indexrelid::regclass AS index_name, c.conname
+    FROM pg_index i
+    LEFT JOIN pg_constraint c ON c.conindid = i.indexrelid
+    WHERE i.indrelid = 'public.quiz_leaderboard'::regclass
+      AND i.indisunique
+      AND NOT i.indisprimary
+      AND (
+        SELECT array_agg(a.attname::text ORDER BY a.attname)
+        FROM pg_attribute a
+        WHERE a.attrelid = i.indrelid AND a.attnum = ANY(i.indkey)
+      ) = ARRAY['participant_name', 'quiz_id']
+  LOOP
+    IF _index.conname IS NOT NULL THEN
+      EXECUTE format('ALTER TABLE public.quiz_leaderboard DROP CONSTRAINT %I', _index.conname);
+    ELSE
+      EXECUTE format('DROP INDEX %s', _index.index_name);
+    END IF;
+  END LOOP;
+END;
+$$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS quiz_leaderboard_quiz_participant_key_idx
+  ON public.quiz_leaderboard (quiz_id, participant_key);
+
+CREATE INDEX IF NOT EXISTS quiz_sessions_quiz_participant_key_idx
+  ON public.quiz_sessions (quiz_id, participant_key);
+
+CREATE INDEX IF NOT EXISTS quiz_attempts_quiz_participant_key_idx
+  ON public.quiz_attempts (quiz_id, participant_key);
+
+-- Turns what the participant typed into their identity for this quiz
+-- (raises with a message the share page can show as-is)
+CREATE OR REPLACE FUNCTION public.resolve_participant(
+  _quiz_id UUID,
+  _name TEXT,
+  _identity_value TEXT
+)
+RETURNS TABLE (
+  display_name TEXT,
+  participant_key TEXT,
+  participant_identity TEXT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _quiz RECORD;
+  _member RECORD;
+  _email TEXT;
+  _clean_name TEXT := regexp_replace(btrim(COALESCE(_name, '')), '\s+', ' ', 'g');
+  _value TEXT := btrim(COALESCE(_identity_value, ''));
+BEGIN
+  SELECT identity_mode, identity_field_label, roster_id INTO _quiz
+  FROM public.quizzes
+  WHERE id = _quiz_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz not available';
+  END IF;
+
+  IF _quiz.identity_mode = 'roster' THEN
+    SELECT m.student_id, m.name INTO _member
+    FROM public.roster_members m
+    WHERE m.roster_id = _quiz.roster_id
+      AND lower(m.student_id) = lower(_value);
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'This ID is not on the class roster';
+    END IF;
+
+    RETURN QUERY
+    SELECT _member.name, 'roster:' || lower(_member.student_id), _member.student_id;
+    RETURN;
+  END IF;
+
+  IF _quiz.identity_mode = 'account' THEN
+    IF auth.uid() IS NULL THEN
+      RAISE EXCEPTION 'Sign in to take this quiz';
+    END IF;
+
+    SELECT u.email INTO _email FROM auth.users u WHERE u.id = auth.uid();
+
+    RETURN QUERY
+    SELECT COALESCE(NULLIF(_clean_name, ''), _email), 'user:' || auth.uid()::text, _email;
+    RETURN;
+  END IF;
+
+  IF _clean_name = '' THEN
+    RAISE EXCEPTION 'Participant name is required';
+  END IF;
+
+  IF _quiz.identity_mode = 'name_field' THEN
+    IF _value = '' THEN
+      RAISE EXCEPTION '% is required', COALESCE(NULLIF(_quiz.identity_field_label, ''), 'ID');
+    END IF;
+
+    RETURN QUERY SELECT _clean_name, 'field:' || lower(_value), _value;
+    RETURN;
+  END IF;
+
+  RETURN QUERY SELECT _clean_name, public.name_participant_key(_clean_name), NULL::TEXT;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.resolve_participant(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Sessions are resumed, and retry limits enforced, by resolved identity
+DROP FUNCTION IF EXISTS public.start_quiz_session(TEXT, TEXT, UUID);
+
+CREATE FUNCTION public.start_quiz_session(
+  _share_token TEXT DEFAULT NULL,
+  _participant_name TEXT DEFAULT NULL,
+  _quiz_id UUID DEFAULT NULL,
+  _identity_value TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  session_id UUID,
+  started_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  server_now TIMESTAMP WITH TIME ZONE,
+  question_ids UUID[],
+  participant_name TEXT,
+  participant_identity TEXT
+)
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _quiz RECORD;
+  _who RECORD;
+  _attempts INTEGER;
+  _session public.quiz_sessions%ROWTYPE;
+BEGIN
+  IF _share_token IS NOT NULL THEN
+    SELECT id, duration_minutes, closes_at, max_retries,
+           public.quiz_state(status, opens_at, closes_at) AS state
+    INTO _quiz
+    FROM public.quizzes
+    WHERE share_token = _share_token AND COALESCE(sharing_enabled, true);
+  ELSE
+    -- Creators can preview in any state, with no close cap
+    SELECT id, duration_minutes, NULL::timestamptz AS closes_at, 0 AS max_retries, 'open' AS state
+    INTO _quiz
+    FROM public.quizzes
+    WHERE id = _quiz_id AND user_id = auth.uid();
+  END IF;
+
+  IF _quiz.id IS NULL THEN
+    RAISE EXCEPTION 'Quiz not available';
+  END IF;
+
+  IF _share_token IS NOT NULL THEN
+    SELECT * INTO _who
+    FROM public.resolve_participant(_quiz.id, _participant_name, _identity_value);
+  ELSE
+    SELECT 'Creator' AS display_name,
+           'user:' || auth.uid()::text AS participant_key,
+           NULL::TEXT AS participant_identity
+    INTO _who;
+  END IF;
+
+  SELECT * INTO _session
+  FROM public.quiz_sessions s
+  WHERE s.quiz_id = _quiz.id
+    AND s.participant_key = _who.participant_key
+    AND s.submitted_at IS NULL
+  ORDER BY s.started_at DESC
+  LIMIT 1;
+
+  -- Only open quizzes start new sessions (in-progress ones may resume)
+  IF _session.id IS NULL AND _quiz.state <> 'open' THEN
+    RAISE EXCEPTION 'Quiz is not open';
+  END IF;
+
+  -- Same rule as submit-attempt: retries off means one attempt
+  IF _session.id IS NULL AND _share_token IS NOT NULL THEN
+    SELECT count(*) INTO _attempts
+    FROM public.quiz_attempts a
+    WHERE a.quiz_id = _quiz.id AND a.participant_key = _who.participant_key;
+
+    IF _attempts >= GREATEST(COALESCE(_quiz.max_retries, 0), 1) THEN
+      RAISE EXCEPTION 'Maximum retries reached';
+    END IF;
+  END IF;
+
+  IF _session.id IS NULL THEN
+    INSERT INTO public.quiz_sessions (
+      quiz_id, user_id, participant_name, participant_key, participant_identity,
+      expires_at, question_ids
+    )
+    VALUES (
+      _quiz.id,
+      auth.uid(),
+      _who.display_name,
+      _who.participant_key,
+      _who.participant_identity,
+      -- The time limit never runs past the closing time
+      CASE
+        WHEN COALESCE(_quiz.duration_minutes, 0) > 0 AND _quiz.closes_at IS NOT NULL
+          THEN LEAST(now() + make_interval(mins => _quiz.duration_minutes), _quiz.closes_at)
+        WHEN COALESCE(_quiz.duration_minutes, 0) > 0
+          THEN now() + make_interval(mins => _quiz.duration_minutes)
+        ELSE _quiz.closes_at
+      END,
+      public.draw_quiz_questions(_quiz.id)
+    )
+    RETURNING * INTO _session;
+  ELSIF _session.question_ids IS NULL THEN
+    -- Sessions opened before pools existed
+    UPDATE public.quiz_sessions s
+    SET question_ids = public.draw_quiz_questions(_quiz.id)
+    WHERE s.id = _session.id
+    RETURNING * INTO _session;
+  END IF;
+
+  -- Creator previews keep the authored option order
+  IF _session.option_orders IS NULL THEN
+    UPDATE public.quiz_sessions s
+    SET option_orders = CASE
+      WHEN _share_token IS NOT NULL
+        THEN public.draw_option_orders(_quiz.id, _session.question_ids)
+      ELSE '{}'::jsonb
+    END
+    WHERE s.id = _session.id
+    RETURNING * INTO _session;
+  END IF;
+
+  RETURN QUERY
+  SELECT _session.id, _session.started_at, _session.expires_at, now(),
+         _session.question_ids, _session.participant_name, _session.participant_identity;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.start_quiz_session(TEXT, TEXT, UUID, TEXT) TO anon, authenticated;
+
+-- Attempts used so far by whoever the share page is about to start as
+-- (0 while the entered identity is incomplete or invalid)
+CREATE OR REPLACE FUNCTION public.count_participant_attempts(
+  _share_token TEXT,
+  _participant_name TEXT,
+  _identity_value TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _quiz_id UUID;
+  _key TEXT;
+  _count INTEGER;
+BEGIN
+  SELECT id INTO _quiz_id
+  FROM public.quizzes
+  WHERE share_token = _share_token AND COALESCE(sharing_enabled, true);
+
+  IF _quiz_id IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  BEGIN
+    SELECT r.participant_key INTO _key
+    FROM public.resolve_participant(_quiz_id, _participant_name, _identity_value) r;
+  EXCEPTION WHEN OTHERS THEN
+    RETURN 0;
+  END;
+
+  SELECT count(*) INTO _count
+  FROM public.quiz_attempts a
+  WHERE a.quiz_id = _quiz_id AND a.participant_key = _key;
+
+  RETURN _count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.count_participant_attempts(TEXT, TEXT, TEXT) TO anon, authenticated;
@@ -0,0 +1,387 @@
+-- Named groups (class sections) inside a roster
+CREATE TABLE public.roster_groups (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  roster_id UUID NOT NULL REFERENCES public.rosters(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX roster_groups_roster_name_idx
+  ON public.roster_groups (roster_id, lower(name));
+
+ALTER TABLE public.roster_groups ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage groups of own rosters" ON public.roster_groups
+  FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM public.rosters r WHERE r.id = roster_id AND r.user_id = auth.uid()
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.rosters r WHERE r.id = roster_id AND r.user_id = auth.uid()
+  ));
+
+ALTER TABLE public.roster_members
+  ADD COLUMN IF NOT EXISTS group_id UUID REFERENCES public.roster_groups(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS roster_members_group_idx ON public.roster_members (group_id);
+
+-- A quiz assigned to a group, with that group's own window and retry
+-- limit. Both narrow the quiz's settings: the group window sits inside
+-- the quiz window, and a NULL retry limit means "same as the quiz".
+CREATE TABLE public.quiz_group_assignments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  quiz_id UUID NOT NULL REFERENCES public.quizzes(id) ON DELETE CASCADE,
+  group_id UUID NOT NULL REFERENCES public.roster_groups(id) ON DELETE CASCADE,
+  opens_at TIMESTAMP WITH TIME ZONE,
+  closes_at TIMESTAMP WITH TIME ZONE,
+  max_retries INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (quiz_id, group_id),
+  CHECK (closes_at IS NULL OR opens_at IS NULL OR closes_at > opens_at)
+);
+
+ALTER TABLE public.quiz_group_assignments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can manage quiz assignments" ON public.quiz_group_assignments
+  FOR ALL
+  USING (public.is_quiz_owner(quiz_id))
+  WITH CHECK (public.is_quiz_owner(quiz_id));
+
+-- Group at the time of the attempt (filters history and the leaderboard)
+ALTER TABLE public.quiz_sessions
+  ADD COLUMN IF NOT EXISTS group_id UUID REFERENCES public.roster_groups(id) ON DELETE SET NULL;
+
+ALTER TABLE public.quiz_attempts
+  ADD COLUMN IF NOT EXISTS group_id UUID REFERENCES public.roster_groups(id) ON DELETE SET NULL;
+
+ALTER TABLE public.quiz_leaderboard
+  ADD COLUMN IF NOT EXISTS group_id UUID REFERENCES public.roster_groups(id) ON DELETE SET NULL;
+
+-- Roster participants now also resolve to their group, and can be
+-- picked from the roster (member id) instead of typing their student ID
+DROP FUNCTION IF EXISTS public.resolve_participant(UUID, TEXT, TEXT);
+
+CREATE FUNCTION public.resolve_participant(
+  _quiz_id UUID,
+  _name TEXT,
+  _identity_value TEXT
+)
+RETURNS TABLE (
+  display_name TEXT,
+  participant_key TEXT,
+  participant_identity TEXT,
+  group_id UUID
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _quiz RECORD;
+  _member RECORD;
+  _email TEXT;
+  _clean_name TEXT := regexp_replace(btrim(COALESCE(_name, '')), '\s+', ' ', 'g');
+  _value TEXT := btrim(COALESCE(_identity_value, ''));
+BEGIN
+  SELECT identity_mode, identity_field_label, roster_id INTO _quiz
+  FROM public.quizzes
+  WHERE id = _quiz_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz not available';
+  END IF;
+
+  IF _quiz.identity_mode = 'roster' THEN
+    SELECT m.student_id, m.name, m.group_id INTO _member
+    FROM public.roster_members m
+    WHERE m.roster_id = _quiz.roster_id
+      AND (m.id::text = _value OR lower(m.student_id) = lower(_value));
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'This ID is not on the class roster';
+    END IF;
+
+    RETURN QUERY
+    SELECT _member.name, 'roster:' || lower(_member.student_id), _member.student_id, _member.group_id;
+    RETURN;
+  END IF;
+
+  IF _quiz.identity_mode = 'account' THEN
+    IF auth.uid() IS NULL THEN
+      RAISE EXCEPTION 'Sign in to take this quiz';
+    END IF;
+
+    SELECT u.email INTO _email FROM auth.users u WHERE u.id = auth.uid();
+
+    RETURN QUERY
+    SELECT COALESCE(NULLIF(_clean_name, ''), _email), 'user:' || auth.uid()::text, _email, NULL::UUID;
+    RETURN;
+  END IF;
+
+  IF _clean_name = '' THEN
+    RAISE EXCEPTION 'Participant name is required';
+  END IF;
+
+  IF _quiz.identity_mode = 'name_field' THEN
+    IF _value = '' THEN
+      RAISE EXCEPTION '% is required', COALESCE(NULLIF(_quiz.identity_field_label, ''), 'ID');
+    END IF;
+
+    RETURN QUERY SELECT _clean_name, 'field:' || lower(_value), _value, NULL::UUID;
+    RETURN;
+  END IF;
+
+  RETURN QUERY SELECT _clean_name, public.name_participant_key(_clean_name), NULL::TEXT, NULL::UUID;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.resolve_participant(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Assignments only count for groups on the quiz's current roster, and
+-- only while the quiz is in roster mode
+CREATE OR REPLACE FUNCTION public.quiz_has_assignments(_quiz_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.quiz_group_assignments a
+    JOIN public.roster_groups g ON g.id = a.group_id
+    JOIN public.quizzes z ON z.id = a.quiz_id
+    WHERE a.quiz_id = _quiz_id
+      AND z.identity_mode = 'roster'
+      AND g.roster_id = z.roster_id
+  )
+$$;
+
+-- The window and retry limit that apply to one group (NULL = no group):
+-- the later opening, the earlier closing, the group's retries if set
+CREATE OR REPLACE FUNCTION public.quiz_group_window(_quiz_id UUID, _group_id UUID)
+RETURNS TABLE (
+  assigned BOOLEAN,
+  opens_at TIMESTAMP WITH TIME ZONE,
+  closes_at TIMESTAMP WITH TIME ZONE,
+  max_retries INTEGER,
+  state TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    a.id IS NOT NULL,
+    GREATEST(z.opens_at, a.opens_at),
+    LEAST(z.closes_at, a.closes_at),
+    COALESCE(a.max_retries, z.max_retries),
+    public.quiz_state(z.status, GREATEST(z.opens_at, a.opens_at), LEAST(z.closes_at, a.closes_at))
+  FROM public.quizzes z
+  LEFT JOIN public.quiz_group_assignments a
+    ON a.quiz_id = z.id AND a.group_id = _group_id
+  WHERE z.id = _quiz_id
+$$;
+
+-- Same as before, with the participant's group deciding the window,
+-- the retry limit and whether they may start at all
+CREATE OR REPLACE FUNCTION public.start_quiz_session(
+  _share_token TEXT DEFAULT NULL,
+  _participant_name TEXT DEFAULT NULL,
+  _quiz_id UUID DEFAULT NULL,
+  _identity_value TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  session_id UUID,
+  started_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  server_now TIMESTAMP WITH TIME ZONE,
+  question_ids UUID[],
+  participant_name TEXT,
+  participant_identity TEXT
+)
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _quiz RECORD;
+  _who RECORD;
+  _window RECORD;
+  _attempts INTEGER;
+  _session public.quiz_sessions%ROWTYPE;
+BEGIN
+  IF _share_token IS NOT NULL THEN
+    SELECT id, duration_minutes
+    INTO _quiz
+    FROM public.quizzes
+    WHERE share_token = _share_token AND COALESCE(sharing_enabled, true);
+  ELSE
+    SELECT id, duration_minutes
+    INTO _quiz
+    FROM public.quizzes
+    WHERE id = _quiz_id AND user_id = auth.uid();
+  END IF;
+
+  IF _quiz.id IS NULL THEN
+    RAISE EXCEPTION 'Quiz not available';
+  END IF;
+
+  IF _share_token IS NOT NULL THEN
+    SELECT * INTO _who
+    FROM public.resolve_participant(_quiz.id, _participant_name, _identity_value);
+
+    SELECT * INTO _window
+    FROM public.quiz_group_window(_quiz.id, _who.group_id);
+  ELSE
+    SELECT 'Creator' AS display_name,
+           'user:' || auth.uid()::text AS participant_key,
+           NULL::TEXT AS participant_identity,
+           NULL::UUID AS group_id
+    INTO _who;
+
+    -- Creators can preview in any state, with no close cap
+    SELECT true AS assigned, NULL::timestamptz AS closes_at, 0 AS max_retries, 'open' AS state
+    INTO _window;
+  END IF;
+
+  SELECT * INTO _session
+  FROM public.quiz_sessions s
+  WHERE s.quiz_id = _quiz.id
+    AND s.participant_key = _who.participant_key
+    AND s.submitted_at IS NULL
+  ORDER BY s.started_at DESC
+  LIMIT 1;
+
+  -- Once a quiz is assigned to groups, only those groups may take it
+  IF _session.id IS NULL AND _share_token IS NOT NULL
+     AND NOT _window.assigned AND public.quiz_has_assignments(_quiz.id) THEN
+    RAISE EXCEPTION 'This quiz is not assigned to your group';
+  END IF;
+
+  -- Only open quizzes start new sessions (in-progress ones may resume)
+  IF _session.id IS NULL AND _window.state <> 'open' THEN
+    RAISE EXCEPTION 'Quiz is not open';
+  END IF;
+
+  -- Same rule as submit-attempt: retries off means one attempt
+  IF _session.id IS NULL AND _share_token IS NOT NULL THEN
+    SELECT count(*) INTO _attempts
+    FROM public.quiz_attempts a
+    WHERE a.quiz_id = _quiz.id AND a.participant_key = _who.participant_key;
+
+    IF _attempts >= GREATEST(COALESCE(_window.max_retries, 0), 1) THEN
+      RAISE EXCEPTION 'Maximum retries reached';
+    END IF;
+  END IF;
+
+  IF _session.id IS NULL THEN
+    INSERT INTO public.quiz_sessions (
+      quiz_id, user_id, participant_name, participant_key, participant_identity,
+      group_id, expires_at, question_ids
+    )
+    VALUES (
+      _quiz.id,
+      auth.uid(),
+      _who.display_name,
+      _who.participant_key,
+      _who.participant_identity,
+      _who.group_id,
+      -- The time limit never runs past the (group's) closing time
+      CASE
+        WHEN COALESCE(_quiz.duration_minutes, 0) > 0 AND _window.closes_at IS NOT NULL
+          THEN LEAST(now() + make_interval(mins => _quiz.duration_minutes), _window.closes_at)
+        WHEN COALESCE(_quiz.duration_minutes, 0) > 0
+          THEN now() + make_interval(mins => _quiz.duration_minutes)
+        ELSE _window.closes_at
+      END,
+      public.draw_quiz_questions(_quiz.id)
+    )
+    RETURNING * INTO _session;
+  ELSIF _session.question_ids IS NULL THEN
+    -- Sessions opened before pools existed
+    UPDATE public.quiz_sessions s
+    SET question_ids = public.draw_quiz_questions(_quiz.id)
+    WHERE s.id = _session.id
+    RETURNING * INTO _session;
+  END IF;
+
+  -- Creator previews keep the authored option order
+  IF _session.option_orders IS NULL THEN
+    UPDATE public.quiz_sessions s
+    SET option_orders = CASE
+      WHEN _share_token IS NOT NULL
+        THEN public.draw_option_orders(_quiz.id, _session.question_ids)
+      ELSE '{}'::jsonb
+    END
+    WHERE s.id = _session.id
+    RETURNING * INTO _session;
+  END IF;
+
+  RETURN QUERY
+  SELECT _session.id, _session.started_at, _session.expires_at, now(),
+         _session.question_ids, _session.participant_name, _session.participant_identity;
+END;
+$$;
+
+-- Closing a group early pulls in that group's open sessions, like
+-- cap_sessions_at_close does for the whole quiz
+CREATE OR REPLACE FUNCTION public.cap_group_sessions_at_close()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.closes_at IS NOT NULL
+     AND (TG_OP = 'INSERT' OR NEW.closes_at IS DISTINCT FROM OLD.closes_at) THEN
+    UPDATE public.quiz_sessions s
+    SET expires_at = LEAST(COALESCE(s.expires_at, NEW.closes_at), NEW.closes_at)
+    WHERE s.quiz_id = NEW.quiz_id
+      AND s.group_id = NEW.group_id
+      AND s.submitted_at IS NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER cap_group_sessions_at_close
+  AFTER INSERT OR UPDATE OF closes_at ON public.quiz_group_assignments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.cap_group_sessions_at_close();
+
+-- The share page's roster picker: names and groups only (never student
+-- IDs), limited to assigned groups once the quiz has assignments
+CREATE OR REPLACE FUNCTION public.get_quiz_roster(_share_token TEXT)
+RETURNS TABLE (
+  member_id UUID,
+  name TEXT,
+  group_id UUID,
+  group_name TEXT,
+  state TEXT,
+  opens_at TIMESTAMP WITH TIME ZONE,
+  closes_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT m.id, m.name, g.id, g.name, w.state, w.opens_at, w.closes_at
+  FROM public.quizzes z
+  JOIN public.roster_members m ON m.roster_id = z.roster_id
+  LEFT JOIN public.roster_groups g ON g.id = m.group_id
+  CROSS JOIN LATERAL public.quiz_group_window(z.id, m.group_id) w
+  WHERE z.share_token = _share_token
+    AND COALESCE(z.sharing_enabled, true)
+    AND z.status <> 'draft'
+    AND z.identity_mode = 'roster'
+    AND (w.assigned OR NOT public.quiz_has_assignments(z.id))
+  ORDER BY g.name NULLS LAST, m.name
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_quiz_roster(TEXT) TO anon, authenticated;
@@ -0,0 +1,400 @@
+-- Optional access code for the quiz's original share link
+ALTER TABLE public.quizzes
+  ADD COLUMN IF NOT EXISTS access_code TEXT;
+
+-- Extra share links, so one class's link can be revoked without
+-- rotating everyone else's. Each has its own label, access code,
+-- expiry, use limit (new sessions started through it) and on/off switch.
+CREATE TABLE public.quiz_share_links (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  quiz_id UUID NOT NULL REFERENCES public.quizzes(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE DEFAULT encode(gen_random_bytes(16), 'hex'),
+  label TEXT NOT NULL,
+  access_code TEXT,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  max_uses INTEGER CHECK (max_uses IS NULL OR max_uses > 0),
+  use_count INTEGER NOT NULL DEFAULT 0,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX quiz_share_links_quiz_idx ON public.quiz_share_links (quiz_id);
+
+ALTER TABLE public.quiz_share_links ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can manage share links" ON public.quiz_share_links
+  FOR ALL
+  USING (public.is_quiz_owner(quiz_id))
+  WITH CHECK (public.is_quiz_owner(quiz_id));
+
+-- Which link a session / attempt came through (NULL = the original link)
+ALTER TABLE public.quiz_sessions
+  ADD COLUMN IF NOT EXISTS share_link_id UUID REFERENCES public.quiz_share_links(id) ON DELETE SET NULL;
+
+ALTER TABLE public.quiz_attempts
+  ADD COLUMN IF NOT EXISTS share_link_id UUID REFERENCES public.quiz_share_links(id) ON DELETE SET NULL;
+
+-- Turns any share token (the quiz's own or an extra link) into its quiz.
+-- No row when the token is unknown or the quiz has sharing switched off;
+-- link_state says whether new sessions may start through it.
+CREATE OR REPLACE FUNCTION public.resolve_share_link(_token TEXT)
+RETURNS TABLE (
+  quiz_id UUID,
+  link_id UUID,
+  link_state TEXT,
+  access_code TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT z.id, NULL::UUID, 'active', NULLIF(btrim(z.access_code), '')
+  FROM public.quizzes z
+  WHERE z.share_token = _token AND COALESCE(z.sharing_enabled, true)
+  UNION ALL
+  SELECT
+    l.quiz_id,
+    l.id,
+    CASE
+      WHEN NOT l.enabled THEN 'disabled'
+      WHEN l.expires_at IS NOT NULL AND l.expires_at <= now() THEN 'expired'
+      WHEN l.max_uses IS NOT NULL AND l.use_count >= l.max_uses THEN 'used_up'
+      ELSE 'active'
+    END,
+    NULLIF(btrim(l.access_code), '')
+  FROM public.quiz_share_links l
+  JOIN public.quizzes z ON z.id = l.quiz_id
+  WHERE l.token = _token AND COALESCE(z.sharing_enabled, true)
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.resolve_share_link(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- The share page now also learns the quiz id, the link's state and
+-- whether it asks for an access code (never the code itself)
+DROP FUNCTION IF EXISTS public.get_quiz_availability(TEXT);
+
+CREATE FUNCTION public.get_quiz_availability(_share_token TEXT)
+RETURNS TABLE (
+  quiz_id UUID,
+  state TEXT,
+  opens_at TIMESTAMP WITH TIME ZONE,
+  closes_at TIMESTAMP WITH TIME ZONE,
+  server_now TIMESTAMP WITH TIME ZONE,
+  link_state TEXT,
+  requires_code BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT z.id, public.quiz_state(z.status, z.opens_at, z.closes_at), z.opens_at, z.closes_at,
+         now(), l.link_state, l.access_code IS NOT NULL
+  FROM public.resolve_share_link(_share_token) l
+  JOIN public.quizzes z ON z.id = l.quiz_id
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_quiz_availability(TEXT) TO anon, authenticated;
+
+-- Without a session, questions are only listed through an active link
+-- with no access code (the code is checked when the session starts)
+CREATE OR REPLACE FUNCTION public.get_shared_quiz_questions(
+  _share_token TEXT,
+  _session_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  question_text TEXT,
+  question_type TEXT,
+  options TEXT[],
+  order_num INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    q.id,
+    q.question_text,
+    q.question_type,
+    CASE
+      WHEN s.option_orders ? q.id::text THEN ARRAY(
+        SELECT q.options[o.value::int + 1]
+        FROM jsonb_array_elements_text(s.option_orders -> q.id::text)
+          WITH ORDINALITY AS o(value, pos)
+        ORDER BY o.pos
+      )
+      ELSE q.options
+    END,
+    q.order_num
+  FROM public.resolve_share_link(_share_token) l
+  JOIN public.quizzes z ON z.id = l.quiz_id
+  JOIN public.questions q ON q.quiz_id = z.id
+  LEFT JOIN public.quiz_sessions s
+    ON s.id = _session_id AND s.quiz_id = z.id
+  WHERE (
+      s.id IS NOT NULL
+      OR (
+        public.quiz_state(z.status, z.opens_at, z.closes_at) = 'open'
+        AND l.link_state = 'active'
+        AND l.access_code IS NULL
+      )
+    )
+    AND (
+      CASE
+        WHEN s.question_ids IS NOT NULL THEN q.id = ANY(s.question_ids)
+        ELSE COALESCE(z.pool_size, 0) = 0 AND z.pool_quotas = '{}'::jsonb
+      END
+    )
+  ORDER BY array_position(s.question_ids, q.id), q.order_num
+$$;
+
+-- Starting through a link checks its state and access code and uses up
+-- one of its uses; resuming an in-progress session does neither
+DROP FUNCTION IF EXISTS public.start_quiz_session(TEXT, TEXT, UUID, TEXT);
+
+CREATE FUNCTION public.start_quiz_session(
+  _share_token TEXT DEFAULT NULL,
+  _participant_name TEXT DEFAULT NULL,
+  _quiz_id UUID DEFAULT NULL,
+  _identity_value TEXT DEFAULT NULL,
+  _access_code TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  session_id UUID,
+  started_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  server_now TIMESTAMP WITH TIME ZONE,
+  question_ids UUID[],
+  participant_name TEXT,
+  participant_identity TEXT
+)
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _quiz RECORD;
+  _link RECORD;
+  _who RECORD;
+  _window RECORD;
+  _attempts INTEGER;
+  _session public.quiz_sessions%ROWTYPE;
+BEGIN
+  IF _share_token IS NOT NULL THEN
+    SELECT * INTO _link FROM public.resolve_share_link(_share_token);
+
+    SELECT id, duration_minutes
+    INTO _quiz
+    FROM public.quizzes
+    WHERE id = _link.quiz_id;
+  ELSE
+    SELECT id, duration_minutes
+    INTO _quiz
+    FROM public.quizzes
+    WHERE id = _quiz_id AND user_id = auth.uid();
+
+    -- Creator previews don't go through a link
+    SELECT _quiz.id AS quiz_id, NULL::UUID AS link_id, 'active' AS link_state,
+           NULL::TEXT AS access_code
+    INTO _link;
+  END IF;
+
+  IF _quiz.id IS NULL THEN
+    RAISE EXCEPTION 'Quiz not available';
+  END IF;
+
+  IF _share_token IS NOT NULL THEN
+    SELECT * INTO _who
+    FROM public.resolve_participant(_quiz.id, _participant_name, _identity_value);
+
+    SELECT * INTO _window
+    FROM public.quiz_group_window(_quiz.id, _who.group_id);
+  ELSE
+    SELECT 'Creator' AS display_name,
+           'user:' || auth.uid()::text AS participant_key,
+           NULL::TEXT AS participant_identity,
+           NULL::UUID AS group_id
+    INTO _who;
+
+    -- Creators can preview in any state, with no close cap
+    SELECT true AS assigned, NULL::timestamptz AS closes_at, 0 AS max_retries, 'open' AS state
+    INTO _window;
+  END IF;
+
+  SELECT * INTO _session
+  FROM public.quiz_sessions s
+  WHERE s.quiz_id = _quiz.id
+    AND s.participant_key = _who.participant_key
+    AND s.submitted_at IS NULL
+  ORDER BY s.started_at DESC
+  LIMIT 1;
+
+  IF _session.id IS NULL AND _share_token IS NOT NULL THEN
+    IF _link.link_state <> 'active' THEN
+      RAISE EXCEPTION 'This link is no longer active';
+    END IF;
+
+    -- Codes are read out in class, so case and stray spaces don't matter
+    IF _link.access_code IS NOT NULL
+       AND lower(_link.access_code) <> lower(btrim(COALESCE(_access_code, ''))) THEN
+      RAISE EXCEPTION 'Incorrect access code';
+    END IF;
+  END IF;
+
+  -- Once a quiz is assigned to groups, only those groups may take it
+  IF _session.id IS NULL AND _share_token IS NOT NULL
+     AND NOT _window.assigned AND public.quiz_has_assignments(_quiz.id) THEN
+    RAISE EXCEPTION 'This quiz is not assigned to your group';
+  END IF;
+
+  -- Only open quizzes start new sessions (in-progress ones may resume)
+  IF _session.id IS NULL AND _window.state <> 'open' THEN
+    RAISE EXCEPTION 'Quiz is not open';
+  END IF;
+
+  -- Same rule as submit-attempt: retries off means one attempt
+  IF _session.id IS NULL AND _share_token IS NOT NULL THEN
+    SELECT count(*) INTO _attempts
+    FROM public.quiz_attempts a
+    WHERE a.quiz_id = _quiz.id AND a.participant_key = _who.participant_key;
+
+    IF _attempts >= GREATEST(COALESCE(_window.max_retries, 0), 1) THEN
+      RAISE EXCEPTION 'Maximum retries reached';
+    END IF;
+  END IF;
+
+  -- Claim a use atomically, so two students can't both take the last one
+  IF _session.id IS NULL AND _link.link_id IS NOT NULL THEN
+    UPDATE public.quiz_share_links l
+    SET use_count = l.use_count + 1
+    WHERE l.id = _link.link_id
+      AND (l.max_uses IS NULL OR l.use_count < l.max_uses);
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'This link is no longer active';
+    END IF;
+  END IF;
+
+  IF _session.id IS NULL THEN
+    INSERT INTO public.quiz_sessions (
+      quiz_id, user_id, participant_name, participant_key, participant_identity,
+      group_id, share_link_id, expires_at, question_ids
+    )
+    VALUES (
+      _quiz.id,
+      auth.uid(),
+      _who.display_name,
+      _who.participant_key,
+      _who.participant_identity,
+      _who.group_id,
+      _link.link_id,
+      -- The time limit never runs past the (group's) closing time
+      CASE
+        WHEN COALESCE(_quiz.duration_minutes, 0) > 0 AND _window.closes_at IS NOT NULL
+          THEN LEAST(now() + make_interval(mins => _quiz.duration_minutes), _window.closes_at)
+        WHEN COALESCE(_quiz.duration_minutes, 0) > 0
+          THEN now() + make_interval(mins => _quiz.duration_minutes)
+        ELSE _window.closes_at
+      END,
+      public.draw_quiz_questions(_quiz.id)
+    )
+    RETURNING * INTO _session;
+  ELSIF _session.question_ids IS NULL THEN
+    -- Sessions opened before pools existed
+    UPDATE public.quiz_sessions s
+    SET question_ids = public.draw_quiz_questions(_quiz.id)
+    WHERE s.id = _session.id
+    RETURNING * INTO _session;
+  END IF;
+
+  -- Creator previews keep the authored option order
+  IF _session.option_orders IS NULL THEN
+    UPDATE public.quiz_sessions s
+    SET option_orders = CASE
+      WHEN _share_token IS NOT NULL
+        THEN public.draw_option_orders(_quiz.id, _session.question_ids)
+      ELSE '{}'::jsonb
+    END
+    WHERE s.id = _session.id
+    RETURNING * INTO _session;
+  END IF;
+
+  RETURN QUERY
+  SELECT _session.id, _session.started_at, _session.expires_at, now(),
+         _session.question_ids, _session.participant_name, _session.participant_identity;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.start_quiz_session(TEXT, TEXT, UUID, TEXT, TEXT) TO anon, authenticated;
+
+-- Extra links count attempts for the same quiz
+CREATE OR REPLACE FUNCTION public.count_participant_attempts(
+  _share_token TEXT,
+  _participant_name TEXT,
+  _identity_value TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _quiz_id UUID;
+  _key TEXT;
+  _count INTEGER;
+BEGIN
+  SELECT l.quiz_id INTO _quiz_id
+  FROM public.resolve_share_link(_share_token) l;
+
+  IF _quiz_id IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  BEGIN
+    SELECT r.participant_key INTO _key
+    FROM public.resolve_participant(_quiz_id, _participant_name, _identity_value) r;
+  EXCEPTION WHEN OTHERS THEN
+    RETURN 0;
+  END;
+
+  SELECT count(*) INTO _count
+  FROM public.quiz_attempts a
+  WHERE a.quiz_id = _quiz_id AND a.participant_key = _key;
+
+  RETURN _count;
+END;
+$$;
+
+-- The roster picker is only offered through a link that can still start
+CREATE OR REPLACE FUNCTION public.get_quiz_roster(_share_token TEXT)
+RETURNS TABLE (
+  member_id UUID,
+  name TEXT,
+  group_id UUID,
+  group_name TEXT,
+  state TEXT,
+  opens_at TIMESTAMP WITH TIME ZONE,
+  closes_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT m.id, m.name, g.id, g.name, w.state, w.opens_at, w.closes_at
+  FROM public.resolve_share_link(_share_token) l
+  JOIN public.quizzes z ON z.id = l.quiz_id
+  JOIN public.roster_members m ON m.roster_id = z.roster_id
+  LEFT JOIN public.roster_groups g ON g.id = m.group_id
+  CROSS JOIN LATERAL public.quiz_group_window(z.id, m.group_id) w
+  WHERE l.link_state = 'active'
+    AND z.status <> 'draft'
+    AND z.identity_mode = 'roster'
+    AND (w.assigned OR NOT public.quiz_has_assignments(z.id))
+  ORDER BY g.name NULLS LAST, m.name
+$$;
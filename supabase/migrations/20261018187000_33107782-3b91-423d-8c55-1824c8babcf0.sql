@@ -0,0 +1,7 @@
+-- Attempts from share links are stored with user_id NULL, so the baseline
+-- policy let anyone read every participant's answers (and rebuild the key
+-- from them). Participants read their own results from submit-attempt.
+DROP POLICY IF EXISTS "Users can view own attempts" ON public.quiz_attempts;
+
+CREATE POLICY "Users can view own attempts" ON public.quiz_attempts
+  FOR SELECT USING (user_id = auth.uid() OR public.is_quiz_owner(quiz_id));
@@ -0,0 +1,43 @@
+-- Any link holder could read the whole quizzes row (share_token IS NOT
+-- NULL matches every quiz), including the main link's access code and
+-- share token, which made codes and per-link revocation pointless.
+-- Quizzes are now owner-only; the share page reads its settings below.
+DROP POLICY IF EXISTS "Users can view own quizzes" ON public.quizzes;
+
+CREATE POLICY "Users can view own quizzes" ON public.quizzes
+  FOR SELECT USING (user_id = auth.uid());
+
+-- Participant-facing settings for a share link (never its code, token or
+-- answer-related columns). NULL when the link is unknown, the quiz has
+-- sharing switched off, or it is still a draft.
+CREATE OR REPLACE FUNCTION public.get_shared_quiz(_share_token TEXT)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'id', z.id,
+    'title', z.title,
+    'duration_minutes', z.duration_minutes,
+    'max_retries', z.max_retries,
+    'sharing_enabled', z.sharing_enabled,
+    'show_answers', z.show_answers,
+    'prevent_tab_switch', z.prevent_tab_switch,
+    'tab_switch_warnings', z.tab_switch_warnings,
+    'require_fullscreen', z.require_fullscreen,
+    'prevent_copy_paste', z.prevent_copy_paste,
+    'randomise_questions', z.randomise_questions,
+    'leaderboard_enabled', z.leaderboard_enabled,
+    'negative_marking_enabled', z.negative_marking_enabled,
+    'negative_mark_value', z.negative_mark_value,
+    'identity_mode', z.identity_mode,
+    'identity_field_label', z.identity_field_label
+  )
+  FROM public.resolve_share_link(_share_token) l
+  JOIN public.quizzes z ON z.id = l.quiz_id
+  WHERE z.status <> 'draft'
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_shared_quiz(TEXT) TO anon, authenticated;
@@ -0,0 +1,91 @@
+-- Sessions are pinned to the version that was live when they started, so
+-- an edit made while someone is taking the quiz changes neither the
+-- questions they are shown nor the key they are graded against.
+-- (Sessions started before this have no version and use live questions.)
+ALTER TABLE public.quiz_sessions
+  ADD COLUMN IF NOT EXISTS version_id UUID REFERENCES public.quiz_versions(id) ON DELETE SET NULL;
+
+CREATE OR REPLACE FUNCTION public.pin_session_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.version_id IS NULL THEN
+    SELECT v.id INTO NEW.version_id
+    FROM public.quiz_versions v
+    WHERE v.quiz_id = NEW.quiz_id
+    ORDER BY v.version_number DESC
+    LIMIT 1;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Runs on the insert in start_quiz_session
+CREATE TRIGGER pin_quiz_session_version
+  BEFORE INSERT ON public.quiz_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.pin_session_version();
+
+-- With a pinned session, questions come from its version's snapshot
+CREATE OR REPLACE FUNCTION public.get_shared_quiz_questions(
+  _share_token TEXT,
+  _session_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  question_text TEXT,
+  question_type TEXT,
+  options TEXT[],
+  order_num INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    q.id,
+    q.question_text,
+    q.question_type,
+    CASE
+      WHEN s.option_orders ? q.id::text THEN ARRAY(
+        SELECT q.options[o.value::int + 1]
+        FROM jsonb_array_elements_text(s.option_orders -> q.id::text)
+          WITH ORDINALITY AS o(value, pos)
+        ORDER BY o.pos
+      )
+      ELSE q.options
+    END,
+    q.order_num
+  FROM public.resolve_share_link(_share_token) l
+  JOIN public.quizzes z ON z.id = l.quiz_id
+  LEFT JOIN public.quiz_sessions s
+    ON s.id = _session_id AND s.quiz_id = z.id
+  LEFT JOIN public.quiz_versions v ON v.id = s.version_id
+  CROSS JOIN LATERAL (
+    SELECT * FROM jsonb_populate_recordset(NULL::public.questions, v.questions)
+    WHERE v.id IS NOT NULL
+    UNION ALL
+    SELECT * FROM public.questions lq
+    WHERE lq.quiz_id = z.id AND v.id IS NULL
+  ) q
+  WHERE (
+      s.id IS NOT NULL
+      OR (
+        public.quiz_state(z.status, z.opens_at, z.closes_at) = 'open'
+        AND l.link_state = 'active'
+        AND l.access_code IS NULL
+      )
+    )
+    AND (
+      CASE
+        WHEN s.question_ids IS NOT NULL THEN q.id = ANY(s.question_ids)
+        ELSE COALESCE(z.pool_size, 0) = 0 AND z.pool_quotas = '{}'::jsonb
+      END
+    )
+  ORDER BY array_position(s.question_ids, q.id), q.order_num
+$$;
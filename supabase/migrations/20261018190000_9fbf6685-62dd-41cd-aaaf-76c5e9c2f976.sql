@@ -0,0 +1,82 @@
+-- Leaderboard rows carry participant_key (roll number, email or roster
+-- ID), so only owners read the table; the share page gets display
+-- columns through get_quiz_leaderboard.
+DO $$
+DECLARE
+  _policy RECORD;
+BEGIN
+  FOR _policy IN
+    SELECT policyname FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = 'quiz_leaderboard' AND cmd = 'SELECT'
+  LOOP
+    EXECUTE format('DROP POLICY %I ON public.quiz_leaderboard', _policy.policyname);
+  END LOOP;
+END;
+$$;
+
+CREATE POLICY "Owners can view the leaderboard" ON public.quiz_leaderboard
+  FOR SELECT USING (public.is_quiz_owner(quiz_id));
+
+-- Top 20 for a share link (optionally one roster group). is_you marks the
+-- caller's own row by resolved identity, so two participants with the
+-- same display name are never confused.
+CREATE OR REPLACE FUNCTION public.get_quiz_leaderboard(
+  _share_token TEXT,
+  _group_id UUID DEFAULT NULL,
+  _participant_name TEXT DEFAULT NULL,
+  _identity_value TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id TEXT,
+  participant_name TEXT,
+  score NUMERIC,
+  correct_count INTEGER,
+  total_questions INTEGER,
+  time_taken_seconds INTEGER,
+  is_you BOOLEAN
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _quiz_id UUID;
+  _key TEXT;
+BEGIN
+  SELECT l.quiz_id INTO _quiz_id
+  FROM public.resolve_share_link(_share_token) l
+  JOIN public.quizzes z ON z.id = l.quiz_id
+  WHERE COALESCE(z.leaderboard_enabled, true);
+
+  IF _quiz_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF btrim(COALESCE(_participant_name, '')) <> '' OR _identity_value IS NOT NULL THEN
+    BEGIN
+      SELECT r.participant_key INTO _key
+      FROM public.resolve_participant(_quiz_id, _participant_name, _identity_value) r;
+    EXCEPTION WHEN OTHERS THEN
+      _key := NULL;
+    END;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    b.id::text,
+    b.participant_name,
+    b.score::numeric,
+    b.correct_count::integer,
+    b.total_questions::integer,
+    b.time_taken_seconds::integer,
+    _key IS NOT NULL AND b.participant_key = _key
+  FROM public.quiz_leaderboard b
+  WHERE b.quiz_id = _quiz_id
+    AND (_group_id IS NULL OR b.group_id = _group_id)
+  ORDER BY b.score DESC, b.time_taken_seconds ASC
+  LIMIT 20;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_quiz_leaderboard(TEXT, UUID, TEXT, TEXT) TO anon, authenticated;
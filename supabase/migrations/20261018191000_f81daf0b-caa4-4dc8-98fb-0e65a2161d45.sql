@@ -0,0 +1,102 @@
+-- "Close now" uses the database clock, not the creator's device clock
+CREATE OR REPLACE FUNCTION public.close_quiz(_quiz_id UUID)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+VOLATILE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  _closes_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  UPDATE public.quizzes
+  SET closes_at = now()
+  WHERE id = _quiz_id AND user_id = auth.uid()
+  RETURNING closes_at INTO _closes_at;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz not found';
+  END IF;
+
+  RETURN _closes_at;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.close_quiz(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.close_quiz(UUID) TO authenticated;
+
+-- Sessions still open once their (group's) closing time plus the submit
+-- grace period (SUBMIT_GRACE_SECONDS in submit-attempt) has passed were
+-- abandoned: submit-attempt rejects them from then on, so they are closed
+-- here and recorded as unanswered late attempts (score 0). Creator
+-- previews are left alone. Returns how many sessions were finalised.
+CREATE OR REPLACE FUNCTION public.finalise_closed_sessions(_quiz_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _session RECORD;
+  _count INTEGER := 0;
+BEGIN
+  IF NOT public.is_quiz_owner(_quiz_id) THEN
+    RAISE EXCEPTION 'Quiz not found';
+  END IF;
+
+  FOR _session IN
+    SELECT s.*
+    FROM public.quiz_sessions s
+    JOIN public.quizzes z ON z.id = s.quiz_id
+    CROSS JOIN LATERAL public.quiz_group_window(s.quiz_id, s.group_id) w
+    WHERE s.quiz_id = _quiz_id
+      AND s.submitted_at IS NULL
+      AND s.user_id IS DISTINCT FROM z.user_id
+      AND w.closes_at IS NOT NULL
+      AND w.closes_at + interval '30 seconds' <= now()
+    FOR UPDATE OF s SKIP LOCKED
+  LOOP
+    UPDATE public.quiz_sessions
+    SET submitted_at = now()
+    WHERE id = _session.id;
+
+    INSERT INTO public.quiz_attempts (
+      quiz_id, user_id, participant_name, participant_key, participant_identity,
+      group_id, share_link_id, answers, score, total_questions, time_taken_seconds,
+      session_id, question_ids, option_orders, version_id, is_late
+    )
+    VALUES (
+      _session.quiz_id,
+      _session.user_id,
+      _session.participant_name,
+      _session.participant_key,
+      _session.participant_identity,
+      _session.group_id,
+      _session.share_link_id,
+      '{}'::jsonb,
+      0,
+      COALESCE(
+        cardinality(_session.question_ids),
+        (SELECT count(*) FROM public.questions q WHERE q.quiz_id = _session.quiz_id)
+      ),
+      GREATEST(
+        extract(epoch FROM COALESCE(_session.expires_at, now()) - _session.started_at)::integer,
+        1
+      ),
+      _session.id,
+      _session.question_ids,
+      COALESCE(_session.option_orders, '{}'::jsonb),
+      _session.version_id,
+      true
+    );
+
+    _count := _count + 1;
+  END LOOP;
+
+  RETURN _count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.finalise_closed_sessions(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.finalise_closed_sessions(UUID) TO authenticated;
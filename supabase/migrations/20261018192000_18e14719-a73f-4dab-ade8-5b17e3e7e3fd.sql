@@ -0,0 +1,141 @@
+-- Saves a roster in one transaction (like save_quiz). Members are matched
+-- on student ID, so a student who stays on the roster keeps their row id:
+-- resolve_participant accepts that id from the roster picker, and
+-- regenerating it would lock out anyone mid-quiz. Groups are matched by
+-- name, so existing assignments survive a re-upload.
+CREATE OR REPLACE FUNCTION public.save_roster(
+  _roster_id UUID,
+  _name TEXT,
+  _members JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+VOLATILE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  _id UUID := _roster_id;
+  _item JSONB;
+  _student_id TEXT;
+  _group TEXT;
+  _group_id UUID;
+  _member_id UUID;
+  _kept UUID[] := '{}';
+BEGIN
+  IF btrim(COALESCE(_name, '')) = '' THEN
+    RAISE EXCEPTION 'Roster name is required';
+  END IF;
+
+  IF jsonb_typeof(_members) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Members must be a list';
+  END IF;
+
+  IF _id IS NULL THEN
+    INSERT INTO public.rosters (name, user_id)
+    VALUES (btrim(_name), auth.uid())
+    RETURNING id INTO _id;
+  ELSE
+    UPDATE public.rosters SET name = btrim(_name)
+    WHERE id = _id AND user_id = auth.uid();
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Roster not found';
+    END IF;
+  END IF;
+
+  FOR _item IN SELECT value FROM jsonb_array_elements(_members) LOOP
+    _student_id := btrim(COALESCE(_item ->> 'student_id', ''));
+    CONTINUE WHEN _student_id = '';
+
+    _group := btrim(COALESCE(_item ->> 'group', ''));
+    _group_id := NULL;
+
+    IF _group <> '' THEN
+      INSERT INTO public.roster_groups (roster_id, name)
+      VALUES (_id, _group)
+      ON CONFLICT (roster_id, (lower(name))) DO NOTHING;
+
+      SELECT g.id INTO _group_id
+      FROM public.roster_groups g
+      WHERE g.roster_id = _id AND lower(g.name) = lower(_group);
+    END IF;
+
+    INSERT INTO public.roster_members (roster_id, student_id, name, group_id)
+    VALUES (
+      _id,
+      _student_id,
+      COALESCE(NULLIF(btrim(_item ->> 'name'), ''), _student_id),
+      _group_id
+    )
+    ON CONFLICT (roster_id, (lower(student_id))) DO UPDATE
+    SET student_id = EXCLUDED.student_id,
+        name = EXCLUDED.name,
+        group_id = EXCLUDED.group_id
+    RETURNING id INTO _member_id;
+
+    _kept := _kept || _member_id;
+  END LOOP;
+
+  DELETE FROM public.roster_members
+  WHERE roster_id = _id AND NOT (id = ANY(_kept));
+
+  -- Groups nobody is in any more (their assignments go with them)
+  DELETE FROM public.roster_groups g
+  WHERE g.roster_id = _id
+    AND NOT EXISTS (SELECT 1 FROM public.roster_members m WHERE m.group_id = g.id);
+
+  RETURN _id;
+END;
+$$;
+
+-- The share page needs the retry limit that applies to this participant:
+-- a group assignment may set its own (as start_quiz_session and
+-- submit-attempt already honour), so the count and the limit come together
+DROP FUNCTION IF EXISTS public.count_participant_attempts(TEXT, TEXT, TEXT);
+
+CREATE FUNCTION public.get_participant_attempts(
+  _share_token TEXT,
+  _participant_name TEXT,
+  _identity_value TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  attempts INTEGER,
+  max_retries INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _quiz_id UUID;
+  _who RECORD;
+BEGIN
+  SELECT l.quiz_id INTO _quiz_id
+  FROM public.resolve_share_link(_share_token) l;
+
+  IF _quiz_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  BEGIN
+    SELECT r.participant_key, r.group_id INTO _who
+    FROM public.resolve_participant(_quiz_id, _participant_name, _identity_value) r;
+  EXCEPTION WHEN OTHERS THEN
+    SELECT NULL::TEXT AS participant_key, NULL::UUID AS group_id INTO _who;
+  END;
+
+  RETURN QUERY
+  SELECT
+    (
+      SELECT count(*)::integer
+      FROM public.quiz_attempts a
+      WHERE a.quiz_id = _quiz_id AND a.participant_key = _who.participant_key
+    ),
+    COALESCE(w.max_retries, 0)
+  FROM public.quiz_group_window(_quiz_id, _who.group_id) w;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_participant_attempts(TEXT, TEXT, TEXT) TO anon, authenticated;
@@ -0,0 +1,236 @@
+-- Resuming an in-progress session needs the secret handed out when it
+-- started (kept by the participant's browser). The identity alone (a typed
+-- name, roll number or student ID) is not enough, or anyone who knows it
+-- could take over someone else's attempt.
+ALTER TABLE public.quiz_sessions
+  ADD COLUMN IF NOT EXISTS resume_token TEXT NOT NULL DEFAULT encode(gen_random_bytes(16), 'hex');
+
+DROP FUNCTION IF EXISTS public.start_quiz_session(TEXT, TEXT, UUID, TEXT, TEXT);
+
+CREATE FUNCTION public.start_quiz_session(
+  _share_token TEXT DEFAULT NULL,
+  _participant_name TEXT DEFAULT NULL,
+  _quiz_id UUID DEFAULT NULL,
+  _identity_value TEXT DEFAULT NULL,
+  _access_code TEXT DEFAULT NULL,
+  _resume_token TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  session_id UUID,
+  started_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  server_now TIMESTAMP WITH TIME ZONE,
+  question_ids UUID[],
+  participant_name TEXT,
+  participant_identity TEXT,
+  resume_token TEXT
+)
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _quiz RECORD;
+  _link RECORD;
+  _who RECORD;
+  _window RECORD;
+  _attempts INTEGER;
+  _session public.quiz_sessions%ROWTYPE;
+BEGIN
+  IF _share_token IS NOT NULL THEN
+    SELECT * INTO _link FROM public.resolve_share_link(_share_token);
+
+    SELECT id, duration_minutes
+    INTO _quiz
+    FROM public.quizzes
+    WHERE id = _link.quiz_id;
+  ELSE
+    SELECT id, duration_minutes
+    INTO _quiz
+    FROM public.quizzes
+    WHERE id = _quiz_id AND user_id = auth.uid();
+
+    -- Creator previews don't go through a link
+    SELECT _quiz.id AS quiz_id, NULL::UUID AS link_id, 'active' AS link_state,
+           NULL::TEXT AS access_code
+    INTO _link;
+  END IF;
+
+  IF _quiz.id IS NULL THEN
+    RAISE EXCEPTION 'Quiz not available';
+  END IF;
+
+  IF _share_token IS NOT NULL THEN
+    SELECT * INTO _who
+    FROM public.resolve_participant(_quiz.id, _participant_name, _identity_value);
+
+    SELECT * INTO _window
+    FROM public.quiz_group_window(_quiz.id, _who.group_id);
+  ELSE
+    SELECT 'Creator' AS display_name,
+           'user:' || auth.uid()::text AS participant_key,
+           NULL::TEXT AS participant_identity,
+           NULL::UUID AS group_id
+    INTO _who;
+
+    -- Creators can preview in any state, with no close cap
+    SELECT true AS assigned, NULL::timestamptz AS closes_at, 0 AS max_retries, 'open' AS state
+    INTO _window;
+  END IF;
+
+  SELECT * INTO _session
+  FROM public.quiz_sessions s
+  WHERE s.quiz_id = _quiz.id
+    AND s.participant_key = _who.participant_key
+    AND s.submitted_at IS NULL
+  ORDER BY s.started_at DESC
+  LIMIT 1;
+
+  -- Creator previews are tied to the signed-in account; everyone else
+  -- must hold the session's resume token
+  IF _session.id IS NOT NULL AND _share_token IS NOT NULL
+     AND _session.resume_token IS DISTINCT FROM _resume_token THEN
+    RAISE EXCEPTION 'This quiz is already in progress in another browser';
+  END IF;
+
+  IF _session.id IS NULL AND _share_token IS NOT NULL THEN
+    IF _link.link_state <> 'active' THEN
+      RAISE EXCEPTION 'This link is no longer active';
+    END IF;
+
+    -- Codes are read out in class, so case and stray spaces don't matter
+    IF _link.access_code IS NOT NULL
+       AND lower(_link.access_code) <> lower(btrim(COALESCE(_access_code, ''))) THEN
+      RAISE EXCEPTION 'Incorrect access code';
+    END IF;
+  END IF;
+
+  -- Once a quiz is assigned to groups, only those groups may take it
+  IF _session.id IS NULL AND _share_token IS NOT NULL
+     AND NOT _window.assigned AND public.quiz_has_assignments(_quiz.id) THEN
+    RAISE EXCEPTION 'This quiz is not assigned to your group';
+  END IF;
+
+  -- Only open quizzes start new sessions (in-progress ones may resume)
+  IF _session.id IS NULL AND _window.state <> 'open' THEN
+    RAISE EXCEPTION 'Quiz is not open';
+  END IF;
+
+  -- Same rule as submit-attempt: retries off means one attempt
+  IF _session.id IS NULL AND _share_token IS NOT NULL THEN
+    SELECT count(*) INTO _attempts
+    FROM public.quiz_attempts a
+    WHERE a.quiz_id = _quiz.id AND a.participant_key = _who.participant_key;
+
+    IF _attempts >= GREATEST(COALESCE(_window.max_retries, 0), 1) THEN
+      RAISE EXCEPTION 'Maximum retries reached';
+    END IF;
+  END IF;
+
+  -- Claim a use atomically, so two students can't both take the last one
+  IF _session.id IS NULL AND _link.link_id IS NOT NULL THEN
+    UPDATE public.quiz_share_links l
+    SET use_count = l.use_count + 1
+    WHERE l.id = _link.link_id
+      AND (l.max_uses IS NULL OR l.use_count < l.max_uses);
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'This link is no longer active';
+    END IF;
+  END IF;
+
+  IF _session.id IS NULL THEN
+    INSERT INTO public.quiz_sessions (
+      quiz_id, user_id, participant_name, participant_key, participant_identity,
+      group_id, share_link_id, expires_at, question_ids
+    )
+    VALUES (
+      _quiz.id,
+      auth.uid(),
+      _who.display_name,
+      _who.participant_key,
+      _who.participant_identity,
+      _who.group_id,
+      _link.link_id,
+      -- The time limit never runs past the (group's) closing time
+      CASE
+        WHEN COALESCE(_quiz.duration_minutes, 0) > 0 AND _window.closes_at IS NOT NULL
+          THEN LEAST(now() + make_interval(mins => _quiz.duration_minutes), _window.closes_at)
+        WHEN COALESCE(_quiz.duration_minutes, 0) > 0
+          THEN now() + make_interval(mins => _quiz.duration_minutes)
+        ELSE _window.closes_at
+      END,
+      public.draw_quiz_questions(_quiz.id)
+    )
+    RETURNING * INTO _session;
+  ELSIF _session.question_ids IS NULL THEN
+    -- Sessions opened before pools existed
+    UPDATE public.quiz_sessions s
+    SET question_ids = public.draw_quiz_questions(_quiz.id)
+    WHERE s.id = _session.id
+    RETURNING * INTO _session;
+  END IF;
+
+  -- Creator previews keep the authored option order
+  IF _session.option_orders IS NULL THEN
+    UPDATE public.quiz_sessions s
+    SET option_orders = CASE
+      WHEN _share_token IS NOT NULL
+        THEN public.draw_option_orders(_quiz.id, _session.question_ids)
+      ELSE '{}'::jsonb
+    END
+    WHERE s.id = _session.id
+    RETURNING * INTO _session;
+  END IF;
+
+  RETURN QUERY
+  SELECT _session.id, _session.started_at, _session.expires_at, now(),
+         _session.question_ids, _session.participant_name, _session.participant_identity,
+         _session.resume_token;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.start_quiz_session(TEXT, TEXT, UUID, TEXT, TEXT, TEXT) TO anon, authenticated;
+
+-- An identity that doesn't resolve (unknown roster ID, missing field) is
+-- reported as such instead of looking like a participant with no attempts
+CREATE OR REPLACE FUNCTION public.get_participant_attempts(
+  _share_token TEXT,
+  _participant_name TEXT,
+  _identity_value TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  attempts INTEGER,
+  max_retries INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _quiz_id UUID;
+  _who RECORD;
+BEGIN
+  SELECT l.quiz_id INTO _quiz_id
+  FROM public.resolve_share_link(_share_token) l;
+
+  IF _quiz_id IS NULL THEN
+    RAISE EXCEPTION 'Quiz not available';
+  END IF;
+
+  SELECT r.participant_key, r.group_id INTO _who
+  FROM public.resolve_participant(_quiz_id, _participant_name, _identity_value) r;
+
+  RETURN QUERY
+  SELECT
+    (
+      SELECT count(*)::integer
+      FROM public.quiz_attempts a
+      WHERE a.quiz_id = _quiz_id AND a.participant_key = _who.participant_key
+    ),
+    COALESCE(w.max_retries, 0)
+  FROM public.quiz_group_window(_quiz_id, _who.group_id) w;
+END;
+$$;
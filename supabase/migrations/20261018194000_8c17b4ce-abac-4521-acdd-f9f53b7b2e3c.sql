@@ -0,0 +1,120 @@
+-- Roster participants identify with their student ID again. The picker
+-- used to send the member's row id, which get_quiz_roster handed to anyone
+-- holding the link, so any listed student could be impersonated. The
+-- picker now only lists names; the student still types their ID, and a
+-- picked name has to belong to that ID.
+DROP FUNCTION IF EXISTS public.resolve_participant(UUID, TEXT, TEXT);
+
+CREATE FUNCTION public.resolve_participant(
+  _quiz_id UUID,
+  _name TEXT,
+  _identity_value TEXT
+)
+RETURNS TABLE (
+  display_name TEXT,
+  participant_key TEXT,
+  participant_identity TEXT,
+  group_id UUID
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _quiz RECORD;
+  _member RECORD;
+  _email TEXT;
+  _clean_name TEXT := regexp_replace(btrim(COALESCE(_name, '')), '\s+', ' ', 'g');
+  _value TEXT := btrim(COALESCE(_identity_value, ''));
+BEGIN
+  SELECT identity_mode, identity_field_label, roster_id INTO _quiz
+  FROM public.quizzes
+  WHERE id = _quiz_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz not available';
+  END IF;
+
+  IF _quiz.identity_mode = 'roster' THEN
+    SELECT m.student_id, m.name, m.group_id INTO _member
+    FROM public.roster_members m
+    WHERE m.roster_id = _quiz.roster_id
+      AND lower(m.student_id) = lower(_value);
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'This ID is not on the class roster';
+    END IF;
+
+    IF _clean_name <> ''
+       AND lower(_clean_name) <> lower(regexp_replace(btrim(_member.name), '\s+', ' ', 'g')) THEN
+      RAISE EXCEPTION 'This ID does not match the name you picked';
+    END IF;
+
+    RETURN QUERY
+    SELECT _member.name, 'roster:' || lower(_member.student_id), _member.student_id, _member.group_id;
+    RETURN;
+  END IF;
+
+  IF _quiz.identity_mode = 'account' THEN
+    IF auth.uid() IS NULL THEN
+      RAISE EXCEPTION 'Sign in to take this quiz';
+    END IF;
+
+    SELECT u.email INTO _email FROM auth.users u WHERE u.id = auth.uid();
+
+    RETURN QUERY
+    SELECT COALESCE(NULLIF(_clean_name, ''), _email), 'user:' || auth.uid()::text, _email, NULL::UUID;
+    RETURN;
+  END IF;
+
+  IF _clean_name = '' THEN
+    RAISE EXCEPTION 'Participant name is required';
+  END IF;
+
+  IF _quiz.identity_mode = 'name_field' THEN
+    IF _value = '' THEN
+      RAISE EXCEPTION '% is required', COALESCE(NULLIF(_quiz.identity_field_label, ''), 'ID');
+    END IF;
+
+    RETURN QUERY SELECT _clean_name, 'field:' || lower(_value), _value, NULL::UUID;
+    RETURN;
+  END IF;
+
+  RETURN QUERY SELECT _clean_name, public.name_participant_key(_clean_name), NULL::TEXT, NULL::UUID;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.resolve_participant(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- The picker lists names and groups only: nothing in it identifies a student
+DROP FUNCTION IF EXISTS public.get_quiz_roster(TEXT);
+
+CREATE FUNCTION public.get_quiz_roster(_share_token TEXT)
+RETURNS TABLE (
+  name TEXT,
+  group_id UUID,
+  group_name TEXT,
+  state TEXT,
+  opens_at TIMESTAMP WITH TIME ZONE,
+  closes_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT m.name, g.id, g.name, w.state, w.opens_at, w.closes_at
+  FROM public.resolve_share_link(_share_token) l
+  JOIN public.quizzes z ON z.id = l.quiz_id
+  JOIN public.roster_members m ON m.roster_id = z.roster_id
+  LEFT JOIN public.roster_groups g ON g.id = m.group_id
+  CROSS JOIN LATERAL public.quiz_group_window(z.id, m.group_id) w
+  WHERE l.link_state = 'active'
+    AND z.status <> 'draft'
+    AND z.identity_mode = 'roster'
+    AND (w.assigned OR NOT public.quiz_has_assignments(z.id))
+  ORDER BY g.name NULLS LAST, m.name
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_quiz_roster(TEXT) TO anon, authenticated;
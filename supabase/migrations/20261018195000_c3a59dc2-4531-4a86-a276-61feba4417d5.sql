@@ -0,0 +1,50 @@
+-- The class list is only shown through a link once its access code (if
+-- it has one) has been entered, same as starting a session
+DROP FUNCTION IF EXISTS public.get_quiz_roster(TEXT);
+
+CREATE FUNCTION public.get_quiz_roster(
+  _share_token TEXT,
+  _access_code TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  name TEXT,
+  group_id UUID,
+  group_name TEXT,
+  state TEXT,
+  opens_at TIMESTAMP WITH TIME ZONE,
+  closes_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _link RECORD;
+BEGIN
+  SELECT * INTO _link FROM public.resolve_share_link(_share_token);
+
+  IF _link.quiz_id IS NULL OR _link.link_state <> 'active' THEN
+    RETURN;
+  END IF;
+
+  IF _link.access_code IS NOT NULL
+     AND lower(_link.access_code) <> lower(btrim(COALESCE(_access_code, ''))) THEN
+    RAISE EXCEPTION 'Incorrect access code';
+  END IF;
+
+  RETURN QUERY
+  SELECT m.name, g.id, g.name, w.state, w.opens_at, w.closes_at
+  FROM public.quizzes z
+  JOIN public.roster_members m ON m.roster_id = z.roster_id
+  LEFT JOIN public.roster_groups g ON g.id = m.group_id
+  CROSS JOIN LATERAL public.quiz_group_window(z.id, m.group_id) w
+  WHERE z.id = _link.quiz_id
+    AND z.status <> 'draft'
+    AND z.identity_mode = 'roster'
+    AND (w.assigned OR NOT public.quiz_has_assignments(z.id))
+  ORDER BY g.name NULLS LAST, m.name;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_quiz_roster(TEXT, TEXT) TO anon, authenticated;
@@ -0,0 +1,4 @@
+-- Events submit-attempt left out of the proctoring log because one type
+-- went over its cap (the newest of each type are kept)
+ALTER TABLE public.quiz_attempts
+  ADD COLUMN IF NOT EXISTS proctor_events_dropped INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,177 @@
+-- Answers are saved on the session as the student goes (as displayed, in
+-- shuffled positions like a submit), so a session left open when the quiz
+-- closes is graded on what was answered instead of scoring 0
+ALTER TABLE public.quiz_sessions
+  ADD COLUMN IF NOT EXISTS draft_answers JSONB NOT NULL DEFAULT '{}'::jsonb,
+  ADD COLUMN IF NOT EXISTS answers_saved_at TIMESTAMP WITH TIME ZONE;
+
+-- Only the browser holding the session's resume token may save, and only
+-- until the (group's) closing time plus the submit grace period
+-- (SUBMIT_GRACE_SECONDS in _shared/attempts.ts)
+CREATE OR REPLACE FUNCTION public.save_session_answers(
+  _session_id UUID,
+  _resume_token TEXT,
+  _answers JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _session RECORD;
+  _closes_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  SELECT s.quiz_id, s.group_id INTO _session
+  FROM public.quiz_sessions s
+  WHERE s.id = _session_id
+    AND s.resume_token = _resume_token
+    AND s.submitted_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found';
+  END IF;
+
+  IF jsonb_typeof(_answers) IS DISTINCT FROM 'object'
+     OR octet_length(_answers::text) > 200000 THEN
+    RAISE EXCEPTION 'Invalid answers';
+  END IF;
+
+  SELECT w.closes_at INTO _closes_at
+  FROM public.quiz_group_window(_session.quiz_id, _session.group_id) w;
+
+  IF _closes_at IS NOT NULL AND _closes_at + interval '30 seconds' < now() THEN
+    RAISE EXCEPTION 'This quiz has closed';
+  END IF;
+
+  UPDATE public.quiz_sessions
+  SET draft_answers = _answers, answers_saved_at = now()
+  WHERE id = _session_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.save_session_answers(UUID, TEXT, JSONB) TO anon, authenticated;
+
+-- Questions stop being served to a session once it is submitted or its
+-- (group's) closing time plus grace has passed; creator previews are
+-- exempt, as everywhere else
+CREATE OR REPLACE FUNCTION public.get_shared_quiz_questions(
+  _share_token TEXT,
+  _session_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  question_text TEXT,
+  question_type TEXT,
+  options TEXT[],
+  order_num INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    q.id,
+    q.question_text,
+    q.question_type,
+    CASE
+      WHEN s.option_orders ? q.id::text THEN ARRAY(
+        SELECT q.options[o.value::int + 1]
+        FROM jsonb_array_elements_text(s.option_orders -> q.id::text)
+          WITH ORDINALITY AS o(value, pos)
+        ORDER BY o.pos
+      )
+      ELSE q.options
+    END,
+    q.order_num
+  FROM public.resolve_share_link(_share_token) l
+  JOIN public.quizzes z ON z.id = l.quiz_id
+  LEFT JOIN public.quiz_sessions s
+    ON s.id = _session_id AND s.quiz_id = z.id
+  LEFT JOIN LATERAL public.quiz_group_window(z.id, s.group_id) w ON true
+  LEFT JOIN public.quiz_versions v ON v.id = s.version_id
+  CROSS JOIN LATERAL (
+    SELECT * FROM jsonb_populate_recordset(NULL::public.questions, v.questions)
+    WHERE v.id IS NOT NULL
+    UNION ALL
+    SELECT * FROM public.questions lq
+    WHERE lq.quiz_id = z.id AND v.id IS NULL
+  ) q
+  WHERE (
+      CASE
+        WHEN s.id IS NOT NULL THEN
+          s.submitted_at IS NULL
+          AND (
+            s.user_id = z.user_id
+            OR w.closes_at IS NULL
+            OR now() <= w.closes_at + interval '30 seconds'
+          )
+        ELSE
+          public.quiz_state(z.status, z.opens_at, z.closes_at) = 'open'
+          AND l.link_state = 'active'
+          AND l.access_code IS NULL
+      END
+    )
+    AND (
+      CASE
+        WHEN s.question_ids IS NOT NULL THEN q.id = ANY(s.question_ids)
+        ELSE COALESCE(z.pool_size, 0) = 0 AND z.pool_quotas = '{}'::jsonb
+      END
+    )
+  ORDER BY array_position(s.question_ids, q.id), q.order_num
+$$;
+
+-- Finalising moved to the finalise-sessions edge function, which grades
+-- the saved answers (grading only exists in TypeScript)
+DROP FUNCTION IF EXISTS public.finalise_closed_sessions(UUID);
+
+-- Sessions finalise-sessions should grade: unsubmitted, not a creator
+-- preview, and past their (group's) closing time plus grace
+CREATE OR REPLACE FUNCTION public.list_closed_sessions()
+RETURNS SETOF public.quiz_sessions
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT s.*
+  FROM public.quiz_sessions s
+  JOIN public.quizzes z ON z.id = s.quiz_id
+  CROSS JOIN LATERAL public.quiz_group_window(s.quiz_id, s.group_id) w
+  WHERE s.submitted_at IS NULL
+    AND s.user_id IS DISTINCT FROM z.user_id
+    AND w.closes_at IS NOT NULL
+    AND w.closes_at + interval '30 seconds' <= now()
+  ORDER BY w.closes_at
+  LIMIT 500
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.list_closed_sessions() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.list_closed_sessions() TO service_role;
+
+-- Runs finalise-sessions every minute. The project URL and service role
+-- key come from Vault, so set them once per project:
+--   SELECT vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+--   SELECT vault.create_secret('<service role key>', 'service_role_key');
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+SELECT cron.schedule(
+  'finalise-closed-sessions',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+      || '/functions/v1/finalise-sessions',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (
+        SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key'
+      )
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,115 @@
+-- Saving a roster no longer deletes every group left without students:
+-- that took the group's quiz assignments with it and unlinked its
+-- attempts. Empty groups are kept unless the teacher removes them, and a
+-- group with assignments or attempts is never removed. (Members are
+-- still matched on student ID, so existing rows and groups survive a
+-- re-upload.) Security definer so in-progress sessions are seen too;
+-- the roster's owner is checked before anything is written.
+DROP FUNCTION IF EXISTS public.save_roster(UUID, TEXT, JSONB);
+
+CREATE FUNCTION public.save_roster(
+  _roster_id UUID,
+  _name TEXT,
+  _members JSONB,
+  _removed_groups TEXT[] DEFAULT '{}'
+)
+RETURNS UUID
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _id UUID := _roster_id;
+  _item JSONB;
+  _student_id TEXT;
+  _group TEXT;
+  _group_id UUID;
+  _member_id UUID;
+  _kept UUID[] := '{}';
+  _blocked TEXT;
+BEGIN
+  IF btrim(COALESCE(_name, '')) = '' THEN
+    RAISE EXCEPTION 'Roster name is required';
+  END IF;
+
+  IF jsonb_typeof(_members) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Members must be a list';
+  END IF;
+
+  IF _id IS NULL THEN
+    INSERT INTO public.rosters (name, user_id)
+    VALUES (btrim(_name), auth.uid())
+    RETURNING id INTO _id;
+  ELSE
+    UPDATE public.rosters SET name = btrim(_name)
+    WHERE id = _id AND user_id = auth.uid();
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Roster not found';
+    END IF;
+  END IF;
+
+  FOR _item IN SELECT value FROM jsonb_array_elements(_members) LOOP
+    _student_id := btrim(COALESCE(_item ->> 'student_id', ''));
+    CONTINUE WHEN _student_id = '';
+
+    _group := btrim(COALESCE(_item ->> 'group', ''));
+    _group_id := NULL;
+
+    IF _group <> '' THEN
+      INSERT INTO public.roster_groups (roster_id, name)
+      VALUES (_id, _group)
+      ON CONFLICT (roster_id, (lower(name))) DO NOTHING;
+
+      SELECT g.id INTO _group_id
+      FROM public.roster_groups g
+      WHERE g.roster_id = _id AND lower(g.name) = lower(_group);
+    END IF;
+
+    INSERT INTO public.roster_members (roster_id, student_id, name, group_id)
+    VALUES (
+      _id,
+      _student_id,
+      COALESCE(NULLIF(btrim(_item ->> 'name'), ''), _student_id),
+      _group_id
+    )
+    ON CONFLICT (roster_id, (lower(student_id))) DO UPDATE
+    SET student_id = EXCLUDED.student_id,
+        name = EXCLUDED.name,
+        group_id = EXCLUDED.group_id
+    RETURNING id INTO _member_id;
+
+    _kept := _kept || _member_id;
+  END LOOP;
+
+  DELETE FROM public.roster_members
+  WHERE roster_id = _id AND NOT (id = ANY(_kept));
+
+  -- Deleting a group takes its assignments with it and unlinks its
+  -- attempts, so one that has either is never removed
+  SELECT string_agg(g.name, ', ' ORDER BY g.name) INTO _blocked
+  FROM public.roster_groups g
+  WHERE g.roster_id = _id
+    AND lower(g.name) IN (SELECT lower(r) FROM unnest(_removed_groups) r)
+    AND (
+      EXISTS (SELECT 1 FROM public.quiz_group_assignments a WHERE a.group_id = g.id)
+      OR EXISTS (SELECT 1 FROM public.quiz_sessions s WHERE s.group_id = g.id)
+      OR EXISTS (SELECT 1 FROM public.quiz_attempts t WHERE t.group_id = g.id)
+    );
+
+  IF _blocked IS NOT NULL THEN
+    RAISE EXCEPTION 'Groups with quiz assignments or attempts cannot be removed: %', _blocked;
+  END IF;
+
+  DELETE FROM public.roster_groups g
+  WHERE g.roster_id = _id
+    AND lower(g.name) IN (SELECT lower(r) FROM unnest(_removed_groups) r)
+    AND NOT EXISTS (SELECT 1 FROM public.roster_members m WHERE m.group_id = g.id);
+
+  RETURN _id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.save_roster(UUID, TEXT, JSONB, TEXT[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.save_roster(UUID, TEXT, JSONB, TEXT[]) TO authenticated;
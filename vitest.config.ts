@@ -2,15 +2,26 @@ import { defineConfig } from "vitest/config";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 
+// Edge functions import Deno-style URLs; under vitest they resolve to the
+// same npm packages, and Deno-only modules to stand-ins (never called)
+const denoShims = path.resolve(__dirname, "./supabase/functions/tests/denoShims.ts");
+
 export default defineConfig({
   plugins: [react()],
   test: {
     environment: "jsdom",
     globals: true,
     setupFiles: ["./src/test/setup.ts"],
-    include: ["src/**/*.{test,spec}.{ts,tsx}"],
+    include: [
+      "src/**/*.{test,spec}.{ts,tsx}",
+      "supabase/functions/**/*.test.ts",
+    ],
   },
   resolve: {
-    alias: { "@": path.resolve(__dirname, "./src") },
+    alias: [
+      { find: "@", replacement: path.resolve(__dirname, "./src") },
+      { find: "https://esm.sh/zod@3.25.76", replacement: "zod" },
+      { find: "https://esm.sh/unpdf@0.12.1", replacement: denoShims },
+    ],
   },
 });